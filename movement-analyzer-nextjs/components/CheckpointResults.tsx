@@ -0,0 +1,67 @@
+import React from 'react';
+import styles from './CheckpointResults.module.css';
+import type { CheckpointReport, CheckpointResult } from '../utils/checkpoint_rules';
+
+interface CheckpointResultsProps {
+  checkpoints: CheckpointReport;
+  onSeek?: (time: number) => void;
+}
+
+const MAX_LISTED_FRAMES = 5;
+
+const WHEN_LABELS: Record<CheckpointResult['when'], string> = {
+  start: 'At the start',
+  end: 'At the end',
+  lowest_point: 'At the lowest point',
+  highest_point: 'At the highest point',
+  always: 'Throughout',
+  ever: 'At least once',
+};
+
+const CheckpointResults: React.FC<CheckpointResultsProps> = ({ checkpoints, onSeek }) => {
+  // Lists where a rule failed, as seek buttons when the frames are timestamped
+  const renderFailures = (result: CheckpointResult) => {
+    if (result.error) return result.error;
+    if (result.failedFrames.length === 0) return '-';
+    const listed = result.failedFrames.slice(0, MAX_LISTED_FRAMES).map((frame, i) => {
+      const time = result.failedTimes?.[i];
+      if (time === undefined) return <span key={frame}>frame {frame + 1} </span>;
+      return onSeek
+        ? <button key={frame} type="button" onClick={() => onSeek(time)}>{time.toFixed(2)}s</button>
+        : <span key={frame}>{time.toFixed(2)}s </span>;
+    });
+    const more = result.failedFrames.length - MAX_LISTED_FRAMES;
+    return <>{listed}{more > 0 && ` and ${more} more`}</>;
+  };
+
+  return (
+    <div className={styles.checkpointResults}>
+      <h3>Checkpoint Results</h3>
+      <p>{checkpoints.text}</p>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Rule</th>
+            <th>When</th>
+            <th>Result</th>
+            <th>Observed</th>
+            <th>Failed at</th>
+          </tr>
+        </thead>
+        <tbody>
+          {checkpoints.results.map(result => (
+            <tr key={result.id}>
+              <td>{result.description ?? result.id}</td>
+              <td>{WHEN_LABELS[result.when]}</td>
+              <td className={result.passed ? styles.passed : styles.failed}>{result.passed ? 'Pass' : 'Fail'}</td>
+              <td>{result.observed ? `${result.observed.left} vs ${result.observed.right}` : '-'}</td>
+              <td>{renderFailures(result)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CheckpointResults;
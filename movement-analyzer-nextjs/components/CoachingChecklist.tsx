@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import styles from './CoachingChecklist.module.css';
+import type { CoachingCue } from '../utils/coaching_feedback';
+
+interface CoachingChecklistProps {
+  cues: CoachingCue[];
+  /** Called when a cue with a time range is clicked, to seek the videos to its start. */
+  onSeek?: (time: number) => void;
+}
+
+const CoachingChecklist: React.FC<CoachingChecklistProps> = ({ cues, onSeek }) => {
+  // Which cues the athlete has ticked off, by position in the list
+  const [done, setDone] = useState<boolean[]>([]);
+
+  // A new analysis starts with a fresh checklist
+  useEffect(() => setDone([]), [cues]);
+
+  if (cues.length === 0) return null;
+
+  return (
+    <div className={styles.coachingChecklist}>
+      <h4>Coaching Cues</h4>
+      <ul>
+        {cues.map((cue, i) => (
+          <li key={i} className={done[i] ? styles.done : undefined}>
+            <label>
+              <input
+                type="checkbox"
+                checked={!!done[i]}
+                onChange={(e) => {
+                  const next = [...done];
+                  next[i] = e.target.checked;
+                  setDone(next);
+                }}
+              />{' '}
+              <span className={`${styles.severity} ${styles[cue.severity]}`}>{cue.severity}</span>{' '}
+              {cue.message}
+            </label>
+            {onSeek && cue.startTime !== undefined && (
+              <button type="button" className={styles.seek} onClick={() => onSeek(cue.startTime)}>
+                Show me
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CoachingChecklist;
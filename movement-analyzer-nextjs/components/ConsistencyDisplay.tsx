@@ -0,0 +1,100 @@
+import React from 'react';
+import styles from './ConsistencyDisplay.module.css';
+import type { ConsistencyAnalysis } from '../utils/consistency_analysis';
+import { formatJointName, JOINT_NAMES } from '../utils/joint_angles';
+
+interface ConsistencyDisplayProps {
+  consistency: ConsistencyAnalysis;
+  /** File names of the attempts, in upload order. */
+  attemptNames?: string[];
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+const PADDING = 10;
+
+// Background for a pairwise score: white at 100, increasingly red below
+function scoreColor(score: number): string {
+  const shade = Math.round(255 * Math.max(0, Math.min(1, score / 100)) ** 4);
+  return `rgb(255, ${shade}, ${shade})`;
+}
+
+const ConsistencyDisplay: React.FC<ConsistencyDisplayProps> = ({ consistency, attemptNames }) => {
+  const label = (attempt: number) => `#${attempt + 1}`;
+  const { frameVariation, jointVariation } = consistency;
+  const maxVariation = Math.max(...frameVariation.map(frame => frame.meanDissimilarity), Number.EPSILON);
+  const lastFrame = Math.max(1, ...frameVariation.map(frame => frame.frame));
+  const toX = (frame: number) => PADDING + (frame / lastFrame) * (CHART_WIDTH - 2 * PADDING);
+  const toY = (value: number) => CHART_HEIGHT - PADDING - (value / maxVariation) * (CHART_HEIGHT - 2 * PADDING);
+  const variableJoints = jointVariation
+    ? [...JOINT_NAMES].sort((a, b) => jointVariation[b] - jointVariation[a]).slice(0, 3)
+    : [];
+
+  return (
+    <div className={styles.consistencyDisplay}>
+      <h3>Consistency Results</h3>
+      <p>
+        Consistency: <span className={styles.score}>{consistency.consistencyScore.toFixed(0)}%</span>
+      </p>
+      <p>{consistency.text}</p>
+
+      <h4>Pairwise Similarity</h4>
+      <table className={styles.matrix}>
+        <thead>
+          <tr>
+            <th />
+            {consistency.matrix.map((_, j) => <th key={j}>{label(j)}</th>)}
+            <th>Average</th>
+            {consistency.referenceScores && <th>Vs. reference</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {consistency.matrix.map((row, i) => (
+            <tr key={i}>
+              <th title={attemptNames?.[i]}>
+                {label(i)}
+                {i === consistency.mostRepresentative && ' (most representative)'}
+                {i === consistency.leastRepresentative && ' (least representative)'}
+              </th>
+              {row.map((score, j) => (
+                <td key={j} style={{ backgroundColor: i === j ? undefined : scoreColor(score) }}>{i === j ? '-' : score.toFixed(1)}</td>
+              ))}
+              <td>{consistency.meanSimilarity[i].toFixed(1)}</td>
+              {consistency.referenceScores && <td>{consistency.referenceScores[i].toFixed(1)}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {frameVariation.length > 1 && (
+        <>
+          <h4>Variation Across the Movement (attempt {label(consistency.mostRepresentative)})</h4>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={styles.chart}>
+            {consistency.variableSegments.map((segment, i) => (
+              <rect
+                key={i}
+                className={styles.segment}
+                x={toX(segment.startStep)}
+                y={PADDING}
+                width={Math.max(2, toX(segment.endStep) - toX(segment.startStep))}
+                height={CHART_HEIGHT - 2 * PADDING}
+              />
+            ))}
+            <polyline
+              className={styles.line}
+              points={frameVariation.map(frame => `${toX(frame.frame)},${toY(frame.meanDissimilarity)}`).join(' ')}
+            />
+          </svg>
+        </>
+      )}
+
+      {variableJoints.length > 0 && (
+        <p>
+          Most variable joints: {variableJoints.map(joint => `${formatJointName(joint)} (±${jointVariation[joint].toFixed(1)}°)`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ConsistencyDisplay;
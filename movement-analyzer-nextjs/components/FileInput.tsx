@@ -5,10 +5,11 @@ interface FileInputProps {
   label: string;
   id: string;
   accept: string;
+  multiple?: boolean;
   onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
-const FileInput: React.FC<FileInputProps> = ({ label, id, accept, onChange }) => {
+const FileInput: React.FC<FileInputProps> = ({ label, id, accept, multiple, onChange }) => {
   return (
     <div className={styles.fileInputContainer}>
       <label htmlFor={id}>{label}</label>
@@ -17,6 +18,7 @@ const FileInput: React.FC<FileInputProps> = ({ label, id, accept, onChange }) =>
         id={id}
         name={id}
         accept={accept}
+        multiple={multiple}
         onChange={onChange}
       />
     </div>
@@ -0,0 +1,54 @@
+import React from 'react';
+import styles from './KeyPoseResults.module.css';
+import type { KeyPoseReport } from '../utils/key_pose_matching';
+
+interface KeyPoseResultsProps {
+  keyPoses: KeyPoseReport;
+  /** Seeks the annotated videos to a matched frame and its key pose on the reference. */
+  onSeek?: (time: number, referenceTime: number) => void;
+}
+
+// Formats an offset in seconds with its sign, e.g. "+0.12s"
+const formatOffset = (offset: number | undefined) =>
+  offset === undefined ? '-' : `${offset > 0 ? '+' : ''}${offset.toFixed(2)}s`;
+
+const KeyPoseResults: React.FC<KeyPoseResultsProps> = ({ keyPoses, onSeek }) => {
+  return (
+    <div className={styles.keyPoseResults}>
+      <h3>Key Poses: {keyPoses.score.toFixed(1)}%</h3>
+      <p>{keyPoses.text}</p>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Key pose</th>
+            <th>Reference</th>
+            <th>Your clip</th>
+            <th>Match</th>
+            <th title="Time from the previous key pose, compared with the reference. Positive means slower.">Timing</th>
+          </tr>
+        </thead>
+        <tbody>
+          {keyPoses.matches.map((match, k) => (
+            <tr key={k}>
+              <td>{match.label}</td>
+              <td>{match.referenceTime.toFixed(2)}s</td>
+              <td>
+                {match.matchedTime === undefined
+                  ? match.error
+                  : onSeek
+                    ? <button type="button" onClick={() => onSeek(match.matchedTime, match.referenceTime)}>{match.matchedTime.toFixed(2)}s</button>
+                    : `${match.matchedTime.toFixed(2)}s`}
+              </td>
+              <td className={match.score >= 80 ? styles.good : match.score < 50 ? styles.poor : undefined}>
+                {match.matchedFrame === undefined ? '-' : `${match.score.toFixed(1)}%`}
+              </td>
+              <td>{formatOffset(match.intervalOffset)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default KeyPoseResults;
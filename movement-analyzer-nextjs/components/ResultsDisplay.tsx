@@ -1,12 +1,52 @@
 import React from 'react';
 import styles from './ResultsDisplay.module.css';
+import type { AlignmentStep, ConfidenceReport, ScoreBreakdown } from '../utils/analysis';
+import { formatJointName } from '../utils/joint_angles';
+import { formatBodyRegion } from '../utils/landmarks';
+import type { BodyRegion } from '../utils/landmarks';
+import type { JointAngles, JointName } from '../utils/joint_angles';
+import type { KinematicComparison } from '../utils/kinematics';
+import type { RepetitionAnalysis, RepPhaseSpan } from '../utils/repetition_analysis';
+import type { TempoAnalysis, TempoLabel } from '../utils/tempo_analysis';
+import type { RangeOfMotionReport } from '../utils/range_of_motion';
+import type { ScoreInterval } from '../utils/score_interval';
 
 interface ResultsDisplayProps {
   score: number | null;
+  scoreInterval?: ScoreInterval | null;
   analysisText: string | null;
+  alignmentPath?: AlignmentStep[] | null;
+  jointAngleDifferences?: JointAngles | null;
+  breakdown?: ScoreBreakdown | null;
+  confidence?: ConfidenceReport | null;
+  kinematics?: KinematicComparison | null;
+  repetitions?: { short: RepetitionAnalysis; reference: RepetitionAnalysis } | null;
+  tempo?: TempoAnalysis | null;
+  rangeOfMotion?: RangeOfMotionReport | null;
 }
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ score, analysisText }) => {
+// Groups the alignment path by short video frame, listing the reference frame(s) each was matched with.
+function groupMatchesByFrame(alignmentPath: AlignmentStep[]): { frame: number; referenceFrames: number[] }[] {
+  const groups: { frame: number; referenceFrames: number[] }[] = [];
+  alignmentPath.forEach(step => {
+    const last = groups[groups.length - 1];
+    if (last && last.frame === step.index1) {
+      last.referenceFrames.push(step.index2);
+    } else {
+      groups.push({ frame: step.index1, referenceFrames: [step.index2] });
+    }
+  });
+  return groups;
+}
+
+// Formats the duration of a rep phase in seconds, or '-' without timestamps.
+function formatPhaseDuration(span: RepPhaseSpan): string {
+  return span.startTime !== undefined && span.endTime !== undefined ? `${(span.endTime - span.startTime).toFixed(2)}s` : '-';
+}
+
+const TEMPO_LABELS: Record<TempoLabel, string> = { rushed: 'Rushed', on_pace: 'On pace', slow: 'Too slow' };
+
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ score, scoreInterval, analysisText, alignmentPath, jointAngleDifferences, breakdown, confidence, kinematics, repetitions, tempo, rangeOfMotion }) => {
   if (score === null && analysisText === null) {
     return <div className={styles.noResults}>No results to display yet.</div>;
   }
@@ -16,10 +56,227 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ score, analysisText })
       <h3>Analysis Results</h3>
       {score !== null && (
         <p>
-          Similarity Score: <span className={styles.score}>{score.toFixed(2)}</span>
+          {/* Rounded to whole points: pose jitter alone moves the score by more than that */}
+          Similarity Score:{' '}
+          <span className={styles.score} title={scoreInterval ? `${(scoreInterval.level * 100).toFixed(0)}% confidence interval: ${scoreInterval.lower.toFixed(1)}%-${scoreInterval.upper.toFixed(1)}%` : undefined}>
+            {score.toFixed(0)}%{scoreInterval && ` ± ${scoreInterval.margin.toFixed(0)}%`}
+          </span>
         </p>
       )}
       {analysisText && <p>{analysisText}</p>}
+      {confidence && (
+        <p className={confidence.lowConfidenceShare > 0.3 ? styles.warning : undefined}>
+          Data confidence: {(confidence.lowConfidenceShare * 100).toFixed(0)}% of the compared landmarks were low-confidence
+          {confidence.unreliableSteps.length > 0 && `; ${confidence.unreliableSteps.length} unreliable frame(s) left out`}.
+        </p>
+      )}
+      {kinematics && (
+        <div className={styles.breakdown}>
+          <h4>Movement Quality</h4>
+          <table className={styles.breakdownTable}>
+            <tbody>
+              {([
+                ['Speed', kinematics.speedScore],
+                ['Acceleration', kinematics.accelerationScore],
+                ['Smoothness', kinematics.smoothnessScore],
+                ['Overall', kinematics.score],
+              ] as [string, number][]).map(([label, value]) => (
+                <tr key={label}>
+                  <td>{label}</td>
+                  <td className={value < 50 ? styles.lowScore : undefined}>{value.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {kinematics.smoothness1 !== undefined && kinematics.smoothness2 !== undefined && (
+            <p>
+              Smoothness (log dimensionless jerk, closer to 0 is smoother): you {kinematics.smoothness1.toFixed(2)}, reference {kinematics.smoothness2.toFixed(2)}.
+            </p>
+          )}
+        </div>
+      )}
+      {rangeOfMotion && rangeOfMotion.joints.length > 0 && (
+        <div className={styles.breakdown}>
+          <h4>Range of Motion</h4>
+          <p>
+            Joint angles in degrees over {rangeOfMotion.framesAnalyzed} frame(s), measured in {rangeOfMotion.use3D ? '3D on world landmarks' : '2D on image landmarks'}.
+          </p>
+          <table className={styles.breakdownTable}>
+            <thead>
+              <tr>
+                <th>Joint</th>
+                <th>Min</th>
+                <th>Max</th>
+                <th>Range</th>
+                <th>Reference</th>
+                <th>% of reference</th>
+                <th>Normative</th>
+                <th>% of normative</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rangeOfMotion.joints.map(joint => (
+                <tr key={joint.joint}>
+                  <td>{formatJointName(joint.joint)}</td>
+                  <td>{joint.min.toFixed(0)}°</td>
+                  <td>{joint.max.toFixed(0)}°</td>
+                  <td>{joint.range.toFixed(0)}°</td>
+                  <td>{joint.reference ? `${joint.reference.min.toFixed(0)}°–${joint.reference.max.toFixed(0)}°` : '-'}</td>
+                  <td className={joint.percentOfReference !== undefined && joint.percentOfReference < 80 ? styles.lowScore : undefined}>
+                    {joint.percentOfReference !== undefined ? `${joint.percentOfReference.toFixed(0)}%` : '-'}
+                  </td>
+                  <td>{joint.normative ? `${joint.normative.min}°–${joint.normative.max}°` : '-'}</td>
+                  <td className={joint.reachedNormativeRange === false ? styles.lowScore : undefined}>
+                    {joint.percentOfNormative !== undefined ? `${joint.percentOfNormative.toFixed(0)}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {tempo && (
+        <div className={styles.breakdown}>
+          <h4>Tempo</h4>
+          <p>
+            Movement: {tempo.movement1.duration.toFixed(2)}s against the reference&apos;s {tempo.movement2.duration.toFixed(2)}s,{' '}
+            {tempo.speedRatio.toFixed(2)}x the reference speed ({TEMPO_LABELS[tempo.tempo].toLowerCase()}).
+          </p>
+          {tempo.sections.length + tempo.phases.length > 0 && (
+            <table className={styles.breakdownTable}>
+              <thead>
+                <tr>
+                  <th>Section</th>
+                  <th>You</th>
+                  <th>Reference</th>
+                  <th>Speed</th>
+                  <th>Tempo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...tempo.sections, ...tempo.phases].map(segment => (
+                  <tr key={segment.name}>
+                    <td>{segment.name}</td>
+                    <td>{segment.duration1.toFixed(2)}s</td>
+                    <td>{segment.duration2.toFixed(2)}s</td>
+                    <td>{segment.speedRatio.toFixed(2)}x</td>
+                    <td className={segment.tempo !== 'on_pace' ? styles.lowScore : undefined}>{TEMPO_LABELS[segment.tempo]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+      {repetitions && (
+        <div className={styles.breakdown}>
+          <h4>Repetitions</h4>
+          <p>
+            You: {repetitions.short.repCount} rep(s)
+            {repetitions.short.averageDuration !== undefined && `, ${repetitions.short.averageDuration.toFixed(2)}s on average`}.
+            Reference: {repetitions.reference.repCount} rep(s)
+            {repetitions.reference.averageDuration !== undefined && `, ${repetitions.reference.averageDuration.toFixed(2)}s on average`}.
+          </p>
+          {repetitions.short.reps.length > 0 && (
+            <table className={styles.breakdownTable}>
+              <thead>
+                <tr>
+                  <th>Rep</th>
+                  <th>Duration</th>
+                  <th>Eccentric</th>
+                  <th>Bottom</th>
+                  <th>Concentric</th>
+                  <th>Similarity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {repetitions.short.reps.map((rep, i) => (
+                  <tr key={i}>
+                    <td>{i + 1}</td>
+                    <td>{rep.duration !== undefined ? `${rep.duration.toFixed(2)}s` : '-'}</td>
+                    {rep.phases.map(span => (
+                      <td key={span.phase}>{formatPhaseDuration(span)}</td>
+                    ))}
+                    <td className={rep.similarity !== undefined && rep.similarity < 50 ? styles.lowScore : undefined}>
+                      {rep.similarity !== undefined ? `${rep.similarity.toFixed(1)}%` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+      {breakdown && (
+        <div className={styles.breakdown}>
+          <h4>Body Region Scores</h4>
+          <table className={styles.breakdownTable}>
+            <tbody>
+              {(Object.keys(breakdown.regions) as BodyRegion[]).map(region => (
+                <tr key={region}>
+                  <td>{formatBodyRegion(region)}</td>
+                  <td className={breakdown.regions[region] < 50 ? styles.lowScore : undefined}>
+                    {breakdown.regions[region].toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p>
+            Largest deviation: <strong>{breakdown.worstLandmark.name}</strong> ({breakdown.worstLandmark.meanError.toFixed(3)})
+          </p>
+          <details>
+            <summary>Per-landmark errors</summary>
+            <table className={styles.breakdownTable}>
+              <thead>
+                <tr>
+                  <th>Landmark</th>
+                  <th>Mean error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {breakdown.landmarks.map(lm => (
+                  <tr key={lm.index}>
+                    <td>{lm.name}</td>
+                    <td>{lm.meanError.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        </div>
+      )}
+      {jointAngleDifferences && (
+        <table className={styles.breakdownTable}>
+          <thead>
+            <tr>
+              <th>Joint</th>
+              <th>Avg. angle difference</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(jointAngleDifferences) as JointName[]).map(joint => (
+              <tr key={joint}>
+                <td>{formatJointName(joint)}</td>
+                <td>{jointAngleDifferences[joint].toFixed(1)}&deg;</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {alignmentPath && alignmentPath.length > 0 && (
+        <div className={styles.frameMatches}>
+          <h4>Frame Matching</h4>
+          <ul>
+            {groupMatchesByFrame(alignmentPath).map(({ frame, referenceFrames }) => (
+              <li key={frame}>
+                Your frame {frame + 1} &rarr; reference frame{referenceFrames.length > 1 ? 's' : ''}{' '}
+                {referenceFrames.map(f => f + 1).join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
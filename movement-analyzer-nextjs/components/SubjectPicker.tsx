@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import styles from './SubjectPicker.module.css';
+import type { PersonBox, SubjectSelection } from '../utils/person_tracking';
+
+interface SubjectPickerProps {
+  src: string | null;
+  title: string;
+  /** The person chosen so far, or null to analyze the one person the model finds. */
+  selection: SubjectSelection | null;
+  onSelect: (selection: SubjectSelection | null) => void;
+}
+
+// Drags shorter than this (as a share of the frame) count as a click
+const MIN_BOX_SIZE = 0.02;
+
+// Percent offsets and size of a normalized box, for absolute positioning over the video
+const boxStyle = (box: PersonBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+// A preview video on which the person to analyze is chosen by clicking on them or drawing a box
+// around them, on the frame the video is paused at. Forwards a ref to the <video> element.
+const SubjectPicker = React.forwardRef<HTMLVideoElement, SubjectPickerProps>(({ src, title, selection, onSelect }, ref) => {
+  const [picking, setPicking] = useState(false);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragBox, setDragBox] = useState<PersonBox | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  // The video is needed here too (for its current time), so the forwarded ref is set alongside our own
+  const setVideoRef = (video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    if (typeof ref === 'function') ref(video);
+    else if (ref) ref.current = video;
+  };
+
+  // The pointer position as a share of the video frame. The video keeps its aspect ratio at full width, so the
+  // overlay covers exactly the frame.
+  const toFrame = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.max(0, Math.min(1, value));
+    return { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) };
+  };
+
+  const currentTime = () => (videoRef.current ? parseFloat(videoRef.current.currentTime.toFixed(2)) : 0);
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    setDragStart(toFrame(event));
+    setDragBox(null);
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = toFrame(event);
+    setDragBox({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handleMouseUp = () => {
+    if (!dragStart) return;
+    const time = currentTime();
+    if (dragBox && dragBox.width >= MIN_BOX_SIZE && dragBox.height >= MIN_BOX_SIZE) {
+      onSelect({ type: 'box', box: dragBox, time });
+    } else {
+      onSelect({ type: 'point', x: parseFloat(dragStart.x.toFixed(4)), y: parseFloat(dragStart.y.toFixed(4)), time });
+    }
+    setDragStart(null);
+    setDragBox(null);
+    setPicking(false);
+  };
+
+  const startPicking = () => {
+    videoRef.current?.pause();
+    setPicking(true);
+  };
+
+  return (
+    <div className={styles.subjectPicker}>
+      <h3>{title}</h3>
+      {src ? (
+        <>
+          <div className={styles.frame}>
+            <video controls src={src} key={src} ref={setVideoRef}>
+              Your browser does not support the video tag.
+            </video>
+            {selection?.type === 'point' && (
+              <div className={styles.marker} style={{ left: `${selection.x * 100}%`, top: `${selection.y * 100}%` }} />
+            )}
+            {selection?.type === 'box' && <div className={styles.box} style={boxStyle(selection.box)} />}
+            {picking && (
+              <div className={styles.overlay} onMouseDown={handleMouseDown} onMouseMove={handleMouseMove} onMouseUp={handleMouseUp}>
+                {dragBox && <div className={styles.box} style={boxStyle(dragBox)} />}
+              </div>
+            )}
+          </div>
+          <div className={styles.controls}>
+            <button type="button" onClick={startPicking} disabled={picking}>
+              {selection ? 'Choose another person' : 'Choose person to analyze'}
+            </button>
+            {(selection || picking) && (
+              <button type="button" onClick={() => { setPicking(false); onSelect(null); }}>
+                Clear
+              </button>
+            )}
+            <span className={styles.hint}>
+              {picking
+                ? 'Click the person, or drag a box around them.'
+                : selection
+                  ? `Person chosen${'time' in selection ? ` at ${selection.time.toFixed(2)}s` : ''}; they are followed through the video.`
+                  : 'Only needed if other people are in the video.'}
+            </span>
+          </div>
+        </>
+      ) : (
+        <div className={styles.placeholder}>Video will appear here</div>
+      )}
+    </div>
+  );
+});
+
+SubjectPicker.displayName = 'SubjectPicker';
+
+export default SubjectPicker;
@@ -0,0 +1,97 @@
+import React from 'react';
+import styles from './SymmetryDisplay.module.css';
+import type { BilateralJoint, SymmetryAnalysis } from '../utils/symmetry_analysis';
+
+interface SymmetryDisplayProps {
+  symmetry: SymmetryAnalysis;
+  onSeek?: (time: number) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 150;
+const PADDING = 10;
+
+const JOINT_COLORS: Record<BilateralJoint, string> = {
+  shoulder: '#0070f3',
+  elbow: '#7928ca',
+  hip: '#f5a623',
+  knee: '#d8000c',
+  ankle: '#17a34a',
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+const SymmetryDisplay: React.FC<SymmetryDisplayProps> = ({ symmetry, onSeek }) => {
+  const frameCount = symmetry.joints[0]?.index.length ?? 0;
+  const maxIndex = Math.max(...symmetry.joints.flatMap(joint => joint.index.filter((value): value is number => value !== undefined)), 1);
+  const toX = (frame: number) => PADDING + (frame / Math.max(1, frameCount - 1)) * (CHART_WIDTH - 2 * PADDING);
+  const toY = (index: number) => CHART_HEIGHT - PADDING - (index / maxIndex) * (CHART_HEIGHT - 2 * PADDING);
+
+  return (
+    <div className={styles.symmetryDisplay}>
+      <h3>Symmetry Results</h3>
+      <p>{symmetry.text}</p>
+
+      {frameCount > 1 && (
+        <>
+          <h4>Asymmetry Index Over Time</h4>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={styles.chart}>
+            {symmetry.joints.map(joint => (
+              <polyline
+                key={joint.joint}
+                className={styles.line}
+                stroke={JOINT_COLORS[joint.joint]}
+                points={joint.index
+                  .map((value, frame) => (value === undefined ? null : `${toX(frame)},${toY(value)}`))
+                  .filter(Boolean)
+                  .join(' ')}
+              />
+            ))}
+          </svg>
+          <ul className={styles.legend}>
+            {symmetry.joints.map(joint => (
+              <li key={joint.joint}>
+                <span className={styles.swatch} style={{ backgroundColor: JOINT_COLORS[joint.joint] }} />
+                {capitalize(joint.joint)}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Joint</th>
+            <th>Mean index</th>
+            <th>Peak index</th>
+            <th>Left - right</th>
+            <th>Range left / right</th>
+          </tr>
+        </thead>
+        <tbody>
+          {symmetry.joints.map(joint => (
+            <tr key={joint.joint}>
+              <td>{capitalize(joint.joint)}</td>
+              <td className={symmetry.flaggedJoints.includes(joint.joint) ? styles.flagged : undefined}>{joint.meanIndex.toFixed(1)}%</td>
+              <td>
+                {joint.peakIndex.toFixed(1)}%
+                {joint.peakTime !== undefined && (
+                  onSeek
+                    ? <> at <button type="button" onClick={() => onSeek(joint.peakTime)}>{joint.peakTime.toFixed(2)}s</button></>
+                    : ` at ${joint.peakTime.toFixed(2)}s`
+                )}
+              </td>
+              <td>{joint.meanDifference > 0 ? '+' : ''}{joint.meanDifference.toFixed(1)}°</td>
+              <td>{joint.leftRange.toFixed(0)}° / {joint.rightRange.toFixed(0)}°</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SymmetryDisplay;
@@ -0,0 +1,80 @@
+import React from 'react';
+import styles from './TimelineChart.module.css';
+import type { AlignmentStep, DissimilaritySegment } from '../utils/analysis';
+
+interface TimelineChartProps {
+  alignmentPath: AlignmentStep[];
+  worstSegments?: DissimilaritySegment[] | null;
+  onSeek: (step: AlignmentStep) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 150;
+const PADDING = 10;
+
+// Formats a timestamp in seconds as m:ss.s
+function formatTime(seconds: number | undefined): string {
+  if (seconds === undefined) return '-';
+  const minutes = Math.floor(seconds / 60);
+  const remainder = (seconds - minutes * 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${remainder}`;
+}
+
+const TimelineChart: React.FC<TimelineChartProps> = ({ alignmentPath, worstSegments, onSeek }) => {
+  if (alignmentPath.length === 0) return null;
+
+  const maxDissimilarity = Math.max(...alignmentPath.map(step => step.dissimilarity), 1e-6);
+  const stepWidth = (CHART_WIDTH - 2 * PADDING) / Math.max(1, alignmentPath.length - 1);
+  const toX = (stepIndex: number) => PADDING + stepIndex * stepWidth;
+  const toY = (dissimilarity: number) => CHART_HEIGHT - PADDING - (dissimilarity / maxDissimilarity) * (CHART_HEIGHT - 2 * PADDING);
+  const points = alignmentPath.map((step, i) => `${toX(i)},${toY(step.dissimilarity)}`).join(' ');
+
+  return (
+    <div className={styles.timelineChart}>
+      <h4>Dissimilarity Over Time</h4>
+      <p className={styles.hint}>Click a point to jump both annotated videos to that moment.</p>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className={styles.chart}>
+        {worstSegments?.map((segment, i) => (
+          <rect
+            key={`segment-${i}`}
+            className={styles.segment}
+            x={toX(segment.startStep) - stepWidth / 2}
+            y={PADDING}
+            width={(segment.endStep - segment.startStep + 1) * stepWidth}
+            height={CHART_HEIGHT - 2 * PADDING}
+          />
+        ))}
+        <polyline className={styles.line} points={points} />
+        {alignmentPath.map((step, i) => (
+          <circle
+            key={i}
+            className={step.reliable ? styles.point : styles.unreliablePoint}
+            cx={toX(i)}
+            cy={toY(step.dissimilarity)}
+            r={3}
+            onClick={() => onSeek(step)}
+          >
+            <title>{`Frame ${step.index1} vs ${step.index2} (${formatTime(step.time1)} / ${formatTime(step.time2)}): ${step.dissimilarity.toFixed(3)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      {worstSegments && worstSegments.length > 0 && (
+        <>
+          <h4>Worst Moments</h4>
+          <ol className={styles.worstMoments}>
+            {worstSegments.map((segment, i) => (
+              <li key={i}>
+                <button type="button" onClick={() => onSeek(alignmentPath[segment.peakStep])}>
+                  {formatTime(segment.startTime1)} - {formatTime(segment.endTime1)}
+                </button>
+                {' '}(reference {formatTime(segment.startTime2)} - {formatTime(segment.endTime2)}), mean dissimilarity {segment.meanDissimilarity.toFixed(3)}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelineChart;
@@ -6,12 +6,13 @@ interface VideoDisplayProps {
   title: string;
 }
 
-const VideoDisplay: React.FC<VideoDisplayProps> = ({ src, title }) => {
+// Forwards a ref to the <video> element so the parent can seek it (e.g. from the timeline chart)
+const VideoDisplay = React.forwardRef<HTMLVideoElement, VideoDisplayProps>(({ src, title }, ref) => {
   return (
     <div className={styles.videoDisplay}>
       <h3>{title}</h3>
       {src ? (
-        <video controls src={src} key={src}>
+        <video controls src={src} key={src} ref={ref}>
           Your browser does not support the video tag.
         </video>
       ) : (
@@ -19,6 +20,8 @@ const VideoDisplay: React.FC<VideoDisplayProps> = ({ src, title }) => {
       )}
     </div>
   );
-};
+});
+
+VideoDisplay.displayName = 'VideoDisplay';
 
 export default VideoDisplay;
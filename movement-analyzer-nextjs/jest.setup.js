@@ -107,6 +107,8 @@ jest.mock('canvas', () => {
     font: '',
     textAlign: '',
     fillText: jest.fn(),
+    strokeRect: jest.fn(),
+    measureText: jest.fn(() => ({ width: 50 })),
   };
 
   const mockCanvas = {
@@ -0,0 +1,12 @@
+/** @type {import('next').NextConfig} */
+module.exports = {
+  webpack: (config, { isServer, nextRuntime }) => {
+    // The frame worker threads run a script of their own, so it is compiled with the server code
+    // into .next/server/workers/frame_worker.js (see utils/frame_worker_pool.ts)
+    if (isServer && nextRuntime === 'nodejs') {
+      const entry = config.entry;
+      config.entry = async () => ({ ...(await entry()), 'workers/frame_worker': './utils/frame_worker.ts' });
+    }
+    return config;
+  },
+};
@@ -0,0 +1,13 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ANALYSIS_RESPONSE_SCHEMA } from '../../utils/analysis_report_schema';
+
+// Serves the JSON Schema of a successful /api/analyze response, so clients can validate the
+// report or generate types from it.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+  res.setHeader('Content-Type', 'application/schema+json');
+  return res.status(200).send(JSON.stringify(ANALYSIS_RESPONSE_SCHEMA, null, 2));
+}
@@ -1,16 +1,39 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import formidable, { File as FormidableFile, Fields as FormidableFields, Files as FormidableFiles } from 'formidable';
+import type { LandmarkList, NormalizedLandmarkList, PoseFrameResult } from '../../utils/pose_backend';
+import { File as FormidableFile, Fields as FormidableFields } from 'formidable';
 import fs from 'fs';
 import path from 'path';
-import ffmpeg, { FfprobeData } from 'fluent-ffmpeg';
 import { v4 as uuidv4 } from 'uuid';
 import { loadImage, Image as CanvasImage } from 'canvas'; // For getImageDimensions
 
 // Import utility functions
-import { extractFrames, createVideoFromFrames } from '../../utils/video_processing';
-import { estimatePosesForFrames } from '../../utils/pose_estimation';
-import { drawPoseOnFrame } from '../../utils/drawing_utils';
-import { calculateSimilarity } from '../../utils/analysis';
+import { extractFrames, computeFrameTimestamps } from '../../utils/video_processing';
+import { getVideoMetadata } from '../../utils/video_metadata';
+import {
+  annotateClip, ApiErrorResponse, BASE_TEMP_DIR, cleanupRun, encodeAnnotatedVideo, parseTargetFrames, parseUpload,
+} from '../../utils/api_upload';
+import { getPoseBackend } from '../../utils/pose_backend';
+import { getPoseCache, PoseCache } from '../../utils/pose_cache';
+import { estimatePeopleInFrames } from '../../utils/frame_tasks';
+import { getFrameWorkerPool } from '../../utils/frame_worker_pool';
+import {
+  calculateSimilarity, AlignmentMode, AlignmentStep, ConfidenceReport, DissimilaritySegment, MirrorMode, ScoreBreakdown,
+  SimilarityMetric, SimilarityOptions, VisibilityOptions,
+} from '../../utils/analysis';
+import { JointAngles, JointName, JOINT_NAMES } from '../../utils/joint_angles';
+import { KinematicComparison } from '../../utils/kinematics';
+import { CoachingCue, generateFeedback } from '../../utils/coaching_feedback';
+import { NUM_POSE_LANDMARKS } from '../../utils/landmarks';
+import { CoordinateSpace, NormalizationOptions } from '../../utils/pose_normalization';
+import { loadScoringProfile, profileToSimilarityOptions, ScoringProfile } from '../../utils/scoring_profiles';
+import { compareRepetitions, detectRepetitions, RepetitionAnalysis, RepSignalSource } from '../../utils/repetition_analysis';
+import { analyzeTempo, TempoAnalysis } from '../../utils/tempo_analysis';
+import { DEFAULT_NORMATIVE_RANGES, measureRangeOfMotion, NormativeRange, parseNormativeRanges, RangeOfMotionReport } from '../../utils/range_of_motion';
+import { AnalysisReport, buildAnalysisReport, createStageTimer } from '../../utils/analysis_report';
+import { ScoreInterval } from '../../utils/score_interval';
+import { measureJitter, smoothPoseSequence, SmoothingMethod, SmoothingOptions, SMOOTHING_METHODS } from '../../utils/landmark_smoothing';
+import { KeyPose, KeyPoseReport, matchKeyPoses, parseKeyPoses } from '../../utils/key_pose_matching';
+import { parseSubjectSelection, selectSubject, SubjectSelection, SubjectTracking, summarizeTrack, trackPeople } from '../../utils/person_tracking';
 
 // Disable Next.js body parser for this route to use formidable
 export const config = {
@@ -20,69 +43,234 @@ export const config = {
 };
 
 const MAX_SHORT_VIDEO_DURATION_S = 5;
-const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
-const PROCESSED_VIDEOS_DIR_PUBLIC = path.join(process.cwd(), 'public', 'processed_videos'); // For final videos
-const BASE_TEMP_DIR = path.join(process.cwd(), 'public', 'temp_processing'); // For intermediate files
-
-// Ensure directories exist
-[UPLOAD_DIR, PROCESSED_VIDEOS_DIR_PUBLIC, BASE_TEMP_DIR].forEach(dir => {
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-});
-
-interface FormidableParseResult {
-  fields: FormidableFields;
-  files: FormidableFiles;
-}
-
-interface ApiErrorResponse {
-  success: false;
-  error: string;
-  details?: any;
-}
-
 interface ApiSuccessResponse {
   success: true;
   message?: string; // Optional for success
   annotated_short_video_url: string;
   annotated_reference_video_url: string;
   similarity_score: number;
+  similarity_score_interval?: ScoreInterval; // 95% bootstrap confidence interval of the score, from frame-to-frame pose jitter
   analysis_text: string;
+  profile?: string; // Name of the scoring profile used, if any
+  alignment: AlignmentMode;
+  alignment_path: AlignmentStep[]; // Per-frame dissimilarity series: which reference frame (index2) each short video frame (index1) was matched with, with timestamps
+  worst_segments?: DissimilaritySegment[];
+  metric: SimilarityMetric;
+  normalization: NormalizationOptions;
+  coordinate_space: CoordinateSpace; // Whether image-normalized or 3D world landmarks were compared
+  mirror: MirrorMode;
+  mirrored: boolean; // Whether the short video was mirrored for the reported score
+  joint_angle_differences?: JointAngles; // Mean absolute difference per joint in degrees
+  breakdown?: ScoreBreakdown; // Per-body-region sub-scores and per-landmark errors
+  confidence?: ConfidenceReport; // Unreliable frames and low-confidence share, if visibility handling was requested
+  coaching_cues: CoachingCue[]; // Prioritized, actionable cues, most important first
+  coaching_text: string; // The same cues as a paragraph
+  kinematics?: KinematicComparison; // Speed, acceleration and smoothness scores, if requested
+  repetitions?: { // Only if a rep signal was requested; short video reps are scored against the first reference rep
+    short: RepetitionAnalysis;
+    reference: RepetitionAnalysis;
+  };
+  tempo: TempoAnalysis; // Real-time speed ratio and rushed or slow sections, from the clip durations
+  range_of_motion?: RangeOfMotionReport; // Per-joint min, max and range against the reference (and normative ranges), if requested
+  key_poses?: KeyPoseReport; // Best matching short video frame, match score and timing offset per reference key pose, if key poses were sent
+  subjects?: { short?: SubjectTracking; reference?: SubjectTracking }; // People tracked and the one analyzed, per video a subject was chosen for
+  pose_cache: { short: 'hit' | 'miss'; reference: 'hit' | 'miss' }; // Whether each video's poses came from the pose cache
+  smoothing?: { // Only if smoothing was requested; jitter is the mean per-frame second difference of the landmarks
+    options: SmoothingOptions;
+    jitter: { short: { raw: number; smoothed: number }; reference: { raw: number; smoothed: number } };
+  };
+  poses?: { // Only with includePoses=true, for debugging the smoothing
+    short: { raw: (NormalizedLandmarkList | undefined)[]; smoothed: (NormalizedLandmarkList | undefined)[] };
+    reference: { raw: (NormalizedLandmarkList | undefined)[]; smoothed: (NormalizedLandmarkList | undefined)[] };
+  };
+  report: AnalysisReport; // Versioned, schema-described result (see /api/analyze-schema); the fields above are kept for existing clients
 }
 
-interface VideoMetadata {
-    duration: number;
-    width: number;
-    height: number;
-    fps: number;
+interface RangeOfMotionRequest {
+  worldLandmarks: boolean;
+  normativeRanges?: Partial<Record<JointName, NormativeRange>>;
 }
 
-// Helper function to get video metadata including dimensions and FPS
-async function getVideoMetadata(filePath: string): Promise<VideoMetadata> {
-    return new Promise((resolve, reject) => {
-        ffmpeg.ffprobe(filePath, (err, metadata: FfprobeData) => {
-            if (err) {
-                return reject(new Error(`ffprobe error: ${err.message}`));
-            }
-            const videoStream = metadata.streams.find(s => s.codec_type === 'video');
-            if (!videoStream || typeof videoStream.duration !== 'string' || 
-                !videoStream.width || !videoStream.height || !videoStream.r_frame_rate) {
-                return reject(new Error('Essential video metadata (duration, width, height, fps) not found.'));
-            }
-            const duration = parseFloat(videoStream.duration);
-            const fpsString = videoStream.r_frame_rate;
-            const [num, den] = fpsString.split('/').map(Number);
-            const fps = den && num ? num / den : 30; // Default to 30 if parsing fails
-
-            resolve({
-                duration,
-                width: videoStream.width,
-                height: videoStream.height,
-                fps: fps,
-            });
-        });
-    });
+// Helper to parse an optional numeric form field; undefined if absent or outside [min, max]
+function parseNumberField(fields: FormidableFields, name: string, min: number, max: number, runId: string): number | undefined {
+  const value = fields[name]?.[0];
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || parsed < min || parsed > max) {
+    console.warn(`RunID ${runId}: Invalid ${name} value "${value}". Using the default.`);
+    return undefined;
+  }
+  return parsed;
+}
+
+// Helper to build the similarity options from the optional form fields.
+// Options whose field is absent are left undefined, so they fall back to the scoring profile or the defaults.
+function parseSimilarityOptions(fields: FormidableFields, runId: string): SimilarityOptions {
+  let alignment: AlignmentMode | undefined;
+  const alignmentValue = fields.alignment?.[0];
+  if (alignmentValue === 'dtw' || alignmentValue === 'index') alignment = alignmentValue;
+  else if (alignmentValue !== undefined) {
+    console.warn(`RunID ${runId}: Invalid alignment value "${alignmentValue}". Using the default.`);
+  }
+
+  let metric: SimilarityMetric | undefined;
+  const metricValue = fields.metric?.[0];
+  if (metricValue === 'distance' || metricValue === 'angles' || metricValue === 'blend') metric = metricValue;
+  else if (metricValue !== undefined) {
+    console.warn(`RunID ${runId}: Invalid metric value "${metricValue}". Using the default.`);
+  }
+  const angleWeight = parseNumberField(fields, 'angleWeight', 0, 1, runId);
+
+  // Comma-separated list of normalization steps, e.g. "center,scale,rotate"
+  let normalization: NormalizationOptions | undefined;
+  const normalizationValue = fields.normalization?.[0];
+  if (normalizationValue !== undefined) {
+    const normalizationSteps = normalizationValue.split(',').map(step => step.trim()).filter(Boolean);
+    normalization = {
+      center: normalizationSteps.includes('center'),
+      scale: normalizationSteps.includes('scale'),
+      rotate: normalizationSteps.includes('rotate'),
+    };
+  }
+
+  let mirror: MirrorMode | undefined;
+  const mirrorValue = fields.mirror?.[0];
+  if (mirrorValue === 'off' || mirrorValue === 'on' || mirrorValue === 'auto') mirror = mirrorValue;
+  else if (mirrorValue !== undefined) {
+    console.warn(`RunID ${runId}: Invalid mirror value "${mirrorValue}". Using the default.`);
+  }
+
+  // Visibility handling is enabled by sending a cutoff
+  let visibility: VisibilityOptions | undefined;
+  const visibilityCutoff = parseNumberField(fields, 'visibilityCutoff', 0, 1, runId);
+  if (visibilityCutoff !== undefined) {
+    visibility = {
+      cutoff: visibilityCutoff,
+      weighting: fields.visibilityWeighting?.[0] === 'true',
+      minVisibleLandmarks: parseNumberField(fields, 'minVisibleLandmarks', 0, 33, runId),
+    };
+  }
+
+  // "world" compares MediaPipe's metric, hip-centered 3D world landmarks instead of the image-normalized ones
+  let coordinateSpace: CoordinateSpace | undefined;
+  const coordinateSpaceValue = fields.coordinateSpace?.[0];
+  if (coordinateSpaceValue === 'image' || coordinateSpaceValue === 'world') coordinateSpace = coordinateSpaceValue;
+  else if (coordinateSpaceValue !== undefined) {
+    console.warn(`RunID ${runId}: Invalid coordinateSpace value "${coordinateSpaceValue}". Using the default.`);
+  }
+
+  return { alignment, metric, angleWeight, normalization, visibility, mirror, coordinateSpace, kinematics: fields.kinematics?.[0] === 'true' };
+}
+
+// Helper to parse the signal reps are counted from: a joint angle ("repJoint") or a landmark trajectory ("repLandmark", "repAxis")
+function parseRepSignal(fields: FormidableFields, runId: string): RepSignalSource | undefined {
+  const jointValue = fields.repJoint?.[0];
+  if (jointValue !== undefined) {
+    if (JOINT_NAMES.includes(jointValue as JointName)) return { type: 'joint', joint: jointValue as JointName };
+    console.warn(`RunID ${runId}: Invalid repJoint value "${jointValue}". Skipping repetition analysis.`);
+    return undefined;
+  }
+  const landmark = parseNumberField(fields, 'repLandmark', 0, NUM_POSE_LANDMARKS - 1, runId);
+  if (landmark === undefined) return undefined;
+  return { type: 'landmark', landmark: Math.round(landmark), axis: fields.repAxis?.[0] === 'x' ? 'x' : 'y' };
+}
+
+// Helper to parse the range-of-motion request: "rangeOfMotion" enables it, "worldLandmarks" measures
+// angles on MediaPipe world landmarks, and "romNorms" is "default" or a JSON object of normative ranges.
+// Throws if "romNorms" is invalid.
+function parseRangeOfMotionRequest(fields: FormidableFields): RangeOfMotionRequest | undefined {
+  if (fields.rangeOfMotion?.[0] !== 'true') return undefined;
+  const normsValue = fields.romNorms?.[0];
+  let normativeRanges: Partial<Record<JointName, NormativeRange>> | undefined;
+  if (normsValue === 'default') normativeRanges = DEFAULT_NORMATIVE_RANGES;
+  else if (normsValue) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(normsValue);
+    } catch (e) {
+      throw new Error('romNorms must be "default" or a JSON object of normative ranges.');
+    }
+    normativeRanges = parseNormativeRanges(parsed);
+  }
+  return { worldLandmarks: fields.worldLandmarks?.[0] === 'true', normativeRanges };
+}
+
+// Helper to parse the temporal smoothing applied to the landmarks: "smoothing" is the method,
+// "smoothingWindow" the window of the windowed filters. Undefined if absent or "none".
+function parseSmoothingOptions(fields: FormidableFields, runId: string): SmoothingOptions | undefined {
+  const methodValue = fields.smoothing?.[0];
+  if (methodValue === undefined || methodValue === 'none') return undefined;
+  if (!SMOOTHING_METHODS.includes(methodValue as SmoothingMethod)) {
+    console.warn(`RunID ${runId}: Invalid smoothing value "${methodValue}". Skipping smoothing.`);
+    return undefined;
+  }
+  const window = parseNumberField(fields, 'smoothingWindow', 3, 15, runId);
+  return { method: methodValue as SmoothingMethod, window: window !== undefined ? Math.round(window) : undefined };
+}
+
+// Helper to parse the key poses marked on the reference: "keyPoses" is a JSON array of { time, label? },
+// times in seconds. Undefined if absent; throws if invalid.
+function parseKeyPosesField(fields: FormidableFields): KeyPose[] | undefined {
+  const value = fields.keyPoses?.[0];
+  if (!value) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (e) {
+    throw new Error('keyPoses must be a JSON array of key poses.');
+  }
+  return parseKeyPoses(parsed);
+}
+
+// Helper to parse the person to analyze in a video with several people: "auto" or a JSON subject
+// selection (track id, or a point or box on the frame at a time). Undefined if absent; throws if invalid.
+function parseSubjectField(fields: FormidableFields, name: string): SubjectSelection | undefined {
+  const value = fields[name]?.[0];
+  if (!value) return undefined;
+  if (value === 'auto') return { type: 'auto' };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (e) {
+    throw new Error(`${name} must be "auto" or a JSON subject selection.`);
+  }
+  return parseSubjectSelection(parsed);
+}
+
+// Stores a video's poses (and frames, if the cache keeps them) for the next analysis of the same video.
+// A cache that cannot be written to only costs the next analysis time, so it does not fail this one.
+function storeInPoseCache(cache: PoseCache, key: string, people: PoseFrameResult[][], framePaths: string[], runId: string): void {
+  try {
+    cache.set(key, people, framePaths);
+  } catch (cacheError: any) {
+    console.warn(`RunID ${runId}: Could not store poses in the pose cache: ${cacheError.message}`);
+  }
+}
+
+// Keeps the chosen subject's pose in each frame, tracking everyone detected to tell them apart.
+// Without a selection, the single person detected is kept. Throws if no person matches the selection.
+function selectSubjectPoses(
+  framePeople: PoseFrameResult[][],
+  selection: SubjectSelection | undefined,
+  timestamps: number[]
+): { results: PoseFrameResult[]; tracking?: SubjectTracking } {
+  if (!selection) return { results: framePeople.map(people => people[0] ?? {}) };
+  const tracks = trackPeople(framePeople);
+  const subject = selectSubject(tracks, selection, timestamps);
+  return {
+    results: subject.frames.map(result => result ?? {}),
+    tracking: { tracks: tracks.map(summarizeTrack), selection, selectedTrack: subject.id },
+  };
+}
+
+// Frame index -> caption of the key poses shown on that frame, for highlighting them in the annotated videos
+function collectHighlights(entries: { frame?: number; caption: string }[]): Map<number, string> {
+  const highlights = new Map<number, string>();
+  entries.forEach(({ frame, caption }) => {
+    if (frame === undefined) return;
+    highlights.set(frame, highlights.has(frame) ? `${highlights.get(frame)} / ${caption}` : caption);
+  });
+  return highlights;
 }
 
 // Helper to get image dimensions (fallback if needed, primary is ffprobe)
@@ -103,6 +291,7 @@ export default async function handler(
 
   const runId = uuidv4();
   const runTempDir = path.join(BASE_TEMP_DIR, runId);
+  const timer = createStageTimer();
 
   let shortVideoFile: FormidableFile | undefined = undefined;
   let referenceVideoFile: FormidableFile | undefined = undefined;
@@ -110,18 +299,8 @@ export default async function handler(
 
   try {
     // 1. Parse form data (videos and targetFrames)
-    const form = formidable({
-      uploadDir: UPLOAD_DIR,
-      keepExtensions: true,
+    const { fields, files } = await parseUpload(req, {
       filename: () => `${uuidv4()}_upload${path.extname(arguments[2]?.originalFilename || '.tmp')}`, // Use original ext
-      maxFileSize: 200 * 1024 * 1024,
-    });
-    
-    const { fields, files } = await new Promise<FormidableParseResult>((resolve, reject) => {
-      form.parse(req, (err, parsedFields, parsedFiles) => {
-        if (err) return reject(err);
-        resolve({ fields: parsedFields, files: parsedFiles });
-      });
     });
 
     shortVideoFile = files.short_video?.[0];
@@ -132,21 +311,50 @@ export default async function handler(
     }
     uploadedFilePaths.push(shortVideoFile.filepath, referenceVideoFile.filepath);
 
-    let targetFrames: number;
-    const targetFramesValue = fields.targetFrames?.[0];
-    if (typeof targetFramesValue === 'string') targetFrames = parseInt(targetFramesValue, 10);
-    else targetFrames = 30;
-    if (isNaN(targetFrames) || targetFrames < 10 || targetFrames > 60) {
-      targetFrames = 30;
-      console.warn(`RunID ${runId}: Invalid targetFrames value. Defaulting to 30.`);
+    const targetFrames = parseTargetFrames(fields, runId);
+
+    // A scoring profile supplies the base options; form fields override it
+    let scoringProfile: ScoringProfile | undefined;
+    const profileName = fields.profile?.[0];
+    if (profileName) {
+      try {
+        scoringProfile = loadScoringProfile(profileName);
+      } catch (profileError: any) {
+        return res.status(400).json({ success: false, error: profileError.message });
+      }
     }
+    const similarityOptions: SimilarityOptions = scoringProfile ? profileToSimilarityOptions(scoringProfile) : {};
+    const parsedOptions = parseSimilarityOptions(fields, runId);
+    // Only the fields that were sent override the profile
+    const overrides: Partial<SimilarityOptions> = Object.fromEntries(Object.entries(parsedOptions).filter(([, value]) => value !== undefined));
+    Object.assign(similarityOptions, overrides);
+    const repSignal = parseRepSignal(fields, runId);
+    const smoothing = parseSmoothingOptions(fields, runId);
+    let rangeOfMotionRequest: RangeOfMotionRequest | undefined;
+    let keyPoses: KeyPose[] | undefined;
+    let shortSubject: SubjectSelection | undefined;
+    let refSubject: SubjectSelection | undefined;
+    try {
+      rangeOfMotionRequest = parseRangeOfMotionRequest(fields);
+      keyPoses = parseKeyPosesField(fields);
+      shortSubject = parseSubjectField(fields, 'subject');
+      refSubject = parseSubjectField(fields, 'referenceSubject');
+    } catch (fieldError: any) {
+      return res.status(400).json({ success: false, error: fieldError.message });
+    }
+
+    timer.mark('upload');
 
     // 2. Initial Validation & Metadata Extraction
-    const shortVideoMetadata = await getVideoMetadata(shortVideoFile.filepath);
+    // From here on, both videos are processed at once, and per-frame work is spread across the frame workers
+    const [shortVideoMetadata, refVideoMetadata] = await Promise.all([
+      getVideoMetadata(shortVideoFile.filepath),
+      getVideoMetadata(referenceVideoFile.filepath),
+    ]);
     if (shortVideoMetadata.duration > MAX_SHORT_VIDEO_DURATION_S) {
       return res.status(400).json({ success: false, error: `Short video exceeds ${MAX_SHORT_VIDEO_DURATION_S}s. Duration: ${shortVideoMetadata.duration.toFixed(2)}s` });
     }
-    const refVideoMetadata = await getVideoMetadata(referenceVideoFile.filepath);
+    timer.mark('metadata');
 
     // 3. Define Paths & Create Temporary Directories for this run
     const shortFramesDir = path.join(runTempDir, 'short_frames');
@@ -159,55 +367,229 @@ export default async function handler(
 
     const annotatedShortVideoName = `${runId}_short_annotated.mp4`;
     const annotatedRefVideoName = `${runId}_ref_annotated.mp4`;
-    const outputAnnotatedShortVideoPathAbs = path.join(PROCESSED_VIDEOS_DIR_PUBLIC, annotatedShortVideoName);
-    const outputAnnotatedRefVideoPathAbs = path.join(PROCESSED_VIDEOS_DIR_PUBLIC, annotatedRefVideoName);
 
     // 4. Frame Extraction
-    console.log(`RunID ${runId}: Extracting frames for short video...`);
-    const shortFramePaths = await extractFrames(shortVideoFile.filepath, runId + '_short', targetFrames, shortFramesDir);
-    console.log(`RunID ${runId}: Extracting frames for reference video...`);
-    const refFramePaths = await extractFrames(referenceVideoFile.filepath, runId + '_ref', targetFrames, refFramesDir);
+    // A video analyzed before with the same settings reuses its cached poses, and its frames if they were cached too
+    const poseCache = getPoseCache();
+    const backendName = getPoseBackend().name;
+    const [shortCacheKey, refCacheKey] = await Promise.all([
+      poseCache.key(shortVideoFile.filepath, { targetFrames, backend: backendName, multiPerson: !!shortSubject }),
+      poseCache.key(referenceVideoFile.filepath, { targetFrames, backend: backendName, multiPerson: !!refSubject }),
+    ]);
+    const shortCached = poseCache.get(shortCacheKey, shortFramesDir);
+    const refCached = poseCache.get(refCacheKey, refFramesDir);
+    console.log(`RunID ${runId}: ${shortCached?.framePaths ? 'Reusing cached' : 'Extracting'} frames for short video...`);
+    console.log(`RunID ${runId}: ${refCached?.framePaths ? 'Reusing cached' : 'Extracting'} frames for reference video...`);
+    const [shortFramePaths, refFramePaths] = await Promise.all([
+      shortCached?.framePaths ?? extractFrames(shortVideoFile.filepath, runId + '_short', targetFrames, shortFramesDir),
+      refCached?.framePaths ?? extractFrames(referenceVideoFile.filepath, runId + '_ref', targetFrames, refFramesDir),
+    ]);
+    timer.mark('frame_extraction');
 
     // Dimensions for output video (use metadata from original videos)
     const shortVideoDims = { width: shortVideoMetadata.width, height: shortVideoMetadata.height };
     const refVideoDims = { width: refVideoMetadata.width, height: refVideoMetadata.height };
 
     // 5. Pose Estimation
-    console.log(`RunID ${runId}: Estimating poses for short video frames...`);
-    const shortPoses = await estimatePosesForFrames(shortFramePaths);
-    console.log(`RunID ${runId}: Estimating poses for reference video frames...`);
-    const refPoses = await estimatePosesForFrames(refFramePaths);
+    // Image landmarks are drawn on the frames; world landmarks are kept for comparing in 3D and range of motion.
+    // With a chosen subject, everyone is detected and tracked, and only the subject's poses are kept.
+    const shortTimestamps = computeFrameTimestamps(shortVideoMetadata.duration, targetFrames);
+    const refTimestamps = computeFrameTimestamps(refVideoMetadata.duration, targetFrames);
+    const framePool = getFrameWorkerPool();
+    console.log(`RunID ${runId}: ${shortCached ? 'Reusing cached poses' : 'Estimating poses'} for short video frames${shortSubject ? ' (tracking people)' : ''}...`);
+    console.log(`RunID ${runId}: ${refCached ? 'Reusing cached poses' : 'Estimating poses'} for reference video frames${refSubject ? ' (tracking people)' : ''}...`);
+    const [shortPeople, refPeople] = await Promise.all([
+      shortCached?.people ?? estimatePeopleInFrames(shortFramePaths, !!shortSubject, framePool),
+      refCached?.people ?? estimatePeopleInFrames(refFramePaths, !!refSubject, framePool),
+    ]);
+    if (!shortCached) storeInPoseCache(poseCache, shortCacheKey, shortPeople, shortFramePaths, runId);
+    if (!refCached) storeInPoseCache(poseCache, refCacheKey, refPeople, refFramePaths, runId);
+    let shortSubjectPoses: ReturnType<typeof selectSubjectPoses>;
+    let refSubjectPoses: ReturnType<typeof selectSubjectPoses>;
+    try {
+      shortSubjectPoses = selectSubjectPoses(shortPeople, shortSubject, shortTimestamps);
+      refSubjectPoses = selectSubjectPoses(refPeople, refSubject, refTimestamps);
+    } catch (subjectError: any) {
+      return res.status(400).json({ success: false, error: subjectError.message });
+    }
+    const shortResults = shortSubjectPoses.results;
+    const refResults = refSubjectPoses.results;
+    let shortPoses: (NormalizedLandmarkList | undefined)[] = shortResults.map(result => result.landmarks);
+    let refPoses: (NormalizedLandmarkList | undefined)[] = refResults.map(result => result.landmarks);
+    let shortWorldPoses: (LandmarkList | undefined)[] = shortResults.map(result => result.worldLandmarks);
+    let refWorldPoses: (LandmarkList | undefined)[] = refResults.map(result => result.worldLandmarks);
+    timer.mark('pose_estimation');
 
-    // 6. Annotate Frames
-    console.log(`RunID ${runId}: Annotating short video frames...`);
-    for (let i = 0; i < targetFrames; i++) {
-      const annotatedFrameOutPath = path.join(shortAnnotatedFramesDir, `frame_${String(i).padStart(4, '0')}.png`);
-      await drawPoseOnFrame(shortFramePaths[i], shortPoses[i], annotatedFrameOutPath);
+    // Temporal smoothing, before the poses are drawn and compared. The raw poses are kept for debugging.
+    const rawShortPoses = shortPoses;
+    const rawRefPoses = refPoses;
+    let smoothingSummary: ApiSuccessResponse['smoothing'];
+    if (smoothing) {
+      console.log(`RunID ${runId}: Smoothing landmarks (${smoothing.method})...`);
+      shortPoses = smoothPoseSequence(shortPoses, { ...smoothing, timestamps: shortTimestamps });
+      refPoses = smoothPoseSequence(refPoses, { ...smoothing, timestamps: refTimestamps });
+      shortWorldPoses = smoothPoseSequence(shortWorldPoses, { ...smoothing, timestamps: shortTimestamps });
+      refWorldPoses = smoothPoseSequence(refWorldPoses, { ...smoothing, timestamps: refTimestamps });
+      smoothingSummary = {
+        options: smoothing,
+        jitter: {
+          short: { raw: measureJitter(rawShortPoses), smoothed: measureJitter(shortPoses) },
+          reference: { raw: measureJitter(rawRefPoses), smoothed: measureJitter(refPoses) },
+        },
+      };
+      timer.mark('smoothing');
     }
-    console.log(`RunID ${runId}: Annotating reference video frames...`);
-    for (let i = 0; i < targetFrames; i++) {
-      const annotatedFrameOutPath = path.join(refAnnotatedFramesDir, `frame_${String(i).padStart(4, '0')}.png`);
-      await drawPoseOnFrame(refFramePaths[i], refPoses[i], annotatedFrameOutPath);
+
+    // The poses every comparison runs on, in the requested coordinate space
+    const coordinateSpace: CoordinateSpace = similarityOptions.coordinateSpace || 'image';
+    const shortComparedPoses = coordinateSpace === 'world' ? shortWorldPoses : shortPoses;
+    const refComparedPoses = coordinateSpace === 'world' ? refWorldPoses : refPoses;
+
+    // Key poses are matched before annotation, so both annotated videos can highlight them
+    let keyPoseReport: KeyPoseReport | undefined;
+    if (keyPoses) {
+      console.log(`RunID ${runId}: Matching ${keyPoses.length} key pose(s)...`);
+      keyPoseReport = matchKeyPoses(shortComparedPoses, refComparedPoses, keyPoses, {
+        timestamps: shortTimestamps,
+        referenceTimestamps: refTimestamps,
+        similarity: similarityOptions,
+      });
+      timer.mark('key_poses');
     }
+    const shortHighlights = collectHighlights((keyPoseReport?.matches ?? []).map(match => ({
+      frame: match.matchedFrame,
+      caption: `${match.label} ${match.score.toFixed(0)}%`,
+    })));
+    const refHighlights = collectHighlights((keyPoseReport?.matches ?? []).map(match => ({ frame: match.referenceFrame, caption: match.label })));
+
+    // 6. Annotate Frames
+    console.log(`RunID ${runId}: Annotating short and reference video frames${framePool ? ` on ${framePool.size} worker(s)` : ''}...`);
+    await Promise.all([
+      annotateClip(shortFramePaths, shortPoses, shortAnnotatedFramesDir, shortHighlights),
+      annotateClip(refFramePaths, refPoses, refAnnotatedFramesDir, refHighlights),
+    ]);
+    timer.mark('annotation');
 
     // 7. Create Annotated Videos
-    console.log(`RunID ${runId}: Creating annotated short video...`);
-    await createVideoFromFrames(shortAnnotatedFramesDir, 'frame_%04d.png', outputAnnotatedShortVideoPathAbs, shortVideoMetadata.fps, shortVideoDims);
-    console.log(`RunID ${runId}: Creating annotated reference video...`);
-    await createVideoFromFrames(refAnnotatedFramesDir, 'frame_%04d.png', outputAnnotatedRefVideoPathAbs, refVideoMetadata.fps, refVideoDims);
+    // Played back at the sampling rate, so annotated videos last as long as the originals and
+    // timeline timestamps can be used to seek them.
+    console.log(`RunID ${runId}: Creating annotated short and reference videos...`);
+    const [annotatedShortVideoUrl, annotatedRefVideoUrl] = await Promise.all([
+      encodeAnnotatedVideo(shortAnnotatedFramesDir, annotatedShortVideoName, shortVideoMetadata, targetFrames),
+      encodeAnnotatedVideo(refAnnotatedFramesDir, annotatedRefVideoName, refVideoMetadata, targetFrames),
+    ]);
+    timer.mark('video_encoding');
 
     // 8. Similarity Analysis
     console.log(`RunID ${runId}: Calculating similarity...`);
-    const similarityResult = calculateSimilarity(shortPoses, refPoses, targetFrames);
+    const similarityResult = calculateSimilarity(shortComparedPoses, refComparedPoses, targetFrames, {
+      ...similarityOptions,
+      timestamps1: shortTimestamps,
+      timestamps2: refTimestamps,
+    });
+
+    let repetitions: ApiSuccessResponse['repetitions'];
+    if (repSignal) {
+      console.log(`RunID ${runId}: Analyzing repetitions...`);
+      const shortReps = detectRepetitions(shortComparedPoses, { source: repSignal, timestamps: shortTimestamps, coordinateSpace });
+      const refReps = detectRepetitions(refComparedPoses, { source: repSignal, timestamps: refTimestamps, coordinateSpace });
+      if (refReps.repCount > 0) {
+        shortReps.reps = compareRepetitions(shortComparedPoses, shortReps, refComparedPoses, refReps.reps[0], similarityOptions);
+      }
+      repetitions = { short: shortReps, reference: refReps };
+    }
+
+    console.log(`RunID ${runId}: Analyzing tempo...`);
+    const tempo = analyzeTempo({
+      poses1: shortComparedPoses,
+      poses2: refComparedPoses,
+      timestamps1: shortTimestamps,
+      timestamps2: refTimestamps,
+      clipDuration1: shortVideoMetadata.duration,
+      clipDuration2: refVideoMetadata.duration,
+      alignmentPath: similarityResult.alignmentPath,
+      repetitions,
+    });
+
+    let rangeOfMotion: RangeOfMotionReport | undefined;
+    if (rangeOfMotionRequest) {
+      console.log(`RunID ${runId}: Measuring range of motion...`);
+      const useWorld = rangeOfMotionRequest.worldLandmarks;
+      rangeOfMotion = measureRangeOfMotion(useWorld ? shortWorldPoses : shortPoses, {
+        use3D: useWorld,
+        reference: useWorld ? refWorldPoses : refPoses,
+        normativeRanges: rangeOfMotionRequest.normativeRanges,
+      });
+    }
+
+    const feedback = generateFeedback({ poses1: shortComparedPoses, poses2: refComparedPoses, similarity: similarityResult, repetitions, tempo });
+    timer.mark('analysis');
+
+    const subjects = shortSubjectPoses.tracking || refSubjectPoses.tracking
+      ? { short: shortSubjectPoses.tracking, reference: refSubjectPoses.tracking }
+      : undefined;
+    const report = buildAnalysisReport({
+      similarity: similarityResult,
+      settings: {
+        targetFrames,
+        angleWeight: similarityOptions.angleWeight,
+        profile: scoringProfile?.name,
+        visibility: similarityOptions.visibility,
+        kinematics: !!similarityOptions.kinematics,
+        smoothing,
+        repSignal,
+        rangeOfMotion: rangeOfMotionRequest && {
+          worldLandmarks: rangeOfMotionRequest.worldLandmarks,
+          normativeRanges: !!rangeOfMotionRequest.normativeRanges,
+        },
+      },
+      videos: {
+        short: { ...shortVideoDims, duration: shortVideoMetadata.duration, fps: shortVideoMetadata.fps, sampledFrames: targetFrames },
+        reference: { ...refVideoDims, duration: refVideoMetadata.duration, fps: refVideoMetadata.fps, sampledFrames: targetFrames },
+      },
+      timing: timer.finish(),
+      repetitions,
+      tempo,
+      rangeOfMotion,
+      keyPoses: keyPoseReport,
+      subjects,
+    });
 
     // 9. Prepare and Send Success Response
     console.log(`RunID ${runId}: Processing complete.`);
     return res.status(200).json({
       success: true,
-      annotated_short_video_url: `/processed_videos/${annotatedShortVideoName}`,
-      annotated_reference_video_url: `/processed_videos/${annotatedRefVideoName}`,
+      annotated_short_video_url: annotatedShortVideoUrl,
+      annotated_reference_video_url: annotatedRefVideoUrl,
       similarity_score: similarityResult.score,
+      similarity_score_interval: similarityResult.scoreInterval,
       analysis_text: similarityResult.analysisText,
+      coaching_cues: feedback.cues,
+      coaching_text: feedback.text,
+      profile: scoringProfile?.name,
+      alignment: similarityResult.alignment,
+      alignment_path: similarityResult.alignmentPath,
+      worst_segments: similarityResult.worstSegments,
+      metric: similarityResult.metric,
+      normalization: similarityResult.normalization,
+      coordinate_space: similarityResult.coordinateSpace,
+      mirror: similarityResult.mirror,
+      mirrored: similarityResult.mirrored,
+      joint_angle_differences: similarityResult.jointAngleDifferences,
+      breakdown: similarityResult.breakdown,
+      confidence: similarityResult.confidence,
+      kinematics: similarityResult.kinematics,
+      repetitions,
+      tempo,
+      range_of_motion: rangeOfMotion,
+      key_poses: keyPoseReport,
+      subjects,
+      pose_cache: { short: shortCached ? 'hit' : 'miss', reference: refCached ? 'hit' : 'miss' },
+      smoothing: smoothingSummary,
+      poses: fields.includePoses?.[0] === 'true'
+        ? { short: { raw: rawShortPoses, smoothed: shortPoses }, reference: { raw: rawRefPoses, smoothed: refPoses } }
+        : undefined,
+      report,
     });
 
   } catch (error: any) {
@@ -215,20 +597,7 @@ export default async function handler(
     return res.status(500).json({ success: false, error: `Processing failed: ${error.message}`, details: error.stack });
   } finally {
     console.log(`RunID ${runId}: Cleaning up temporary files...`);
-    // Delete original uploads
-    uploadedFilePaths.forEach(filePath => {
-      if (fs.existsSync(filePath)) {
-        fs.unlink(filePath, err => {
-          if (err) console.error(`RunID ${runId}: Error deleting uploaded file ${filePath}:`, err);
-        });
-      }
-    });
-    // Delete the entire temporary directory for this run
-    if (fs.existsSync(runTempDir)) {
-      fs.rm(runTempDir, { recursive: true, force: true }, err => {
-         if (err) console.error(`RunID ${runId}: Error deleting temp run directory ${runTempDir}:`, err);
-      });
-    }
+    cleanupRun(runId, runTempDir, uploadedFilePaths);
     console.log(`RunID ${runId}: Cleanup attempt finished.`);
   }
 }
@@ -0,0 +1,15 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listCheckpointRuleSets } from '../../utils/checkpoint_rules';
+
+// Lists the available checkpoint rule sets, with their rules, for the rule set picker on the analysis page.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+  try {
+    return res.status(200).json({ success: true, rule_sets: listCheckpointRuleSets() });
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: `Could not list checkpoint rule sets: ${error.message}` });
+  }
+}
@@ -0,0 +1,96 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// Import utility functions
+import { ApiErrorResponse, BASE_TEMP_DIR, cleanupRun, estimateClipPoses, parseTargetFrames, parseUpload, renderAnnotatedVideo } from '../../utils/api_upload';
+import { CheckpointReport, CheckpointRuleSet, evaluateCheckpoints, loadCheckpointRuleSet, parseCheckpointRuleSet } from '../../utils/checkpoint_rules';
+
+// Disable Next.js body parser for this route to use formidable
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+interface ApiSuccessResponse {
+  success: true;
+  annotated_video_url: string;
+  passed_count: number;
+  rule_count: number;
+  analysis_text: string;
+  checkpoints: CheckpointReport; // Pass or fail per rule, with the frames involved
+}
+
+/**
+ * Checks a single video against technique rules, without a reference video. Expects a "video" file,
+ * either "rules" (the name of a rule set in checkpoint_rules/) or "rule_set" (a rule set as JSON),
+ * and optionally "targetFrames" (10-60).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiSuccessResponse | ApiErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const runId = uuidv4();
+  const runTempDir = path.join(BASE_TEMP_DIR, runId);
+  const uploadedFilePaths: string[] = [];
+
+  try {
+    // 1. Parse form data
+    const { fields, files } = await parseUpload(req);
+    const videoFile = files.video?.[0];
+    if (!videoFile) {
+      return res.status(400).json({ success: false, error: 'Missing video file. Expected "video".' });
+    }
+    uploadedFilePaths.push(videoFile.filepath);
+
+    const targetFrames = parseTargetFrames(fields, runId);
+
+    let ruleSet: CheckpointRuleSet;
+    try {
+      const ruleSetJson = fields.rule_set?.[0];
+      if (ruleSetJson) {
+        ruleSet = parseCheckpointRuleSet(JSON.parse(ruleSetJson), 'in the request');
+      } else if (fields.rules?.[0]) {
+        ruleSet = loadCheckpointRuleSet(fields.rules[0]);
+      } else {
+        return res.status(400).json({ success: false, error: 'Missing rules. Expected "rules" (a rule set name) or "rule_set" (JSON).' });
+      }
+    } catch (ruleError: any) {
+      return res.status(400).json({ success: false, error: ruleError.message });
+    }
+
+    // 2. Metadata, frame extraction and pose estimation
+    console.log(`RunID ${runId}: Extracting frames and estimating poses...`);
+    const { metadata, framePaths, results, timestamps } = await estimateClipPoses(videoFile.filepath, runId + '_checkpoints', targetFrames, path.join(runTempDir, 'frames'));
+    const poses = results.map(result => result.landmarks);
+
+    // 3. Annotated video
+    console.log(`RunID ${runId}: Annotating frames...`);
+    const annotatedVideoUrl = await renderAnnotatedVideo(framePaths, poses, path.join(runTempDir, 'annotated_frames'), `${runId}_checkpoints_annotated.mp4`, metadata);
+
+    // 4. Rule evaluation
+    console.log(`RunID ${runId}: Checking ${ruleSet.rules.length} rule(s) of "${ruleSet.name}"...`);
+    const checkpoints = evaluateCheckpoints(poses, ruleSet, timestamps);
+
+    console.log(`RunID ${runId}: Processing complete.`);
+    return res.status(200).json({
+      success: true,
+      annotated_video_url: annotatedVideoUrl,
+      passed_count: checkpoints.passedCount,
+      rule_count: checkpoints.results.length,
+      analysis_text: checkpoints.text,
+      checkpoints,
+    });
+  } catch (error: any) {
+    console.error(`RunID ${runId}: API Processing Error -`, error);
+    return res.status(500).json({ success: false, error: `Processing failed: ${error.message}`, details: error.stack });
+  } finally {
+    cleanupRun(runId, runTempDir, uploadedFilePaths);
+  }
+}
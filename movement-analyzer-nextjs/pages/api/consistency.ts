@@ -0,0 +1,119 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NormalizedLandmarkList } from '../../utils/pose_backend';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// Import utility functions
+import { ApiErrorResponse, BASE_TEMP_DIR, ClipPoses, cleanupRun, estimateClipPoses, parseTargetFrames, parseUpload } from '../../utils/api_upload';
+import { AlignmentMode, SimilarityMetric, SimilarityOptions } from '../../utils/analysis';
+import { loadScoringProfile, profileToSimilarityOptions } from '../../utils/scoring_profiles';
+import { analyzeConsistency, ConsistencyAnalysis } from '../../utils/consistency_analysis';
+import { CoordinateSpace } from '../../utils/pose_normalization';
+
+// Disable Next.js body parser for this route to use formidable
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const MAX_ATTEMPTS = 10;
+
+interface ApiSuccessResponse {
+  success: true;
+  consistency_score: number; // Mean pairwise similarity of the attempts, 0-100
+  analysis_text: string;
+  consistency: ConsistencyAnalysis; // Similarity matrix, most and least representative attempt, and where the attempts vary
+}
+
+// The poses of a clip in the given coordinate space
+const clipPoses = (clip: ClipPoses, coordinateSpace: CoordinateSpace): (NormalizedLandmarkList | undefined)[] =>
+  clip.results.map(result => (coordinateSpace === 'world' ? result.worldLandmarks : result.landmarks));
+
+/**
+ * Scores how consistent several attempts of the same movement are. Expects 2-10 "attempts" files
+ * and optionally a "reference_video", "targetFrames" (10-60), "alignment" ("index" or "dtw"),
+ * "metric", "profile" (a scoring profile name) and "coordinateSpace" ("image" or "world").
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiSuccessResponse | ApiErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const runId = uuidv4();
+  const runTempDir = path.join(BASE_TEMP_DIR, runId);
+  const uploadedFilePaths: string[] = [];
+
+  try {
+    // 1. Parse form data
+    const { fields, files } = await parseUpload(req, { maxFiles: MAX_ATTEMPTS + 1 });
+
+    const attemptFiles = files.attempts ?? [];
+    const referenceFile = files.reference_video?.[0];
+    uploadedFilePaths.push(...[...attemptFiles, ...(referenceFile ? [referenceFile] : [])].map(file => file.filepath));
+    if (attemptFiles.length < 2 || attemptFiles.length > MAX_ATTEMPTS) {
+      return res.status(400).json({ success: false, error: `Expected 2-${MAX_ATTEMPTS} "attempts" video files, got ${attemptFiles.length}.` });
+    }
+
+    const targetFrames = parseTargetFrames(fields, runId);
+
+    // A scoring profile supplies the base options; the alignment and metric fields override it
+    let similarityOptions: SimilarityOptions = {};
+    const profileName = fields.profile?.[0];
+    if (profileName) {
+      try {
+        similarityOptions = profileToSimilarityOptions(loadScoringProfile(profileName));
+      } catch (profileError: any) {
+        return res.status(400).json({ success: false, error: profileError.message });
+      }
+    }
+    const alignmentValue = fields.alignment?.[0];
+    if (alignmentValue === 'index' || alignmentValue === 'dtw') similarityOptions.alignment = alignmentValue as AlignmentMode;
+    const metricValue = fields.metric?.[0];
+    if (metricValue === 'distance' || metricValue === 'angles' || metricValue === 'blend') similarityOptions.metric = metricValue as SimilarityMetric;
+    const coordinateSpaceValue = fields.coordinateSpace?.[0];
+    if (coordinateSpaceValue === 'image' || coordinateSpaceValue === 'world') similarityOptions.coordinateSpace = coordinateSpaceValue;
+    const coordinateSpace = similarityOptions.coordinateSpace || 'image';
+
+    // 2. Frame extraction and pose estimation, one clip at a time
+    const attempts: (NormalizedLandmarkList | undefined)[][] = [];
+    const timestamps: number[][] = [];
+    for (let i = 0; i < attemptFiles.length; i++) {
+      console.log(`RunID ${runId}: Estimating poses for attempt ${i + 1} of ${attemptFiles.length}...`);
+      const clip = await estimateClipPoses(attemptFiles[i].filepath, `${runId}_attempt${i}`, targetFrames, path.join(runTempDir, `attempt_${i}_frames`));
+      attempts.push(clipPoses(clip, coordinateSpace));
+      timestamps.push(clip.timestamps);
+    }
+    let reference: ClipPoses | undefined;
+    if (referenceFile) {
+      console.log(`RunID ${runId}: Estimating poses for the reference video...`);
+      reference = await estimateClipPoses(referenceFile.filepath, `${runId}_ref`, targetFrames, path.join(runTempDir, 'ref_frames'));
+    }
+
+    // 3. Pairwise comparison
+    console.log(`RunID ${runId}: Comparing ${attempts.length} attempts pairwise...`);
+    const consistency = analyzeConsistency(attempts, {
+      similarity: similarityOptions,
+      timestamps,
+      reference: reference && clipPoses(reference, coordinateSpace),
+      referenceTimestamps: reference?.timestamps,
+    });
+
+    console.log(`RunID ${runId}: Processing complete.`);
+    return res.status(200).json({
+      success: true,
+      consistency_score: consistency.consistencyScore,
+      analysis_text: consistency.text,
+      consistency,
+    });
+  } catch (error: any) {
+    console.error(`RunID ${runId}: API Processing Error -`, error);
+    return res.status(500).json({ success: false, error: `Processing failed: ${error.message}`, details: error.stack });
+  } finally {
+    cleanupRun(runId, runTempDir, uploadedFilePaths);
+  }
+}
@@ -0,0 +1,22 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPoseCache } from '../../utils/pose_cache';
+
+// Reports the size of the pose cache (GET) or empties it (DELETE).
+// Entries are otherwise only evicted when the cache grows past POSE_CACHE_MAX_MB.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    res.setHeader('Allow', ['GET', 'DELETE']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+  const cache = getPoseCache();
+  try {
+    if (req.method === 'DELETE') {
+      const removed = cache.clear();
+      return res.status(200).json({ success: true, removed });
+    }
+    const { entries, bytes, maxBytes } = cache.stats();
+    return res.status(200).json({ success: true, entries, bytes, max_bytes: maxBytes });
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: `Could not access the pose cache: ${error.message}` });
+  }
+}
@@ -0,0 +1,17 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listScoringProfiles } from '../../utils/scoring_profiles';
+
+// Lists the available scoring profiles, for the profile picker on the analysis page.
+// Profiles are read from disk on every request, so new profile files show up without a restart.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+  try {
+    const profiles = listScoringProfiles().map(({ name, description, metric }) => ({ name, description, metric }));
+    return res.status(200).json({ success: true, profiles });
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: `Could not list scoring profiles: ${error.message}` });
+  }
+}
@@ -0,0 +1,93 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// Import utility functions
+import { ApiErrorResponse, BASE_TEMP_DIR, cleanupRun, estimateClipPoses, parseTargetFrames, parseUpload, renderAnnotatedVideo } from '../../utils/api_upload';
+import { analyzeSymmetry, SymmetryAnalysis } from '../../utils/symmetry_analysis';
+import { CoordinateSpace } from '../../utils/pose_normalization';
+
+// Disable Next.js body parser for this route to use formidable
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+interface ApiSuccessResponse {
+  success: true;
+  annotated_video_url: string;
+  asymmetry_index: number; // Mean left/right symmetry index over the bilateral joints, in percent
+  analysis_text: string;
+  symmetry: SymmetryAnalysis; // Per-joint symmetry indices and landmark pair offsets per frame
+}
+
+/**
+ * Analyzes a single video for left/right asymmetry. Expects a "video" file and optionally
+ * "targetFrames" (10-60), "threshold" (the symmetry index in percent at which joints are flagged)
+ * and "coordinateSpace" ("image" or "world", to compare the sides on 3D world landmarks).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiSuccessResponse | ApiErrorResponse>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const runId = uuidv4();
+  const runTempDir = path.join(BASE_TEMP_DIR, runId);
+  const uploadedFilePaths: string[] = [];
+
+  try {
+    // 1. Parse form data
+    const { fields, files } = await parseUpload(req);
+    const videoFile = files.video?.[0];
+    if (!videoFile) {
+      return res.status(400).json({ success: false, error: 'Missing video file. Expected "video".' });
+    }
+    uploadedFilePaths.push(videoFile.filepath);
+
+    const targetFrames = parseTargetFrames(fields, runId);
+    let threshold: number | undefined = parseFloat(fields.threshold?.[0] ?? '');
+    if (isNaN(threshold) || threshold <= 0) threshold = undefined;
+    let coordinateSpace: CoordinateSpace = 'image';
+    const coordinateSpaceValue = fields.coordinateSpace?.[0];
+    if (coordinateSpaceValue === 'image' || coordinateSpaceValue === 'world') coordinateSpace = coordinateSpaceValue;
+    else if (coordinateSpaceValue !== undefined) {
+      console.warn(`RunID ${runId}: Invalid coordinateSpace value "${coordinateSpaceValue}". Using the default.`);
+    }
+
+    // 2. Metadata, frame extraction and pose estimation
+    console.log(`RunID ${runId}: Extracting frames and estimating poses...`);
+    const { metadata, framePaths, results, timestamps } = await estimateClipPoses(videoFile.filepath, runId + '_symmetry', targetFrames, path.join(runTempDir, 'frames'));
+    const poses = results.map(result => result.landmarks);
+
+    // 3. Annotated video
+    console.log(`RunID ${runId}: Annotating frames...`);
+    const annotatedVideoUrl = await renderAnnotatedVideo(framePaths, poses, path.join(runTempDir, 'annotated_frames'), `${runId}_symmetry_annotated.mp4`, metadata);
+
+    // 4. Symmetry analysis
+    console.log(`RunID ${runId}: Analyzing symmetry...`);
+    const symmetry = analyzeSymmetry(coordinateSpace === 'world' ? results.map(result => result.worldLandmarks) : poses, {
+      threshold,
+      coordinateSpace,
+      timestamps,
+    });
+
+    console.log(`RunID ${runId}: Processing complete.`);
+    return res.status(200).json({
+      success: true,
+      annotated_video_url: annotatedVideoUrl,
+      asymmetry_index: symmetry.asymmetryIndex,
+      analysis_text: symmetry.text,
+      symmetry,
+    });
+  } catch (error: any) {
+    console.error(`RunID ${runId}: API Processing Error -`, error);
+    return res.status(500).json({ success: false, error: `Processing failed: ${error.message}`, details: error.stack });
+  } finally {
+    cleanupRun(runId, runTempDir, uploadedFilePaths);
+  }
+}
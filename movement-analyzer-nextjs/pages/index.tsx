@@ -1,18 +1,67 @@
-import React, { useState, ChangeEvent } from 'react';
+import React, { useState, useRef, useEffect, ChangeEvent } from 'react';
 import Head from 'next/head';
 import FileInput from '../components/FileInput';
 import Button from '../components/Button';
 import VideoDisplay from '../components/VideoDisplay';
 import ResultsDisplay from '../components/ResultsDisplay';
+import TimelineChart from '../components/TimelineChart';
+import CoachingChecklist from '../components/CoachingChecklist';
+import SymmetryDisplay from '../components/SymmetryDisplay';
+import CheckpointResults from '../components/CheckpointResults';
+import ConsistencyDisplay from '../components/ConsistencyDisplay';
+import KeyPoseResults from '../components/KeyPoseResults';
+import SubjectPicker from '../components/SubjectPicker';
+import type { AlignmentMode, AlignmentStep, ConfidenceReport, DissimilaritySegment, MirrorMode, ScoreBreakdown, SimilarityMetric } from '../utils/analysis';
+import { formatJointName, JOINT_NAMES } from '../utils/joint_angles';
+import type { JointAngles } from '../utils/joint_angles';
+import type { KinematicComparison } from '../utils/kinematics';
+import type { TempoAnalysis } from '../utils/tempo_analysis';
+import type { CoachingCue } from '../utils/coaching_feedback';
+import type { RepetitionAnalysis } from '../utils/repetition_analysis';
+import type { CoordinateSpace, NormalizationOptions } from '../utils/pose_normalization';
+import type { ScoringProfile } from '../utils/scoring_profiles';
+import type { SymmetryAnalysis } from '../utils/symmetry_analysis';
+import type { CheckpointReport, CheckpointRuleSet } from '../utils/checkpoint_rules';
+import type { SmoothingMethod } from '../utils/landmark_smoothing';
+import type { ConsistencyAnalysis } from '../utils/consistency_analysis';
+import type { KeyPose, KeyPoseReport } from '../utils/key_pose_matching';
+import type { SubjectSelection, SubjectTracking } from '../utils/person_tracking';
+import type { RangeOfMotionReport } from '../utils/range_of_motion';
+import type { ScoreInterval } from '../utils/score_interval';
 import '../styles/globals.css'; // Import global styles
 
 const MAX_SHORT_VIDEO_SIZE_MB = 50; // 50MB as an example
 const MAX_REFERENCE_VIDEO_SIZE_MB = 200; // 200MB as an example
 
+// 'symmetry' and 'checkpoints' analyze the short video alone; 'consistency' compares several attempts
+type AnalysisMode = 'compare' | 'symmetry' | 'checkpoints' | 'consistency';
+
+const MAX_ATTEMPTS = 10;
+const MAX_KEY_POSES = 10;
+
 const HomePage: React.FC = () => {
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('compare');
   const [shortVideoFile, setShortVideoFile] = useState<File | null>(null);
   const [referenceVideoFile, setReferenceVideoFile] = useState<File | null>(null);
+  const [attemptFiles, setAttemptFiles] = useState<File[]>([]);
   const [targetFrames, setTargetFrames] = useState<number>(30); // Added state for targetFrames
+  const [alignment, setAlignment] = useState<AlignmentMode>('index');
+  const [metric, setMetric] = useState<SimilarityMetric>('distance');
+  const [profiles, setProfiles] = useState<Pick<ScoringProfile, 'name' | 'description' | 'metric'>[]>([]);
+  const [profile, setProfile] = useState<string>(''); // '' = no scoring profile, use the settings below
+  const [ruleSets, setRuleSets] = useState<CheckpointRuleSet[]>([]);
+  const [ruleSet, setRuleSet] = useState<string>('');
+  const [normalization, setNormalization] = useState<NormalizationOptions>({ center: false, scale: false, rotate: false });
+  const [mirror, setMirror] = useState<MirrorMode>('off');
+  const [coordinateSpace, setCoordinateSpace] = useState<CoordinateSpace>('image');
+  const [repSignal, setRepSignal] = useState<string>(''); // '' = no rep counting, a joint name, or 'hip_height'
+  const [compareKinematics, setCompareKinematics] = useState<boolean>(false);
+  const [smoothing, setSmoothing] = useState<SmoothingMethod>('none');
+  const [measureRom, setMeasureRom] = useState<boolean>(false);
+  const [romWorldLandmarks, setRomWorldLandmarks] = useState<boolean>(false);
+  const [romNormative, setRomNormative] = useState<boolean>(false); // Compare with the default normative ranges too
+  const [useVisibility, setUseVisibility] = useState<boolean>(false);
+  const [visibilityCutoff, setVisibilityCutoff] = useState<number>(0.5);
   
   // URLs for local preview before analysis
   const [shortVideoPreviewUrl, setShortVideoPreviewUrl] = useState<string | null>(null);
@@ -23,34 +72,288 @@ const HomePage: React.FC = () => {
   const [annotatedReferenceVideoUrl, setAnnotatedReferenceVideoUrl] = useState<string | null>(null);
   
   const [similarityScore, setSimilarityScore] = useState<number | null>(null);
+  const [scoreInterval, setScoreInterval] = useState<ScoreInterval | null>(null);
   const [analysisText, setAnalysisText] = useState<string | null>(null);
+  const [alignmentPath, setAlignmentPath] = useState<AlignmentStep[] | null>(null);
+  const [jointAngleDifferences, setJointAngleDifferences] = useState<JointAngles | null>(null);
+  const [breakdown, setBreakdown] = useState<ScoreBreakdown | null>(null);
+  const [confidence, setConfidence] = useState<ConfidenceReport | null>(null);
+  const [worstSegments, setWorstSegments] = useState<DissimilaritySegment[] | null>(null);
+  const [coachingCues, setCoachingCues] = useState<CoachingCue[] | null>(null);
+  const [kinematics, setKinematics] = useState<KinematicComparison | null>(null);
+  const [repetitions, setRepetitions] = useState<{ short: RepetitionAnalysis; reference: RepetitionAnalysis } | null>(null);
+  const [tempo, setTempo] = useState<TempoAnalysis | null>(null);
+  const [symmetry, setSymmetry] = useState<SymmetryAnalysis | null>(null);
+  const [checkpoints, setCheckpoints] = useState<CheckpointReport | null>(null);
+  const [consistency, setConsistency] = useState<ConsistencyAnalysis | null>(null);
+  const [rangeOfMotion, setRangeOfMotion] = useState<RangeOfMotionReport | null>(null);
+  const [keyPoses, setKeyPoses] = useState<KeyPose[]>([]); // Marked on the reference preview
+  const [keyPoseLabel, setKeyPoseLabel] = useState<string>('');
+  const [keyPoseReport, setKeyPoseReport] = useState<KeyPoseReport | null>(null);
+  const [shortSubject, setShortSubject] = useState<SubjectSelection | null>(null); // Chosen on the previews; null = the one person found
+  const [referenceSubject, setReferenceSubject] = useState<SubjectSelection | null>(null);
+  const [subjects, setSubjects] = useState<{ short?: SubjectTracking; reference?: SubjectTracking } | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Load the available scoring profiles once
+  useEffect(() => {
+    fetch('/api/scoring-profiles')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success && Array.isArray(result.profiles)) setProfiles(result.profiles);
+      })
+      .catch(() => { /* Profiles are optional; the picker just stays empty */ });
+    fetch('/api/checkpoint-rules')
+      .then(response => response.json())
+      .then(result => {
+        if (result.success && Array.isArray(result.rule_sets) && result.rule_sets.length > 0) {
+          setRuleSets(result.rule_sets);
+          setRuleSet(result.rule_sets[0].name);
+        }
+      })
+      .catch(() => { /* Without rule sets, checkpoint analysis just cannot be started */ });
+  }, []);
+
+  // Refs to the annotated videos, used to seek them from the timeline chart
+  const annotatedShortVideoRef = useRef<HTMLVideoElement>(null);
+  const annotatedReferenceVideoRef = useRef<HTMLVideoElement>(null);
+  // Ref to the reference preview, whose current time marks key poses
+  const referencePreviewRef = useRef<HTMLVideoElement>(null);
+
+  // Seeks the annotated short video only, as cues refer to the user's own video
+  const handleCueSeek = (time: number) => {
+    if (annotatedShortVideoRef.current) annotatedShortVideoRef.current.currentTime = time;
+  };
+
+  const handleKeyPoseSeek = (time: number, referenceTime: number) => {
+    if (annotatedShortVideoRef.current) annotatedShortVideoRef.current.currentTime = time;
+    if (annotatedReferenceVideoRef.current) annotatedReferenceVideoRef.current.currentTime = referenceTime;
+  };
+
+  // Marks the pose at the reference preview's current time, kept in time order
+  const handleMarkKeyPose = () => {
+    if (!referencePreviewRef.current) return;
+    const time = parseFloat(referencePreviewRef.current.currentTime.toFixed(2));
+    const label = keyPoseLabel.trim() || undefined;
+    setKeyPoses(current => [...current.filter(keyPose => keyPose.time !== time), { time, label }].sort((a, b) => a.time - b.time));
+    setKeyPoseLabel('');
+  };
+
+  const handleTimelineSeek = (step: AlignmentStep) => {
+    if (annotatedShortVideoRef.current && step.time1 !== undefined) {
+      annotatedShortVideoRef.current.currentTime = step.time1;
+    }
+    if (annotatedReferenceVideoRef.current && step.time2 !== undefined) {
+      annotatedReferenceVideoRef.current.currentTime = step.time2;
+    }
+  };
+
   const handleShortVideoChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setShortVideoFile(file);
       setShortVideoPreviewUrl(URL.createObjectURL(file));
+      setShortSubject(null); // Chosen on the previous video
       setAnnotatedShortVideoUrl(null);
       setSimilarityScore(null);
+      setScoreInterval(null);
       setAnalysisText(null);
+      setAlignmentPath(null);
+      setJointAngleDifferences(null);
+      setBreakdown(null);
+      setConfidence(null);
+      setWorstSegments(null);
+      setRepetitions(null);
+      setKinematics(null);
+      setTempo(null);
+      setRangeOfMotion(null);
+      setKeyPoseReport(null);
+      setSubjects(null);
+      setSymmetry(null);
+      setCheckpoints(null);
+      setConsistency(null);
+      setCoachingCues(null);
       setError(null); // Clear previous errors
     }
   };
 
+  const handleAttemptsChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setAttemptFiles(Array.from(event.target.files ?? []));
+    resetResults();
+  };
+
   const handleReferenceVideoChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setReferenceVideoFile(file);
       setReferenceVideoPreviewUrl(URL.createObjectURL(file));
+      setKeyPoses([]); // Marked on the previous reference
+      setReferenceSubject(null);
       setAnnotatedReferenceVideoUrl(null);
       setSimilarityScore(null);
+      setScoreInterval(null);
       setAnalysisText(null);
+      setAlignmentPath(null);
+      setJointAngleDifferences(null);
+      setBreakdown(null);
+      setConfidence(null);
+      setWorstSegments(null);
+      setRepetitions(null);
+      setKinematics(null);
+      setTempo(null);
+      setRangeOfMotion(null);
+      setKeyPoseReport(null);
+      setSubjects(null);
+      setSymmetry(null);
+      setCheckpoints(null);
+      setConsistency(null);
+      setCoachingCues(null);
       setError(null); // Clear previous errors
     }
   };
 
+  // Clears the results of either analysis mode, e.g. when switching modes
+  const resetResults = () => {
+    setAnnotatedShortVideoUrl(null);
+    setAnnotatedReferenceVideoUrl(null);
+    setSimilarityScore(null);
+    setScoreInterval(null);
+    setAnalysisText(null);
+    setAlignmentPath(null);
+    setJointAngleDifferences(null);
+    setBreakdown(null);
+    setConfidence(null);
+    setWorstSegments(null);
+    setRepetitions(null);
+    setKinematics(null);
+    setTempo(null);
+    setRangeOfMotion(null);
+    setKeyPoseReport(null);
+    setSubjects(null);
+    setSymmetry(null);
+    setCheckpoints(null);
+    setConsistency(null);
+    setCoachingCues(null);
+    setError(null);
+  };
+
+  const handleSymmetryClick = async () => {
+    if (!shortVideoFile) {
+      setError('Please select a video file.');
+      return;
+    }
+    if (shortVideoFile.size > MAX_REFERENCE_VIDEO_SIZE_MB * 1024 * 1024) {
+      setError(`Video size exceeds ${MAX_REFERENCE_VIDEO_SIZE_MB}MB.`);
+      return;
+    }
+
+    setIsLoading(true);
+    resetResults();
+
+    const formData = new FormData();
+    formData.append('video', shortVideoFile);
+    formData.append('targetFrames', String(targetFrames));
+
+    try {
+      const response = await fetch('/api/symmetry', {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json().catch(() => ({ success: false, error: `HTTP error: ${response.status}` }));
+      if (response.ok && result.success) {
+        setAnnotatedShortVideoUrl(result.annotated_video_url || null);
+        setSymmetry(result.symmetry || null);
+      } else {
+        setError(result.error || 'Symmetry analysis failed. Please check the video format and try again.');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An unexpected error occurred during analysis.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCheckpointsClick = async () => {
+    if (!shortVideoFile) {
+      setError('Please select a video file.');
+      return;
+    }
+    if (!ruleSet) {
+      setError('Please select a checkpoint rule set.');
+      return;
+    }
+    if (shortVideoFile.size > MAX_REFERENCE_VIDEO_SIZE_MB * 1024 * 1024) {
+      setError(`Video size exceeds ${MAX_REFERENCE_VIDEO_SIZE_MB}MB.`);
+      return;
+    }
+
+    setIsLoading(true);
+    resetResults();
+
+    const formData = new FormData();
+    formData.append('video', shortVideoFile);
+    formData.append('targetFrames', String(targetFrames));
+    formData.append('rules', ruleSet);
+
+    try {
+      const response = await fetch('/api/checkpoints', {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json().catch(() => ({ success: false, error: `HTTP error: ${response.status}` }));
+      if (response.ok && result.success) {
+        setAnnotatedShortVideoUrl(result.annotated_video_url || null);
+        setCheckpoints(result.checkpoints || null);
+      } else {
+        setError(result.error || 'Checkpoint analysis failed. Please check the video format and try again.');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An unexpected error occurred during analysis.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConsistencyClick = async () => {
+    if (attemptFiles.length < 2 || attemptFiles.length > MAX_ATTEMPTS) {
+      setError(`Please select 2-${MAX_ATTEMPTS} attempt videos.`);
+      return;
+    }
+    if (attemptFiles.some(file => file.size > MAX_SHORT_VIDEO_SIZE_MB * 1024 * 1024)) {
+      setError(`Attempt video size exceeds ${MAX_SHORT_VIDEO_SIZE_MB}MB.`);
+      return;
+    }
+
+    setIsLoading(true);
+    resetResults();
+
+    const formData = new FormData();
+    attemptFiles.forEach(file => formData.append('attempts', file));
+    if (referenceVideoFile) formData.append('reference_video', referenceVideoFile);
+    formData.append('targetFrames', String(targetFrames));
+    formData.append('alignment', alignment);
+    if (profile) formData.append('profile', profile);
+    else formData.append('metric', metric);
+
+    try {
+      const response = await fetch('/api/consistency', {
+        method: 'POST',
+        body: formData,
+      });
+      const result = await response.json().catch(() => ({ success: false, error: `HTTP error: ${response.status}` }));
+      if (response.ok && result.success) {
+        setConsistency(result.consistency || null);
+      } else {
+        setError(result.error || 'Consistency analysis failed. Please check the video formats and try again.');
+      }
+    } catch (err: any) {
+      setError(err.message || 'An unexpected error occurred during analysis.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleAnalyzeClick = async () => {
     if (!shortVideoFile || !referenceVideoFile) {
       setError('Please select both video files.');
@@ -69,7 +372,23 @@ const HomePage: React.FC = () => {
     setIsLoading(true);
     setError(null);
     setSimilarityScore(null);
+    setScoreInterval(null);
     setAnalysisText(null);
+    setAlignmentPath(null);
+    setJointAngleDifferences(null);
+    setBreakdown(null);
+    setConfidence(null);
+    setWorstSegments(null);
+    setRepetitions(null);
+    setKinematics(null);
+    setTempo(null);
+    setRangeOfMotion(null);
+    setKeyPoseReport(null);
+    setSubjects(null);
+    setSymmetry(null);
+    setCheckpoints(null);
+    setConsistency(null);
+    setCoachingCues(null);
     setAnnotatedShortVideoUrl(null);
     setAnnotatedReferenceVideoUrl(null);
 
@@ -77,6 +396,36 @@ const HomePage: React.FC = () => {
     formData.append('short_video', shortVideoFile);
     formData.append('reference_video', referenceVideoFile);
     formData.append('targetFrames', String(targetFrames)); // Added targetFrames to FormData
+    formData.append('alignment', alignment);
+    // A scoring profile brings its own metric and normalization
+    if (profile) {
+      formData.append('profile', profile);
+    } else {
+      formData.append('metric', metric);
+      formData.append('normalization', (Object.keys(normalization) as (keyof NormalizationOptions)[]).filter(step => normalization[step]).join(','));
+    }
+    formData.append('mirror', mirror);
+    formData.append('coordinateSpace', coordinateSpace);
+    if (compareKinematics) formData.append('kinematics', 'true');
+    if (smoothing !== 'none') formData.append('smoothing', smoothing);
+    if (keyPoses.length > 0) formData.append('keyPoses', JSON.stringify(keyPoses));
+    if (shortSubject) formData.append('subject', JSON.stringify(shortSubject));
+    if (referenceSubject) formData.append('referenceSubject', JSON.stringify(referenceSubject));
+    if (measureRom) {
+      formData.append('rangeOfMotion', 'true');
+      if (romWorldLandmarks) formData.append('worldLandmarks', 'true');
+      if (romNormative) formData.append('romNorms', 'default');
+    }
+    if (repSignal === 'hip_height') {
+      formData.append('repLandmark', '23'); // Left hip
+      formData.append('repAxis', 'y');
+    } else if (repSignal) {
+      formData.append('repJoint', repSignal);
+    }
+    if (useVisibility) {
+      formData.append('visibilityCutoff', String(visibilityCutoff));
+      formData.append('visibilityWeighting', 'true');
+    }
 
     try {
       const response = await fetch('/api/analyze', {
@@ -90,7 +439,20 @@ const HomePage: React.FC = () => {
           setAnnotatedShortVideoUrl(result.annotated_short_video_url || null);
           setAnnotatedReferenceVideoUrl(result.annotated_reference_video_url || null);
           setSimilarityScore(typeof result.similarity_score === 'number' ? result.similarity_score : null);
+          setScoreInterval(result.similarity_score_interval || null);
           setAnalysisText(result.analysis_text || null);
+          setAlignmentPath(Array.isArray(result.alignment_path) ? result.alignment_path : null);
+          setJointAngleDifferences(result.joint_angle_differences || null);
+          setBreakdown(result.breakdown || null);
+          setConfidence(result.confidence || null);
+          setWorstSegments(Array.isArray(result.worst_segments) ? result.worst_segments : null);
+          setRepetitions(result.repetitions || null);
+          setKinematics(result.kinematics || null);
+          setTempo(result.tempo || null);
+          setRangeOfMotion(result.range_of_motion || null);
+          setKeyPoseReport(result.key_poses || null);
+          setSubjects(result.subjects || null);
+          setCoachingCues(Array.isArray(result.coaching_cues) ? result.coaching_cues : null);
           setError(null);
         } else {
           setError(result.error || 'Analysis failed. Please check video formats and try again.');
@@ -122,25 +484,102 @@ const HomePage: React.FC = () => {
         <h1>Movement Analyzer</h1>
 
         <div className="container">
+          <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+            <label htmlFor="analysisModeSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+              Analysis Mode:
+            </label>
+            <select
+              id="analysisModeSelect"
+              value={analysisMode}
+              onChange={(e) => {
+                setAnalysisMode(e.target.value as AnalysisMode);
+                resetResults();
+              }}
+              style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+            >
+              <option value="compare">Compare with a reference video</option>
+              <option value="symmetry">Left/right symmetry of a single video</option>
+              <option value="checkpoints">Technique checkpoints of a single video</option>
+              <option value="consistency">Consistency across several attempts</option>
+            </select>
+          </div>
+
           <div className="video-inputs">
-            <div>
-              <FileInput
-                label="Upload Short Video (Max 15 secs):"
-                id="shortVideo"
-                accept="video/*"
-                onChange={handleShortVideoChange}
-              />
-              {shortVideoPreviewUrl && !annotatedShortVideoUrl && <VideoDisplay src={shortVideoPreviewUrl} title="Your Short Video (Preview)" />}
-            </div>
-            <div>
-              <FileInput
-                label="Upload Reference Video (Max 60 secs):"
-                id="referenceVideo"
-                accept="video/*"
-                onChange={handleReferenceVideoChange}
-              />
-              {referenceVideoPreviewUrl && !annotatedReferenceVideoUrl && <VideoDisplay src={referenceVideoPreviewUrl} title="Reference Video (Preview)" />}
-            </div>
+            {analysisMode === 'consistency' ? (
+              <div>
+                <FileInput
+                  label={`Upload Attempts (2-${MAX_ATTEMPTS} videos):`}
+                  id="attemptVideos"
+                  accept="video/*"
+                  multiple
+                  onChange={handleAttemptsChange}
+                />
+                {attemptFiles.length > 0 && (
+                  <p style={{ margin: '5px 0 0', fontSize: '12px', color: '#666' }}>
+                    {attemptFiles.map((file, i) => `#${i + 1} ${file.name}`).join(', ')}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div>
+                <FileInput
+                  label={analysisMode === 'compare' ? 'Upload Short Video (Max 15 secs):' : 'Upload Video:'}
+                  id="shortVideo"
+                  accept="video/*"
+                  onChange={handleShortVideoChange}
+                />
+                {shortVideoPreviewUrl && !annotatedShortVideoUrl && (analysisMode === 'compare'
+                  ? <SubjectPicker src={shortVideoPreviewUrl} title="Your Short Video (Preview)" selection={shortSubject} onSelect={setShortSubject} />
+                  : <VideoDisplay src={shortVideoPreviewUrl} title="Your Short Video (Preview)" />)}
+              </div>
+            )}
+            {(analysisMode === 'compare' || analysisMode === 'consistency') && (
+              <div>
+                <FileInput
+                  label={analysisMode === 'consistency' ? 'Upload Reference Video (optional):' : 'Upload Reference Video (Max 60 secs):'}
+                  id="referenceVideo"
+                  accept="video/*"
+                  onChange={handleReferenceVideoChange}
+                />
+                {referenceVideoPreviewUrl && !annotatedReferenceVideoUrl && (analysisMode === 'compare'
+                  ? (
+                    <SubjectPicker
+                      src={referenceVideoPreviewUrl}
+                      title="Reference Video (Preview)"
+                      selection={referenceSubject}
+                      onSelect={setReferenceSubject}
+                      ref={referencePreviewRef}
+                    />
+                  )
+                  : <VideoDisplay src={referenceVideoPreviewUrl} title="Reference Video (Preview)" ref={referencePreviewRef} />)}
+                {analysisMode === 'compare' && referenceVideoPreviewUrl && !annotatedReferenceVideoUrl && (
+                  <div style={{ marginTop: '5px', fontSize: '14px' }}>
+                    <input
+                      type="text"
+                      value={keyPoseLabel}
+                      placeholder="Key pose label, e.g. Impact"
+                      onChange={(e) => setKeyPoseLabel(e.target.value)}
+                      style={{ marginRight: '5px' }}
+                    />
+                    <button type="button" onClick={handleMarkKeyPose} disabled={keyPoses.length >= MAX_KEY_POSES}>
+                      Mark key pose at current time
+                    </button>
+                    {keyPoses.length > 0 && (
+                      <ul style={{ margin: '5px 0 0', paddingLeft: '20px' }}>
+                        {keyPoses.map(keyPose => (
+                          <li key={keyPose.time}>
+                            {keyPose.label || 'Key pose'} at {keyPose.time.toFixed(2)}s{' '}
+                            <button type="button" onClick={() => setKeyPoses(current => current.filter(other => other !== keyPose))}>
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Added Target Frames Input Field */}
@@ -165,12 +604,243 @@ const HomePage: React.FC = () => {
             />
           </div>
 
+          {analysisMode === 'checkpoints' && (
+            <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+              <label htmlFor="ruleSetSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                Checkpoint Rules:
+              </label>
+              <select
+                id="ruleSetSelect"
+                value={ruleSet}
+                onChange={(e) => setRuleSet(e.target.value)}
+                style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+              >
+                {ruleSets.map(r => (
+                  <option key={r.name} value={r.name}>{r.name} ({r.rules.length} rules)</option>
+                ))}
+              </select>
+              {ruleSets.find(r => r.name === ruleSet)?.description && (
+                <p style={{ margin: '5px 0 0', fontSize: '12px', color: '#666' }}>
+                  {ruleSets.find(r => r.name === ruleSet).description}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Comparison options; single-video analyses need none of them */}
+          {analysisMode === 'compare' && (
+            <>
+              <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <label htmlFor="alignmentSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                  Frame Alignment:
+                </label>
+                <select
+                  id="alignmentSelect"
+                  value={alignment}
+                  onChange={(e) => setAlignment(e.target.value as AlignmentMode)}
+                  style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+                >
+                  <option value="index">Frame by frame (clips start together)</option>
+                  <option value="dtw">Dynamic time warping (different start or speed)</option>
+                </select>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <label htmlFor="profileSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                  Scoring Profile:
+                </label>
+                <select
+                  id="profileSelect"
+                  value={profile}
+                  onChange={(e) => setProfile(e.target.value)}
+                  style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+                >
+                  <option value="">None (use the settings below)</option>
+                  {profiles.map(p => (
+                    <option key={p.name} value={p.name}>{p.name}</option>
+                  ))}
+                </select>
+                {profile && profiles.find(p => p.name === profile)?.description && (
+                  <p style={{ margin: '5px 0 0', fontSize: '12px', color: '#666' }}>
+                    {profiles.find(p => p.name === profile).description}
+                  </p>
+                )}
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <label htmlFor="metricSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                  Comparison Metric:
+                </label>
+                <select
+                  id="metricSelect"
+                  value={metric}
+                  onChange={(e) => setMetric(e.target.value as SimilarityMetric)}
+                  disabled={!!profile}
+                  style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+                >
+                  <option value="distance">Landmark distance</option>
+                  <option value="angles">Joint angles</option>
+                  <option value="blend">Distance and angles blended</option>
+                </select>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <label htmlFor="mirrorSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                  Mirror Mode:
+                </label>
+                <select
+                  id="mirrorSelect"
+                  value={mirror}
+                  onChange={(e) => setMirror(e.target.value as MirrorMode)}
+                  style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+                >
+                  <option value="off">Off (same side as the reference)</option>
+                  <option value="on">On (copying the reference like a mirror)</option>
+                  <option value="auto">Auto (use whichever matches better)</option>
+                </select>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <label htmlFor="coordinateSpaceSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                  Compare In:
+                </label>
+                <select
+                  id="coordinateSpaceSelect"
+                  value={coordinateSpace}
+                  onChange={(e) => setCoordinateSpace(e.target.value as CoordinateSpace)}
+                  style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+                >
+                  <option value="image">Image coordinates (as seen by the camera)</option>
+                  <option value="world">3D world coordinates (independent of camera angle)</option>
+                </select>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <label htmlFor="repSignalSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                  Count Repetitions By:
+                </label>
+                <select
+                  id="repSignalSelect"
+                  value={repSignal}
+                  onChange={(e) => setRepSignal(e.target.value)}
+                  style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+                >
+                  <option value="">Don't count repetitions</option>
+                  <option value="hip_height">Hip height (squats, lunges)</option>
+                  {JOINT_NAMES.map(joint => (
+                    <option key={joint} value={joint}>{formatJointName(joint)} angle</option>
+                  ))}
+                </select>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                <label htmlFor="smoothingSelect" style={{ marginBottom: '5px', fontSize: '14px', color: '#333' }}>
+                  Landmark Smoothing:
+                </label>
+                <select
+                  id="smoothingSelect"
+                  value={smoothing}
+                  onChange={(e) => setSmoothing(e.target.value as SmoothingMethod)}
+                  style={{ padding: '8px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px' }}
+                >
+                  <option value="none">None (raw landmarks)</option>
+                  <option value="one_euro">One Euro filter (adapts to speed)</option>
+                  <option value="savitzky_golay">Savitzky-Golay (keeps peaks)</option>
+                  <option value="moving_average">Moving average</option>
+                </select>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', justifyContent: 'center', gap: '15px', fontSize: '14px', color: '#333' }}>
+                <span>Normalize poses:</span>
+                {([
+                  ['center', 'Center on hips'],
+                  ['scale', 'Scale by torso'],
+                  ['rotate', 'Rotate to fit'],
+                ] as [keyof NormalizationOptions, string][]).map(([step, label]) => (
+                  <label key={step}>
+                    <input
+                      type="checkbox"
+                      checked={!!normalization[step]}
+                      onChange={(e) => setNormalization({ ...normalization, [step]: e.target.checked })}
+                      disabled={!!profile}
+                    />{' '}
+                    {label}
+                  </label>
+                ))}
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', justifyContent: 'center', fontSize: '14px', color: '#333' }}>
+                <label>
+                  <input type="checkbox" checked={compareKinematics} onChange={(e) => setCompareKinematics(e.target.checked)} />{' '}
+                  Compare speed, acceleration and smoothness
+                </label>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', justifyContent: 'center', gap: '15px', fontSize: '14px', color: '#333' }}>
+                <label>
+                  <input type="checkbox" checked={measureRom} onChange={(e) => setMeasureRom(e.target.checked)} />{' '}
+                  Measure range of motion
+                </label>
+                <label>
+                  <input type="checkbox" checked={romWorldLandmarks} onChange={(e) => setRomWorldLandmarks(e.target.checked)} disabled={!measureRom} />{' '}
+                  In 3D (world landmarks)
+                </label>
+                <label>
+                  <input type="checkbox" checked={romNormative} onChange={(e) => setRomNormative(e.target.checked)} disabled={!measureRom} />{' '}
+                  Compare with normative ranges
+                </label>
+              </div>
+
+              <div style={{ marginBottom: '10px', display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '10px', fontSize: '14px', color: '#333' }}>
+                <label>
+                  <input type="checkbox" checked={useVisibility} onChange={(e) => setUseVisibility(e.target.checked)} />{' '}
+                  Weight landmarks by visibility, ignoring those below
+                </label>
+                <input
+                  type="number"
+                  id="visibilityCutoffInput"
+                  value={visibilityCutoff}
+                  onChange={(e) => {
+                    let val = parseFloat(e.target.value);
+                    if (isNaN(val)) val = 0.5;
+                    setVisibilityCutoff(Math.max(0, Math.min(1, val)));
+                  }}
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  disabled={!useVisibility}
+                  style={{ padding: '4px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '14px', width: '70px', textAlign: 'center' }}
+                />
+              </div>
+            </>
+          )}
+
           <div className="actions">
-            <Button
-              label="Analyze Videos"
-              onClick={handleAnalyzeClick}
-              disabled={isLoading || !shortVideoFile || !referenceVideoFile}
-            />
+            {analysisMode === 'symmetry' ? (
+              <Button
+                label="Analyze Symmetry"
+                onClick={handleSymmetryClick}
+                disabled={isLoading || !shortVideoFile}
+              />
+            ) : analysisMode === 'consistency' ? (
+              <Button
+                label="Analyze Consistency"
+                onClick={handleConsistencyClick}
+                disabled={isLoading || attemptFiles.length < 2}
+              />
+            ) : analysisMode === 'checkpoints' ? (
+              <Button
+                label="Check Technique"
+                onClick={handleCheckpointsClick}
+                disabled={isLoading || !shortVideoFile || !ruleSet}
+              />
+            ) : (
+              <Button
+                label="Analyze Videos"
+                onClick={handleAnalyzeClick}
+                disabled={isLoading || !shortVideoFile || !referenceVideoFile}
+              />
+            )}
           </div>
 
           {isLoading && <div className="loading">Analyzing... Please wait. This may take a moment.</div>}
@@ -179,17 +849,50 @@ const HomePage: React.FC = () => {
           {(!isLoading && !error) && (annotatedShortVideoUrl || annotatedReferenceVideoUrl) && (
             <div className="video-displays">
               {annotatedShortVideoUrl && (
-                <VideoDisplay src={annotatedShortVideoUrl} title="Annotated Short Video" />
+                <VideoDisplay src={annotatedShortVideoUrl} title={symmetry || checkpoints ? 'Annotated Video' : 'Annotated Short Video'} ref={annotatedShortVideoRef} />
               )}
               {annotatedReferenceVideoUrl && (
-                <VideoDisplay src={annotatedReferenceVideoUrl} title="Annotated Reference Video" />
+                <VideoDisplay src={annotatedReferenceVideoUrl} title="Annotated Reference Video" ref={annotatedReferenceVideoRef} />
               )}
             </div>
           )}
+
+          {!isLoading && !error && symmetry && (
+            <SymmetryDisplay symmetry={symmetry} onSeek={handleCueSeek} />
+          )}
+
+          {!isLoading && !error && checkpoints && (
+            <CheckpointResults checkpoints={checkpoints} onSeek={handleCueSeek} />
+          )}
+
+          {!isLoading && !error && subjects && (
+            <p style={{ fontSize: '14px', color: '#555' }}>
+              {([['short', 'your video'], ['reference', 'the reference']] as const)
+                .filter(([video]) => subjects[video])
+                .map(([video, name]) => `${subjects[video].tracks.length} ${subjects[video].tracks.length === 1 ? 'person' : 'people'} tracked in ${name}, analyzing person #${subjects[video].selectedTrack + 1}.`)
+                .join(' ')}
+            </p>
+          )}
+
+          {!isLoading && !error && keyPoseReport && (
+            <KeyPoseResults keyPoses={keyPoseReport} onSeek={handleKeyPoseSeek} />
+          )}
+
+          {!isLoading && !error && consistency && (
+            <ConsistencyDisplay consistency={consistency} attemptNames={attemptFiles.map(file => file.name)} />
+          )}
+
+          {!isLoading && !error && coachingCues && coachingCues.length > 0 && (
+            <CoachingChecklist cues={coachingCues} onSeek={handleCueSeek} />
+          )}
+
+          {!isLoading && !error && alignmentPath && alignmentPath.length > 0 && (
+            <TimelineChart alignmentPath={alignmentPath} worstSegments={worstSegments} onSeek={handleTimelineSeek} />
+          )}
           
           {!isLoading && !error && (similarityScore !== null || analysisText !== null) && (
              <div className="results">
-                <ResultsDisplay score={similarityScore} analysisText={analysisText} />
+                <ResultsDisplay score={similarityScore} scoreInterval={scoreInterval} analysisText={analysisText} alignmentPath={alignmentPath} jointAngleDifferences={jointAngleDifferences} breakdown={breakdown} confidence={confidence} kinematics={kinematics} repetitions={repetitions} tempo={tempo} rangeOfMotion={rangeOfMotion} />
              </div>
           )}
         </div>
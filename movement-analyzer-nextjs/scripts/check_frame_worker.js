@@ -0,0 +1,32 @@
+// Checks that the frame worker built by "next build" or "next dev" starts with its real
+// dependencies (MediaPipe, canvas) and answers an estimation task. Poses come from the fake
+// backend, so no frames are read. Run with "npm run check:frame-worker" after a build.
+const fs = require('fs');
+const path = require('path');
+const { Worker } = require('worker_threads');
+
+const script = process.env.FRAME_WORKER_SCRIPT || path.join(process.cwd(), '.next', 'server', 'workers', 'frame_worker.js');
+if (!fs.existsSync(script)) {
+  console.error(`Frame worker script ${script} not found. Run "next build" first.`);
+  process.exit(1);
+}
+
+const framePaths = ['frame_0000.png', 'frame_0001.png', 'frame_0002.png'];
+const worker = new Worker(script, { env: { ...process.env, POSE_BACKEND: 'fake' } });
+const fail = message => {
+  console.error(`Frame worker check failed: ${message}`);
+  process.exit(1);
+};
+const timeout = setTimeout(() => fail('no answer within 60s'), 60000);
+
+worker.on('error', error => fail(error.stack || error.message));
+worker.on('message', ({ result, error }) => {
+  clearTimeout(timeout);
+  if (error) fail(error);
+  if (!Array.isArray(result) || result.length !== framePaths.length || !result.every(people => people[0] && people[0].landmarks)) {
+    fail(`unexpected result ${JSON.stringify(result)}`);
+  }
+  console.log(`Frame worker ${script} estimated ${result.length} frames.`);
+  worker.terminate();
+});
+worker.postMessage({ id: 0, task: { type: 'estimate', framePaths, multiPerson: false } });
@@ -1,5 +1,6 @@
-import { calculateSimilarity } from './analysis'; // Adjust path as necessary
+import { calculateSimilarity, dynamicTimeWarping, findWorstSegments, AlignmentStep } from './analysis'; // Adjust path as necessary
 import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+import { mirrorPose } from './pose_normalization';
 
 // Helper to create mock NormalizedLandmarkList
 const createMockLandmarks = (baseValue: number = 0, count: number = 33): NormalizedLandmarkList => {
@@ -70,6 +71,17 @@ describe('calculateSimilarity', () => {
     expect(analysisText).toContain('1 frame(s) had one pose missing.');
   });
 
+  test('should report a confidence interval around the score', () => {
+    const poses1 = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6].map(base => createMockLandmarks(base));
+    const poses2 = [0.12, 0.2, 0.35, 0.4, 0.52, 0.6].map(base => createMockLandmarks(base));
+    const { score, scoreInterval, analysisText } = calculateSimilarity(poses1, poses2, 6);
+    expect(scoreInterval.lower).toBeLessThanOrEqual(score);
+    expect(scoreInterval.upper).toBeGreaterThanOrEqual(score);
+    expect(scoreInterval.margin).toBeGreaterThan(0);
+    expect(analysisText).toContain('95% confidence interval:');
+    expect(calculateSimilarity(poses1, poses2, 6, { scoreInterval: false }).scoreInterval).toBeUndefined();
+  });
+
   test('should handle missing poses in both videos for some frames', () => {
     const poses1: (NormalizedLandmarkList | undefined)[] = [
       createMockLandmarks(0.1),
@@ -170,3 +182,448 @@ describe('calculateSimilarity', () => {
     expect(score).toBeCloseTo(13.6, 0); // Check with 1 decimal place precision
   });
 });
+
+describe('calculateSimilarity with DTW alignment', () => {
+  test('should match a time-shifted sequence that index alignment scores poorly', () => {
+    // Video 2 is video 1 delayed by two frames (held still at the start).
+    const poses1: (NormalizedLandmarkList | undefined)[] = [0.1, 0.2, 0.3, 0.4, 0.5, 0.5, 0.5].map(v => createMockLandmarks(v));
+    const poses2: (NormalizedLandmarkList | undefined)[] = [0.1, 0.1, 0.1, 0.2, 0.3, 0.4, 0.5].map(v => createMockLandmarks(v));
+
+    const indexResult = calculateSimilarity(poses1, poses2, 7);
+    const dtwResult = calculateSimilarity(poses1, poses2, 7, { alignment: 'dtw' });
+
+    expect(dtwResult.score).toBeCloseTo(100);
+    expect(dtwResult.score).toBeGreaterThan(indexResult.score);
+    expect(dtwResult.alignment).toBe('dtw');
+    expect(dtwResult.analysisText).toContain('dynamic time warping');
+    // Frame 1 of video 1 (value 0.2) should be matched with frame 3 of video 2.
+    expect(dtwResult.alignmentPath).toContainEqual({ index1: 1, index2: 3, dissimilarity: 0, reliable: true });
+  });
+
+  test('should return a frame-by-frame path for index alignment', () => {
+    const poses: (NormalizedLandmarkList | undefined)[] = [createMockLandmarks(0.1), createMockLandmarks(0.2)];
+    const { alignment, alignmentPath } = calculateSimilarity(poses, poses, 2);
+    expect(alignment).toBe('index');
+    expect(alignmentPath.map(step => [step.index1, step.index2])).toEqual([[0, 0], [1, 1]]);
+  });
+
+  test('should give the same score as index alignment for identical sequences', () => {
+    const poses: (NormalizedLandmarkList | undefined)[] = [createMockLandmarks(0.1), undefined, createMockLandmarks(0.3)];
+    const { score, alignmentPath } = calculateSimilarity(poses, poses, 3, { alignment: 'dtw' });
+    expect(score).toBeCloseTo(calculateSimilarity(poses, poses, 3).score);
+    expect(alignmentPath).toHaveLength(3);
+  });
+});
+
+describe('dynamicTimeWarping', () => {
+  test('should return the diagonal for a zero-cost diagonal', () => {
+    const costMatrix = [
+      [0, 1, 1],
+      [1, 0, 1],
+      [1, 1, 0],
+    ];
+    expect(dynamicTimeWarping(costMatrix)).toEqual([[0, 0], [1, 1], [2, 2]]);
+  });
+
+  test('should always start at (0, 0) and end at (n-1, m-1) for unequal lengths', () => {
+    const costMatrix = [
+      [0, 5, 5, 5],
+      [5, 0, 0, 5],
+      [5, 5, 5, 0],
+    ];
+    const path = dynamicTimeWarping(costMatrix);
+    expect(path[0]).toEqual([0, 0]);
+    expect(path[path.length - 1]).toEqual([2, 3]);
+    expect(path).toContainEqual([1, 2]);
+  });
+
+  test('should keep the path inside the window', () => {
+    // The cheapest unconstrained path would warp far off the diagonal.
+    const costMatrix = [
+      [0, 0, 0, 0, 9],
+      [9, 9, 9, 9, 0],
+      [9, 9, 9, 9, 0],
+      [9, 9, 9, 9, 0],
+      [9, 9, 9, 9, 0],
+    ];
+    const path = dynamicTimeWarping(costMatrix, 1);
+    path.forEach(([i, j]) => expect(Math.abs(i - j)).toBeLessThanOrEqual(1));
+  });
+
+  test('should return an empty path for an empty matrix', () => {
+    expect(dynamicTimeWarping([])).toEqual([]);
+  });
+});
+
+describe('calculateSimilarity with joint angle metric', () => {
+  // Scales every landmark around (0.5, 0.5): same shape, different body size or camera distance.
+  const scalePose = (landmarks: NormalizedLandmarkList, factor: number): NormalizedLandmarkList =>
+    landmarks.map(lm => ({ ...lm, x: 0.5 + (lm.x - 0.5) * factor, y: 0.5 + (lm.y - 0.5) * factor }));
+
+  // A pose whose landmarks are spread out in x and y so joint angles are well defined.
+  const createSpreadLandmarks = (seed: number): NormalizedLandmarkList =>
+    Array.from({ length: 33 }, (_, i) => ({
+      x: 0.5 + 0.3 * Math.cos(i * 1.3 + seed),
+      y: 0.5 + 0.3 * Math.sin(i * 0.7 + seed),
+      z: 0,
+      visibility: 0.9,
+    }));
+
+  test('should ignore body size for the angles metric', () => {
+    const poses1 = [createSpreadLandmarks(0), createSpreadLandmarks(1)];
+    const poses2 = poses1.map(lms => scalePose(lms, 0.5));
+
+    const distanceResult = calculateSimilarity(poses1, poses2, 2, { metric: 'distance' });
+    const angleResult = calculateSimilarity(poses1, poses2, 2, { metric: 'angles' });
+
+    expect(distanceResult.score).toBeLessThan(90);
+    expect(angleResult.score).toBeCloseTo(100);
+    expect(angleResult.metric).toBe('angles');
+    expect(angleResult.jointAngleDifferences.left_knee).toBeCloseTo(0);
+  });
+
+  test('should blend distance and angle scores by angleWeight', () => {
+    const poses1 = [createSpreadLandmarks(0), createSpreadLandmarks(1)];
+    const poses2 = poses1.map(lms => scalePose(lms, 0.5));
+
+    const distanceScore = calculateSimilarity(poses1, poses2, 2, { metric: 'distance' }).score;
+    const blendResult = calculateSimilarity(poses1, poses2, 2, { metric: 'blend', angleWeight: 0.5 });
+
+    expect(blendResult.score).toBeGreaterThan(distanceScore);
+    expect(blendResult.score).toBeLessThan(100);
+    expect(blendResult.analysisText).toContain('angle weight 0.50');
+  });
+
+  test('should report the joint with the largest angle difference', () => {
+    const poses1 = [createSpreadLandmarks(0)];
+    const poses2 = [createSpreadLandmarks(0).map((lm, i) => (i === 27 ? { ...lm, x: lm.x + 0.2 } : lm))]; // Move left ankle
+    const { jointAngleDifferences, analysisText } = calculateSimilarity(poses1, poses2, 1, { metric: 'angles' });
+    expect(jointAngleDifferences.left_knee).toBeGreaterThan(0);
+    expect(jointAngleDifferences.right_knee).toBeCloseTo(0);
+    expect(analysisText).toContain('Largest average joint angle difference');
+  });
+
+  test('should not report joint angle differences for the distance metric', () => {
+    const poses = [createMockLandmarks(0.1)];
+    expect(calculateSimilarity(poses, poses, 1).jointAngleDifferences).toBeUndefined();
+  });
+});
+
+describe('calculateSimilarity score breakdown', () => {
+  test('should give every region 100% for identical poses', () => {
+    const poses = [createMockLandmarks(0.1), createMockLandmarks(0.2)];
+    const { breakdown } = calculateSimilarity(poses, poses, 2);
+    Object.values(breakdown.regions).forEach(regionScore => expect(regionScore).toBeCloseTo(100));
+    expect(breakdown.landmarks).toHaveLength(33);
+  });
+
+  test('should isolate a deviating right leg', () => {
+    const poses1 = [createMockLandmarks(0.1)];
+    // Shift the right knee, ankle, heel and foot index (26, 28, 30, 32) by 0.2 in x.
+    const poses2 = [createMockLandmarks(0.1).map((lm, i) => ([26, 28, 30, 32].includes(i) ? { ...lm, x: lm.x + 0.2 } : lm))];
+
+    const { breakdown, analysisText } = calculateSimilarity(poses1, poses2, 1);
+
+    expect(breakdown.regions.right_leg).toBeCloseTo(60); // 0.2 / 0.5 cap = 40% off
+    expect(breakdown.regions.left_leg).toBeCloseTo(100);
+    expect(breakdown.regions.torso).toBeCloseTo(100);
+    expect(breakdown.landmarks[28].meanError).toBeCloseTo(0.2);
+    expect(['right knee', 'right ankle', 'right heel', 'right foot index']).toContain(breakdown.worstLandmark.name);
+    expect(analysisText).toContain('Weakest body region: right leg');
+  });
+
+  test('should leave out frame pairs with a missing pose', () => {
+    const poses1 = [createMockLandmarks(0.1), undefined];
+    const poses2 = [createMockLandmarks(0.1), createMockLandmarks(0.5)];
+    const { breakdown } = calculateSimilarity(poses1, poses2, 2);
+    expect(breakdown.regions.head).toBeCloseTo(100);
+  });
+
+  test('should not return a breakdown when no frame has both poses', () => {
+    const { breakdown } = calculateSimilarity([undefined], [createMockLandmarks(0.1)], 1);
+    expect(breakdown).toBeUndefined();
+  });
+});
+
+describe('calculateSimilarity with normalization', () => {
+  // Moves and resizes a pose as if the person stood elsewhere in the frame, closer to the camera.
+  const reframePose = (landmarks: NormalizedLandmarkList): NormalizedLandmarkList =>
+    landmarks.map(lm => ({ ...lm, x: 0.1 + lm.x * 1.5, y: 0.05 + lm.y * 1.5, z: lm.z * 1.5 }));
+
+  test('should score a reframed pose as identical once centered and scaled', () => {
+    const poses1 = [createMockLandmarks(0.1), createMockLandmarks(0.2)];
+    const poses2 = poses1.map(reframePose);
+
+    const raw = calculateSimilarity(poses1, poses2, 2);
+    const normalized = calculateSimilarity(poses1, poses2, 2, { normalization: { center: true, scale: true } });
+
+    expect(raw.score).toBeLessThan(80);
+    expect(normalized.score).toBeCloseTo(100);
+    expect(normalized.normalization).toEqual({ center: true, scale: true, rotate: false });
+    expect(normalized.analysisText).toContain('centered on hips, scaled by torso length');
+  });
+
+  test('should apply each step independently', () => {
+    const poses1 = [createMockLandmarks(0.1)];
+    const poses2 = poses1.map(reframePose);
+
+    const centeredOnly = calculateSimilarity(poses1, poses2, 1, { normalization: { center: true } }).score;
+    const centeredAndScaled = calculateSimilarity(poses1, poses2, 1, { normalization: { center: true, scale: true } }).score;
+
+    expect(centeredAndScaled).toBeGreaterThan(centeredOnly);
+  });
+
+  test('should report all steps disabled by default', () => {
+    const poses = [createMockLandmarks(0.1)];
+    expect(calculateSimilarity(poses, poses, 1).normalization).toEqual({ center: false, scale: false, rotate: false });
+  });
+});
+
+describe('calculateSimilarity with visibility options', () => {
+  // Sets the visibility of the given landmarks.
+  const withVisibility = (landmarks: NormalizedLandmarkList, indices: number[], visibility: number): NormalizedLandmarkList =>
+    landmarks.map((lm, i) => (indices.includes(i) ? { ...lm, visibility } : lm));
+  const leftSide = [1, 2, 3, 7, 9, 11, 13, 15, 17, 19, 21, 23, 25, 27, 29, 31];
+
+  test('should ignore occluded landmarks below the cutoff', () => {
+    const poses1 = [withVisibility(createMockLandmarks(0.1), leftSide, 0.1)];
+    // The occluded landmarks are wildly off; the visible ones match.
+    const poses2 = [withVisibility(createMockLandmarks(0.1).map((lm, i) => (leftSide.includes(i) ? { ...lm, x: lm.x + 1 } : lm)), leftSide, 0.1)];
+
+    expect(calculateSimilarity(poses1, poses2, 1).score).toBeLessThan(50);
+    const { score, confidence } = calculateSimilarity(poses1, poses2, 1, { visibility: { cutoff: 0.5 } });
+    expect(score).toBeCloseTo(100);
+    expect(confidence.unreliableSteps).toEqual([]);
+  });
+
+  test('should mark frames with too few visible landmarks as unreliable instead of penalizing them', () => {
+    const hidden = withVisibility(createMockLandmarks(0.1), Array.from({ length: 30 }, (_, i) => i), 0.1);
+    const poses1 = [createMockLandmarks(0.1), hidden, undefined];
+    const poses2 = [createMockLandmarks(0.1), createMockLandmarks(0.9), createMockLandmarks(0.3)];
+
+    const { score, confidence, alignmentPath, analysisText } = calculateSimilarity(poses1, poses2, 3, {
+      visibility: { cutoff: 0.5, minVisibleLandmarks: 8 },
+    });
+
+    expect(score).toBeCloseTo(100); // Only frame 0 counts
+    expect(confidence.unreliableSteps).toEqual([1, 2]);
+    expect(alignmentPath.map(step => step.reliable)).toEqual([true, false, false]);
+    expect(analysisText).toContain('2 frame(s) marked unreliable');
+  });
+
+  test('should weight landmarks by visibility', () => {
+    const poses1 = [withVisibility(createMockLandmarks(0.1), leftSide, 0.6)];
+    const poses2 = [withVisibility(createMockLandmarks(0.1).map((lm, i) => (leftSide.includes(i) ? { ...lm, x: lm.x + 0.2 } : lm)), leftSide, 0.6)];
+
+    const unweighted = calculateSimilarity(poses1, poses2, 1, { visibility: { cutoff: 0.5 } }).score;
+    const weighted = calculateSimilarity(poses1, poses2, 1, { visibility: { cutoff: 0.5, weighting: true } }).score;
+    expect(weighted).toBeGreaterThan(unweighted);
+  });
+
+  test('should report the share of low-confidence landmark data', () => {
+    const poses = [withVisibility(createMockLandmarks(0.1), leftSide, 0.6)];
+    const { confidence, analysisText } = calculateSimilarity(poses, poses, 1, { visibility: { cutoff: 0.5, lowConfidenceThreshold: 0.8 } });
+    expect(confidence.lowConfidenceShare).toBeCloseTo(16 / 33, 2);
+    expect(analysisText).toContain('% of the compared landmark data is low-confidence');
+  });
+
+  test('should score 0 when no frame is reliable', () => {
+    const { score, analysisText } = calculateSimilarity([undefined], [undefined], 1, { visibility: {} });
+    expect(score).toBe(0);
+    expect(analysisText).toContain('No reliable frames to compare');
+  });
+
+  test('should not report confidence without visibility options', () => {
+    const poses = [createMockLandmarks(0.1)];
+    expect(calculateSimilarity(poses, poses, 1).confidence).toBeUndefined();
+  });
+});
+
+describe('findWorstSegments', () => {
+  const createPath = (dissimilarities: number[], reliable: boolean[] = []): AlignmentStep[] =>
+    dissimilarities.map((dissimilarity, i) => ({
+      index1: i,
+      index2: i,
+      dissimilarity,
+      reliable: reliable[i] !== false,
+      time1: i * 0.5,
+      time2: i * 0.25,
+    }));
+
+  test('should find contiguous runs above the average, worst first', () => {
+    // Average is 0.26; runs above it are steps 1-2 (excess 0.48) and step 5 (excess 0.54)
+    const path = createPath([0.1, 0.5, 0.5, 0.1, 0.1, 0.8, 0.1, 0.2, 0.1, 0.1]);
+    const segments = findWorstSegments(path, 3);
+    expect(segments.map(s => [s.startStep, s.endStep])).toEqual([[5, 5], [1, 2]]);
+    expect(segments[0].peakStep).toBe(5);
+    expect(segments[1].meanDissimilarity).toBeCloseTo(0.5);
+  });
+
+  test('should include timestamps from the alignment path', () => {
+    const segments = findWorstSegments(createPath([0, 0, 1, 1, 0]), 1);
+    expect(segments[0]).toMatchObject({ startStep: 2, endStep: 3, startTime1: 1, endTime1: 1.5, startTime2: 0.5, endTime2: 0.75 });
+  });
+
+  test('should split segments at unreliable steps', () => {
+    const segments = findWorstSegments(createPath([0, 1, 1, 1, 0], [true, true, false, true, true]), 5);
+    expect(segments).toHaveLength(2);
+    segments.forEach(s => expect(s.startStep).toBe(s.endStep));
+  });
+
+  test('should limit the number of segments and handle empty paths', () => {
+    expect(findWorstSegments(createPath([1, 0, 1, 0, 1, 0]), 2)).toHaveLength(2);
+    expect(findWorstSegments([], 3)).toEqual([]);
+  });
+});
+
+describe('calculateSimilarity timeline', () => {
+  test('should attach timestamps to alignment steps and report worst segments', () => {
+    const poses1 = [createMockLandmarks(0.1), createMockLandmarks(0.4), createMockLandmarks(0.1)];
+    const poses2 = [createMockLandmarks(0.1), createMockLandmarks(0.1), createMockLandmarks(0.1)];
+    const { alignmentPath, worstSegments, analysisText } = calculateSimilarity(poses1, poses2, 3, {
+      timestamps1: [0, 0.5, 1],
+      timestamps2: [0, 1, 2],
+    });
+    expect(alignmentPath[1]).toMatchObject({ time1: 0.5, time2: 1 });
+    expect(worstSegments[0]).toMatchObject({ startStep: 1, endStep: 1, startTime1: 0.5, startTime2: 1 });
+    expect(analysisText).toContain('Worst segment');
+  });
+});
+
+describe('calculateSimilarity with mirror mode', () => {
+  // An asymmetric pose, so mirroring it changes which side each landmark is on.
+  const createAsymmetricLandmarks = (seed: number): NormalizedLandmarkList =>
+    Array.from({ length: 33 }, (_, i) => ({
+      x: 0.5 + 0.3 * Math.cos(i * 1.3 + seed),
+      y: 0.5 + 0.3 * Math.sin(i * 0.7 + seed),
+      z: 0,
+      visibility: 0.9,
+    }));
+
+  const poses1 = [createAsymmetricLandmarks(0), createAsymmetricLandmarks(1)];
+  const mirroredPoses = poses1.map(landmarks => mirrorPose(landmarks));
+
+  test('should not mirror by default', () => {
+    const result = calculateSimilarity(poses1, mirroredPoses, 2);
+    expect(result.mirror).toBe('off');
+    expect(result.mirrored).toBe(false);
+    expect(result.score).toBeLessThan(90);
+  });
+
+  test('should match a mirror-image copy when mirroring is on', () => {
+    const result = calculateSimilarity(poses1, mirroredPoses, 2, { mirror: 'on' });
+    expect(result.mirrored).toBe(true);
+    expect(result.score).toBeCloseTo(100);
+    expect(result.analysisText).toContain('Short video mirrored');
+  });
+
+  test('should pick the better orientation in auto mode', () => {
+    const mirroredResult = calculateSimilarity(poses1, mirroredPoses, 2, { mirror: 'auto' });
+    expect(mirroredResult.mirror).toBe('auto');
+    expect(mirroredResult.mirrored).toBe(true);
+    expect(mirroredResult.score).toBeCloseTo(100);
+    expect(mirroredResult.analysisText).toContain('Mirrored orientation matched better');
+
+    const asFilmedResult = calculateSimilarity(poses1, poses1, 2, { mirror: 'auto' });
+    expect(asFilmedResult.mirrored).toBe(false);
+    expect(asFilmedResult.analysisText).toContain('Orientation as filmed matched better');
+  });
+});
+
+describe('calculateSimilarity in world coordinates', () => {
+  // A hip-centered 3D pose in meters, like MediaPipe's world landmarks.
+  const createWorldLandmarks = (seed: number): NormalizedLandmarkList =>
+    Array.from({ length: 33 }, (_, i) => {
+      if (i === 23 || i === 24) return { x: i === 23 ? 0.1 : -0.1, y: 0, z: 0, visibility: 0.9 }; // Hips
+      return { x: 0.4 * Math.cos(i * 1.3 + seed), y: 0.6 * Math.sin(i * 0.7 + seed), z: 0.2 * Math.sin(i * 1.9 + seed), visibility: 0.9 };
+    });
+
+  // Turns a pose about the vertical axis through the hips, as if filmed from another angle.
+  const turnPose = (landmarks: NormalizedLandmarkList, theta: number): NormalizedLandmarkList =>
+    landmarks.map(lm => ({ ...lm, x: lm.x * Math.cos(theta) - lm.z * Math.sin(theta), z: lm.x * Math.sin(theta) + lm.z * Math.cos(theta) }));
+
+  const poses1 = [createWorldLandmarks(0), createWorldLandmarks(1)];
+
+  test('should report the coordinate space, image by default', () => {
+    expect(calculateSimilarity(poses1, poses1, 2).coordinateSpace).toBe('image');
+    const result = calculateSimilarity(poses1, poses1, 2, { coordinateSpace: 'world' });
+    expect(result.coordinateSpace).toBe('world');
+    expect(result.analysisText).toContain('Compared in 3D world coordinates');
+  });
+
+  test('should undo a different camera angle when rotating world poses', () => {
+    const turned = poses1.map(landmarks => turnPose(landmarks, 0.6));
+    const options = { coordinateSpace: 'world' as const, normalization: { rotate: true } };
+
+    const unrotated = calculateSimilarity(poses1, turned, 2, { coordinateSpace: 'world' });
+    const rotated = calculateSimilarity(poses1, turned, 2, options);
+    expect(unrotated.score).toBeLessThan(90);
+    expect(rotated.score).toBeCloseTo(100);
+  });
+
+  test('should measure joint angles in 3D', () => {
+    // Moving the left wrist towards the camera bends the elbow only in depth
+    const poses2 = poses1.map(landmarks => landmarks.map((lm, k) => (k === 15 ? { ...lm, z: lm.z - 0.3 } : lm)));
+
+    const image = calculateSimilarity(poses1, poses2, 2, { metric: 'angles' });
+    const world = calculateSimilarity(poses1, poses2, 2, { metric: 'angles', coordinateSpace: 'world' });
+    expect(image.score).toBeCloseTo(100);
+    expect(world.score).toBeLessThan(100);
+    expect(world.jointAngleDifferences.left_elbow).toBeGreaterThan(1);
+  });
+
+  test('should mirror world poses about the hips', () => {
+    const mirrored = poses1.map(landmarks => mirrorPose(landmarks, 'world'));
+    const result = calculateSimilarity(poses1, mirrored, 2, { mirror: 'on', coordinateSpace: 'world' });
+    expect(result.score).toBeCloseTo(100);
+  });
+});
+
+describe('calculateSimilarity with kinematics', () => {
+  test('should report kinematic scores next to the positional score', () => {
+    const poses1 = [0.1, 0.2, 0.3, 0.4].map(v => createMockLandmarks(v));
+    const poses2 = [0.1, 0.15, 0.2, 0.25].map(v => createMockLandmarks(v));
+    const result = calculateSimilarity(poses1, poses2, 4, { kinematics: true, timestamps1: [0, 0.1, 0.2, 0.3], timestamps2: [0, 0.1, 0.2, 0.3] });
+    expect(result.kinematics).toBeDefined();
+    expect(result.kinematics.speedScore).toBeLessThan(100);
+    expect(result.analysisText).toContain('Kinematic similarity');
+  });
+
+  test('should not compute kinematics unless requested', () => {
+    const poses = [createMockLandmarks(0.1)];
+    expect(calculateSimilarity(poses, poses, 1).kinematics).toBeUndefined();
+  });
+});
+
+describe('calculateSimilarity with scoring parameters', () => {
+  // Shifts the face landmarks (0-10) by 0.3 in x.
+  const shiftFace = (landmarks: NormalizedLandmarkList): NormalizedLandmarkList =>
+    landmarks.map((lm, i) => (i <= 10 ? { ...lm, x: lm.x + 0.3 } : lm));
+
+  test('should ignore landmarks with a weight of 0', () => {
+    const poses1 = [createMockLandmarks(0.1)];
+    const poses2 = [shiftFace(createMockLandmarks(0.1))];
+    const landmarkWeights = Array.from({ length: 33 }, (_, i) => (i <= 10 ? 0 : 1));
+
+    expect(calculateSimilarity(poses1, poses2, 1).score).toBeLessThan(100);
+    const { score, breakdown } = calculateSimilarity(poses1, poses2, 1, { scoring: { landmarkWeights } });
+    expect(score).toBeCloseTo(100);
+    expect(breakdown.regions.head).toBeUndefined();
+    expect(breakdown.regions.torso).toBeCloseTo(100);
+  });
+
+  test('should scale scores with the distance cap', () => {
+    const poses1 = [createMockLandmarks(0.1)];
+    const poses2 = [createMockLandmarks(0.1).map(lm => ({ ...lm, x: lm.x + 0.1 }))];
+    expect(calculateSimilarity(poses1, poses2, 1).score).toBeCloseTo(80); // 0.1 / 0.5 default cap
+    expect(calculateSimilarity(poses1, poses2, 1, { scoring: { distanceCap: 0.2 } }).score).toBeCloseTo(50);
+  });
+
+  test('should apply custom missing-frame penalties', () => {
+    const poses1 = [createMockLandmarks(0.1), undefined];
+    const poses2 = [createMockLandmarks(0.1), createMockLandmarks(0.1)];
+    expect(calculateSimilarity(poses1, poses2, 2).score).toBeCloseTo(0); // Mean of 0 and the default penalty 1.0, past the 0.5 cap
+    expect(calculateSimilarity(poses1, poses2, 2, { scoring: { missingFramePenalty: 0.25 } }).score).toBeCloseTo(75);
+    expect(calculateSimilarity([undefined], [undefined], 1, { scoring: { bothMissingPenalty: 0 } }).score).toBeCloseTo(100);
+  });
+});
@@ -1,7 +1,13 @@
 import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+import { calculateJointAngles, formatJointName, JointAngles, JointName, JOINT_LANDMARKS, JOINT_NAMES } from './joint_angles';
+import { compareKinematics, computeKinematics, KinematicComparison } from './kinematics';
+import { BodyRegion, BODY_REGIONS, formatBodyRegion, LANDMARK_NAMES } from './landmarks';
+import { CoordinateSpace, mirrorPose, normalizePose, procrustesRotate, NormalizationOptions, WORLD_METERS_PER_IMAGE_UNIT } from './pose_normalization';
+import { bootstrapScoreInterval, ScoreInterval, ScoreIntervalOptions } from './score_interval';
 
 const NORMALIZATION_CAP = 0.5; // Empirically determined cap for dissimilarity.
                                // Average distance of 0.5 units (normalized space) maps to 0% similarity.
+const ANGLE_NORMALIZATION_CAP_DEG = 60; // Average joint angle difference of 60 degrees maps to 0% similarity.
 
 interface Landmark {
   x: number;
@@ -24,19 +30,519 @@ function calculateEuclideanDistance(lm1: Landmark, lm2: Landmark): number {
   );
 }
 
+type FrameStatus = 'valid' | 'missing' | 'malformed';
+
+/**
+ * How frames of the two sequences are paired for comparison.
+ * - 'index': frame i of video 1 is compared with frame i of video 2.
+ * - 'dtw': dynamic time warping finds the lowest-cost monotonic pairing, so clips
+ *          that start at different moments or move at different speeds still line up.
+ */
+export type AlignmentMode = 'index' | 'dtw';
+
+/**
+ * What is compared between two poses.
+ * - 'distance': mean Euclidean distance between the raw normalized landmarks.
+ * - 'angles': mean difference between anatomical joint angles (elbows, shoulders, hips, knees,
+ *             ankles, trunk lean), independent of body size, camera distance and framing.
+ * - 'blend': weighted combination of both, see `angleWeight`.
+ */
+export type SimilarityMetric = 'distance' | 'angles' | 'blend';
+
+/**
+ * Whether the poses of video 1 are mirrored (x flipped, left and right swapped) before comparison.
+ * - 'off': compare as filmed.
+ * - 'on': always mirror, for users copying a reference that faces them, like a mirror.
+ * - 'auto': compare both ways and keep the orientation that scores higher.
+ */
+export type MirrorMode = 'off' | 'on' | 'auto';
+
+/**
+ * How landmark visibility (MediaPipe's confidence that a landmark is visible) affects scoring.
+ * Without these options every landmark counts fully, however occluded.
+ */
+export interface VisibilityOptions {
+  /** Weight each landmark by the lower of its two visibilities. */
+  weighting?: boolean;
+  /** Landmarks with visibility below this in either pose are left out entirely. Defaults to 0.5. */
+  cutoff?: number;
+  /**
+   * Frame pairs with fewer landmarks above the cutoff are marked unreliable and left out of the
+   * score, as are pairs with a missing pose. Defaults to 8.
+   */
+  minVisibleLandmarks?: number;
+  /** Compared landmarks with visibility below this count as low-confidence in the report. Defaults to 0.8. */
+  lowConfidenceThreshold?: number;
+}
+
+/** How much of the score rests on uncertain data. Only reported when visibility options are set. */
+export interface ConfidenceReport {
+  /** Alignment path steps (by index into the path) left out of the score as unreliable. */
+  unreliableSteps: number[];
+  /** Share (0-1) of the compared landmark weight that came from low-confidence landmarks. */
+  lowConfidenceShare: number;
+}
+
+/**
+ * Scoring constants. Usually filled in from a named scoring profile (see `scoring_profiles.ts`);
+ * every field falls back to the built-in default.
+ */
+export interface ScoringParameters {
+  /** Weight of each landmark, indexed by landmark index. 0 leaves a landmark out entirely. Defaults to 1 for all. */
+  landmarkWeights?: number[];
+  /**
+   * Average landmark distance that maps to a score of 0. Defaults to NORMALIZATION_CAP (0.5).
+   * In normalized image units; converted to meters when comparing world landmarks.
+   */
+  distanceCap?: number;
+  /** Average joint angle difference in degrees that maps to a score of 0. Defaults to 60. */
+  angleCap?: number;
+  /** Dissimilarity of a frame pair where one pose is missing or malformed. Defaults to 1.0. */
+  missingFramePenalty?: number;
+  /** Dissimilarity of a frame pair where both poses are missing. Defaults to 0.1. */
+  bothMissingPenalty?: number;
+}
+
+export interface SimilarityOptions {
+  alignment?: AlignmentMode;
+  metric?: SimilarityMetric;
+  /** Weight (0-1) of the angle metric in 'blend' mode. The distance metric gets the rest. Defaults to 0.5. */
+  angleWeight?: number;
+  visibility?: VisibilityOptions;
+  /** Time in seconds of each frame of video 1, used to timestamp the alignment path. */
+  timestamps1?: number[];
+  /** Time in seconds of each frame of video 2. */
+  timestamps2?: number[];
+  /** How many of the worst contiguous segments to report. Defaults to 3. */
+  worstSegmentCount?: number;
+  /** Normalization steps applied to both poses before comparison. All off by default. */
+  normalization?: NormalizationOptions;
+  /**
+   * Sakoe-Chiba band radius (in frames) limiting how far DTW may warp.
+   * Undefined means unconstrained. Ignored for 'index' alignment.
+   */
+  dtwWindow?: number;
+  /** Defaults to 'off'. */
+  mirror?: MirrorMode;
+  /** Also compare velocity, acceleration and smoothness, using the timestamps if given. Off by default. */
+  kinematics?: boolean;
+  scoring?: ScoringParameters;
+  /** Bootstrap settings of the score's confidence interval. Computed with the defaults unless false. */
+  scoreInterval?: ScoreIntervalOptions | false;
+  /**
+   * Coordinates of the poses passed in. With 'world' (MediaPipe world landmarks), joint angles are
+   * measured in 3D, mirroring and rotation use the hip-centered axes, and the distance cap is
+   * converted to meters. Defaults to 'image'.
+   */
+  coordinateSpace?: CoordinateSpace;
+}
+
+/** One pairing of a video 1 frame with a video 2 frame along the alignment path. */
+export interface AlignmentStep {
+  index1: number;
+  index2: number;
+  dissimilarity: number;
+  /** False if the pair was left out of the score for lack of visible landmarks (see VisibilityOptions). */
+  reliable: boolean;
+  /** Time in seconds of frame index1 in video 1, if timestamps were given. */
+  time1?: number;
+  /** Time in seconds of frame index2 in video 2, if timestamps were given. */
+  time2?: number;
+}
+
+/** A contiguous run of alignment path steps that were worse than average. */
+export interface DissimilaritySegment {
+  /** First and last step (inclusive) of the segment, as indices into the alignment path. */
+  startStep: number;
+  endStep: number;
+  /** The step with the highest dissimilarity within the segment. */
+  peakStep: number;
+  meanDissimilarity: number;
+  startTime1?: number;
+  endTime1?: number;
+  startTime2?: number;
+  endTime2?: number;
+}
+
+/** Mean distance of a single landmark from its counterpart, over all frame pairs where both poses were present. */
+export interface LandmarkError {
+  index: number;
+  name: string;
+  meanError: number;
+}
+
+/** Where on the body the dissimilarity comes from. Based on landmark distances regardless of metric. */
+export interface ScoreBreakdown {
+  /** Sub-score (0-100) per body region. Regions whose landmarks all have weight 0 are left out. */
+  regions: Partial<Record<BodyRegion, number>>;
+  /** Error per landmark, in landmark index order. Landmarks with weight 0 are left out. */
+  landmarks: LandmarkError[];
+  /** The landmark that deviates most from its counterpart. */
+  worstLandmark: LandmarkError;
+}
+
+/** How many frames of each video had a usable pose. */
+export interface FrameCounts {
+  /** Frames per video (targetFrames). */
+  total: number;
+  /** Frames without a detected pose, per video. */
+  missing1: number;
+  missing2: number;
+  /** Frames with an unexpected number of landmarks, per video. */
+  malformed1: number;
+  malformed2: number;
+  /** Scored alignment steps where exactly one of the two poses was unusable. */
+  mismatchedSteps: number;
+}
+
+export interface SimilarityResult {
+  score: number;
+  /** How far the score could move from pose jitter alone. Only set if at least one frame pair was reliable. */
+  scoreInterval?: ScoreInterval;
+  analysisText: string;
+  alignment: AlignmentMode;
+  metric: SimilarityMetric;
+  normalization: NormalizationOptions;
+  coordinateSpace: CoordinateSpace;
+  mirror: MirrorMode;
+  /** Whether video 1 was mirrored for the reported score. With mirror 'auto', the orientation that matched better. */
+  mirrored: boolean;
+  /** The frame pairing the score was computed along, in order. Doubles as the per-frame dissimilarity series. */
+  alignmentPath: AlignmentStep[];
+  /** The worst contiguous segments, worst first. */
+  worstSegments?: DissimilaritySegment[];
+  /** Mean absolute angle difference per joint in degrees. Only set for the 'angles' and 'blend' metrics. */
+  jointAngleDifferences?: JointAngles;
+  /** Per-region and per-landmark breakdown. Only set if at least one frame pair had both poses present. */
+  breakdown?: ScoreBreakdown;
+  confidence?: ConfidenceReport;
+  /** Kinematic scores, reported next to (not folded into) the positional score. Only set if requested. */
+  kinematics?: KinematicComparison;
+  /** Missing and malformed frames. Only set if the inputs could be compared at all. */
+  frameCounts?: FrameCounts;
+}
+
+/** Converts an average dissimilarity into a 0-100 similarity score. */
+function dissimilarityToScore(dissimilarity: number, cap: number = NORMALIZATION_CAP): number {
+  // Score is 100 if dissimilarity is 0.
+  // Score is 0 if dissimilarity is the cap or more.
+  return Math.max(0, (1 - dissimilarity / cap)) * 100;
+}
+
+function getFrameStatus(landmarks: NormalizedLandmarkList | undefined): FrameStatus {
+  if (!landmarks) return 'missing';
+  // MediaPipe Pose always provides 33 landmarks when a pose is detected.
+  return landmarks.length === 33 ? 'valid' : 'malformed';
+}
+
+/** Returns the weight (0 = left out) of a pair of landmarks with the given landmark index in the comparison. */
+type LandmarkWeightFn = (lm1: Landmark, lm2: Landmark, index: number) => number;
+
+/**
+ * Builds the landmark weight function for the given visibility options and per-landmark weights.
+ * A landmark without a reported visibility is treated as fully visible.
+ */
+function createLandmarkWeightFn(visibility: VisibilityOptions | undefined, landmarkWeights: number[] | undefined): LandmarkWeightFn {
+  const baseWeight = (index: number) => landmarkWeights?.[index] ?? 1;
+  if (!visibility) return (lm1, lm2, index) => baseWeight(index);
+  const cutoff = visibility.cutoff ?? 0.5;
+  return (lm1, lm2, index) => {
+    const minVisibility = Math.min(lm1.visibility ?? 1, lm2.visibility ?? 1);
+    if (minVisibility < cutoff) return 0;
+    return baseWeight(index) * (visibility.weighting ? minVisibility : 1);
+  };
+}
+
+/**
+ * Calculates the (weighted) average landmark distance between two valid frames.
+ */
+function calculateLandmarkDissimilarity(
+  landmarks1: NormalizedLandmarkList,
+  landmarks2: NormalizedLandmarkList,
+  landmarkWeight: LandmarkWeightFn
+): number {
+  let totalDistance = 0;
+  let totalWeight = 0;
+
+  for (let j = 0; j < 33; j++) { // MediaPipe Pose has 33 landmarks
+    const lm1 = landmarks1[j] as Landmark; // Casting from NormalizedLandmark
+    const lm2 = landmarks2[j] as Landmark; // Casting from NormalizedLandmark
+
+    // Basic check if landmark objects exist (though MediaPipe usually guarantees 33 if list exists)
+    if (!lm1 || !lm2) {
+      continue;
+    }
+
+    const weight = landmarkWeight(lm1, lm2, j);
+    if (weight === 0) {
+      continue; // Skip less visible landmarks
+    }
+
+    totalDistance += weight * calculateEuclideanDistance(lm1, lm2);
+    totalWeight += weight;
+  }
+
+  // All landmarks skipped (e.g., by visibility) means max dissimilarity
+  return totalWeight > 0 ? totalDistance / totalWeight : 1.0;
+}
+
+/**
+ * Calculates the weighted mean absolute joint angle difference between two frames, in degrees,
+ * over the given joints. Returns `angleCap` if there is nothing to compare.
+ */
+function calculateMeanAngleDifference(
+  angles1: JointAngles,
+  angles2: JointAngles,
+  joints: JointName[],
+  jointWeights: JointAngles,
+  angleCap: number
+): number {
+  let total = 0;
+  let totalWeight = 0;
+  joints.forEach(joint => {
+    total += jointWeights[joint] * Math.abs(angles1[joint] - angles2[joint]);
+    totalWeight += jointWeights[joint];
+  });
+  return totalWeight > 0 ? total / totalWeight : angleCap; // Nothing comparable: max dissimilarity
+}
+
+/**
+ * Converts a mean joint angle difference into the distance metric's units, so that
+ * `angleCap` degrees is as bad as `distanceCap` distance units.
+ */
+function angleDifferenceToDissimilarity(angleDifference: number, angleCap: number, distanceCap: number): number {
+  return (angleDifference / angleCap) * distanceCap;
+}
+
+/**
+ * Breaks the landmark distance down per landmark and per body region along the given frame pairs.
+ * `getComparedPoses` returns the (normalized) poses of a pair, or undefined to leave the pair out.
+ *
+ * @returns The breakdown, or undefined if no pair had both poses present.
+ */
+function calculateScoreBreakdown(
+  pairs: [number, number][],
+  getComparedPoses: (i: number, j: number) => [NormalizedLandmarkList, NormalizedLandmarkList] | undefined,
+  landmarkWeight: LandmarkWeightFn,
+  landmarkWeights: number[],
+  distanceCap: number
+): ScoreBreakdown | undefined {
+  const totals = new Array<number>(33).fill(0);
+  const weights = new Array<number>(33).fill(0);
+  let comparedPairs = 0;
+  for (const [i, j] of pairs) {
+    const poses = getComparedPoses(i, j);
+    if (!poses) continue;
+    for (let k = 0; k < 33; k++) {
+      const lm1 = poses[0][k] as Landmark;
+      const lm2 = poses[1][k] as Landmark;
+      const weight = landmarkWeight(lm1, lm2, k);
+      totals[k] += weight * calculateEuclideanDistance(lm1, lm2);
+      weights[k] += weight;
+    }
+    comparedPairs++;
+  }
+  if (comparedPairs === 0) return undefined;
+
+  // A landmark that was never visible enough to compare gets the maximum error.
+  // The landmark's own weight cancels out, so errors are comparable between landmarks.
+  const errors: LandmarkError[] = totals.map((total, index) => ({
+    index,
+    name: LANDMARK_NAMES[index],
+    meanError: parseFloat((weights[index] > 0 ? total / weights[index] : distanceCap).toFixed(4)),
+  }));
+  const landmarks = errors.filter(lm => landmarkWeights[lm.index] > 0);
+  if (landmarks.length === 0) return undefined;
+
+  // Region scores weight each landmark's error by its weight.
+  const regions: Partial<Record<BodyRegion, number>> = {};
+  (Object.keys(BODY_REGIONS) as BodyRegion[]).forEach(region => {
+    const indices = BODY_REGIONS[region].filter(index => landmarkWeights[index] > 0);
+    if (indices.length === 0) return;
+    const totalWeight = indices.reduce((sum, index) => sum + landmarkWeights[index], 0);
+    const meanError = indices.reduce((sum, index) => sum + landmarkWeights[index] * errors[index].meanError, 0) / totalWeight;
+    regions[region] = parseFloat(dissimilarityToScore(meanError, distanceCap).toFixed(1));
+  });
+
+  const worstLandmark = landmarks.reduce((worst, lm) => (lm.meanError > worst.meanError ? lm : worst), landmarks[0]);
+
+  return { regions, landmarks, worstLandmark };
+}
+
+/**
+ * Finds the worst contiguous segments of an alignment path: runs of reliable steps whose
+ * dissimilarity is above the path's average. Segments are ranked by how far, in total, they
+ * exceed the average, so a long stretch of mistakes outranks a single-frame blip of similar height.
+ *
+ * @param alignmentPath The alignment path, with per-step dissimilarities.
+ * @param count Maximum number of segments to return.
+ * @returns Up to `count` segments, worst first.
+ */
+export function findWorstSegments(alignmentPath: AlignmentStep[], count: number): DissimilaritySegment[] {
+  const reliableSteps = alignmentPath.filter(step => step.reliable);
+  if (reliableSteps.length === 0 || count <= 0) return [];
+  const threshold = reliableSteps.reduce((sum, step) => sum + step.dissimilarity, 0) / reliableSteps.length;
+
+  const segments: (DissimilaritySegment & { excess: number })[] = [];
+  let current: (DissimilaritySegment & { excess: number; total: number }) | undefined;
+  const closeCurrent = () => {
+    if (!current) return;
+    const { total, ...segment } = current;
+    segment.meanDissimilarity = parseFloat((total / (segment.endStep - segment.startStep + 1)).toFixed(4));
+    segments.push(segment);
+    current = undefined;
+  };
+
+  alignmentPath.forEach((step, index) => {
+    if (!step.reliable || step.dissimilarity <= threshold) {
+      closeCurrent();
+      return;
+    }
+    if (!current) {
+      current = { startStep: index, endStep: index, peakStep: index, meanDissimilarity: 0, excess: 0, total: 0 };
+    }
+    current.endStep = index;
+    current.excess += step.dissimilarity - threshold;
+    current.total += step.dissimilarity;
+    if (step.dissimilarity > alignmentPath[current.peakStep].dissimilarity) current.peakStep = index;
+  });
+  closeCurrent();
+
+  return segments
+    .sort((a, b) => b.excess - a.excess)
+    .slice(0, count)
+    .map(({ excess, ...segment }) => {
+      const start = alignmentPath[segment.startStep];
+      const end = alignmentPath[segment.endStep];
+      if (start.time1 !== undefined) {
+        segment.startTime1 = start.time1;
+        segment.endTime1 = end.time1;
+      }
+      if (start.time2 !== undefined) {
+        segment.startTime2 = start.time2;
+        segment.endTime2 = end.time2;
+      }
+      return segment;
+    });
+}
+
+/**
+ * Finds the lowest-cost warping path through a cost matrix using dynamic time warping.
+ * The path starts at (0, 0), ends at (n-1, m-1) and only ever steps forward in either
+ * or both sequences.
+ *
+ * @param costMatrix costMatrix[i][j] is the cost of pairing element i of sequence 1 with element j of sequence 2.
+ * @param window Optional Sakoe-Chiba band radius. Pairings with |i - j| > window (after
+ *               scaling for unequal lengths) are not allowed.
+ * @returns The warping path as [i, j] pairs, from start to end.
+ */
+export function dynamicTimeWarping(costMatrix: number[][], window?: number): [number, number][] {
+  const n = costMatrix.length;
+  const m = n > 0 ? costMatrix[0].length : 0;
+  if (n === 0 || m === 0) return [];
+
+  // The band must be at least as wide as the length difference, or no path reaches (n-1, m-1).
+  const band = window === undefined ? Infinity : Math.max(window, Math.abs(n - m));
+  const inBand = (i: number, j: number) => Math.abs(i * (m / n) - j) <= band;
+
+  const accumulated: number[][] = Array.from({ length: n }, () => new Array<number>(m).fill(Infinity));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      if (!inBand(i, j)) continue;
+      const cost = costMatrix[i][j];
+      if (i === 0 && j === 0) {
+        accumulated[i][j] = cost;
+        continue;
+      }
+      const fromDiagonal = i > 0 && j > 0 ? accumulated[i - 1][j - 1] : Infinity;
+      const fromAbove = i > 0 ? accumulated[i - 1][j] : Infinity;
+      const fromLeft = j > 0 ? accumulated[i][j - 1] : Infinity;
+      accumulated[i][j] = cost + Math.min(fromDiagonal, fromAbove, fromLeft);
+    }
+  }
+
+  // Backtrack from the end, preferring the diagonal on ties so equal clips map frame-to-frame.
+  const path: [number, number][] = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    if (i === 0) {
+      j--;
+    } else if (j === 0) {
+      i--;
+    } else {
+      const diagonal = accumulated[i - 1][j - 1];
+      const above = accumulated[i - 1][j];
+      const left = accumulated[i][j - 1];
+      if (diagonal <= above && diagonal <= left) {
+        i--;
+        j--;
+      } else if (above <= left) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    path.push([i, j]);
+  }
+
+  return path.reverse();
+}
+
 /**
  * Calculates the similarity score between two sequences of pose landmarks.
  *
  * @param poseLandmarks1 Array of pose landmarks for video 1.
  * @param poseLandmarks2 Array of pose landmarks for video 2.
  * @param targetFrames The expected number of frames/landmark sets in each array.
- * @returns An object containing the similarity score (0-100) and an analysis text.
+ * @param options Optional settings, e.g. the frame alignment mode (defaults to 'index').
+ * @returns The similarity score (0-100), an analysis text and the frame alignment path
+ *          the score was computed along.
  */
 export function calculateSimilarity(
   poseLandmarks1: (NormalizedLandmarkList | undefined)[],
   poseLandmarks2: (NormalizedLandmarkList | undefined)[],
-  targetFrames: number
-): { score: number; analysisText: string } {
+  targetFrames: number,
+  options: SimilarityOptions = {}
+): SimilarityResult {
+  const alignment = options.alignment || 'index';
+  const metric = options.metric || 'distance';
+  const normalization: NormalizationOptions = {
+    center: !!options.normalization?.center,
+    scale: !!options.normalization?.scale,
+    rotate: !!options.normalization?.rotate,
+  };
+  const angleWeight = metric === 'angles' ? 1 : metric === 'blend' ? Math.max(0, Math.min(1, options.angleWeight ?? 0.5)) : 0;
+  const mirror = options.mirror || 'off';
+  const scoring = options.scoring || {};
+  const landmarkWeights = Array.from({ length: 33 }, (_, k) => Math.max(0, scoring.landmarkWeights?.[k] ?? 1));
+  const coordinateSpace = options.coordinateSpace || 'image';
+  const use3D = coordinateSpace === 'world';
+  const distanceCap = (scoring.distanceCap ?? NORMALIZATION_CAP) * (use3D ? WORLD_METERS_PER_IMAGE_UNIT : 1);
+  const angleCap = scoring.angleCap ?? ANGLE_NORMALIZATION_CAP_DEG;
+  const missingFramePenalty = scoring.missingFramePenalty ?? 1.0;
+  const bothMissingPenalty = scoring.bothMissingPenalty ?? 0.1;
+  // A joint counts as much as its landmarks do on average.
+  const jointWeights = {} as JointAngles;
+  JOINT_NAMES.forEach(joint => {
+    jointWeights[joint] = JOINT_LANDMARKS[joint].reduce((sum, k) => sum + landmarkWeights[k], 0) / JOINT_LANDMARKS[joint].length;
+  });
+
+  if (mirror === 'auto') {
+    const asFilmed = calculateSimilarity(poseLandmarks1, poseLandmarks2, targetFrames, { ...options, mirror: 'off' });
+    const mirroredResult = calculateSimilarity(poseLandmarks1, poseLandmarks2, targetFrames, { ...options, mirror: 'on' });
+    // Ties go to the orientation as filmed
+    const [best, other] = mirroredResult.score > asFilmed.score ? [mirroredResult, asFilmed] : [asFilmed, mirroredResult];
+    return {
+      ...best,
+      mirror,
+      analysisText: best.analysisText + (best.mirrored
+        ? `Mirrored orientation matched better (${other.score.toFixed(1)}% as filmed). `
+        : `Orientation as filmed matched better (${other.score.toFixed(1)}% mirrored). `),
+    };
+  }
+  const mirrored = mirror === 'on';
+
   // Input Validation
   if (
     poseLandmarks1.length !== targetFrames ||
@@ -49,100 +555,303 @@ export function calculateSimilarity(
     return {
       score: 0,
       analysisText: `Error: Landmark data length mismatch. ${errorMsg}`,
+      alignment,
+      metric,
+      normalization,
+      coordinateSpace,
+      mirror,
+      mirrored,
+      alignmentPath: [],
     };
   }
 
   if (targetFrames === 0) {
-    return { score: 0, analysisText: 'No frames to compare.' };
+    return { score: 0, analysisText: 'No frames to compare.', alignment, metric, normalization, coordinateSpace, mirror, mirrored, alignmentPath: [] };
   }
 
-  const frameDissimilarities: number[] = [];
-  let mismatchedFrames = 0; // Frames where one pose is missing
-
+  // Mirroring happens first, so visibility, normalization and angles all see the mirrored pose.
+  const landmarks1 = mirrored
+    ? poseLandmarks1.map(lms => getFrameStatus(lms) === 'valid' ? mirrorPose(lms, coordinateSpace) : lms)
+    : poseLandmarks1;
+  const statuses1 = landmarks1.map(getFrameStatus);
+  const statuses2 = poseLandmarks2.map(getFrameStatus);
+  let malformedFrames = 0;
   for (let i = 0; i < targetFrames; i++) {
-    const landmarks1 = poseLandmarks1[i]; // This is NormalizedLandmarkList
-    const landmarks2 = poseLandmarks2[i]; // This is NormalizedLandmarkList
-
-    if (landmarks1 && landmarks2) {
-      // Both poses are present, compare them
-      if (landmarks1.length !== 33 || landmarks2.length !== 33) {
-        // This shouldn't happen if MediaPipe provides standard 33 landmarks or undefined.
-        // If it does, it means the NormalizedLandmarkList is malformed or incomplete.
-        console.warn(`Frame ${i}: Unexpected number of landmarks. Vid1: ${landmarks1.length}, Vid2: ${landmarks2.length}. Skipping frame comparison.`);
-        frameDissimilarities.push(1.0); // Assign high dissimilarity
-        mismatchedFrames++;
-        continue;
-      }
+    if (statuses1[i] === 'malformed' || statuses2[i] === 'malformed') {
+      // This shouldn't happen if MediaPipe provides standard 33 landmarks or undefined.
+      // If it does, it means the NormalizedLandmarkList is malformed or incomplete.
+      console.warn(`Frame ${i}: Unexpected number of landmarks. Vid1: ${landmarks1[i]?.length}, Vid2: ${poseLandmarks2[i]?.length}. Skipping frame comparison.`);
+      malformedFrames++;
+    }
+  }
 
-      let currentFrameTotalDistance = 0;
-      let numComparedLandmarks = 0;
+  const frameCounts: FrameCounts = {
+    total: targetFrames,
+    missing1: statuses1.filter(status => status === 'missing').length,
+    missing2: statuses2.filter(status => status === 'missing').length,
+    malformed1: statuses1.filter(status => status === 'malformed').length,
+    malformed2: statuses2.filter(status => status === 'malformed').length,
+    mismatchedSteps: 0,
+  };
 
-      for (let j = 0; j < 33; j++) { // MediaPipe Pose has 33 landmarks
-        const lm1 = landmarks1[j] as Landmark; // Casting from NormalizedLandmark
-        const lm2 = landmarks2[j] as Landmark; // Casting from NormalizedLandmark
+  // Centering and scaling depend on one pose only, so they are applied once per frame.
+  const poses1 = landmarks1.map((lms, i) => statuses1[i] === 'valid' ? normalizePose(lms, normalization, coordinateSpace) : lms);
+  const poses2 = poseLandmarks2.map((lms, i) => statuses2[i] === 'valid' ? normalizePose(lms, normalization, coordinateSpace) : lms);
 
-        // Basic check if landmark objects exist (though MediaPipe usually guarantees 33 if list exists)
-        if (!lm1 || !lm2) {
-            // This case is unlikely if landmarks1 and landmarks2 are valid NormalizedLandmarkList
-            // and MediaPipe guarantees 33 landmarks per list.
-            continue; 
-        }
-        
-        // Optional: Visibility check (commented out as per prompt considerations)
-        // const threshold = 0.5;
-        // if ((lm1.visibility !== undefined && lm1.visibility < threshold) ||
-        //     (lm2.visibility !== undefined && lm2.visibility < threshold)) {
-        //   continue; // Skip less visible landmarks
-        // }
-
-        currentFrameTotalDistance += calculateEuclideanDistance(lm1, lm2);
-        numComparedLandmarks++;
-      }
+  const visibility = options.visibility;
+  const landmarkWeight = createLandmarkWeightFn(visibility, landmarkWeights);
+  const visibilityWeight = createLandmarkWeightFn(visibility, undefined);
+  const minVisibleLandmarks = visibility?.minVisibleLandmarks ?? 8;
 
-      if (numComparedLandmarks > 0) {
-        const avgFrameDissimilarity = currentFrameTotalDistance / numComparedLandmarks;
-        frameDissimilarities.push(avgFrameDissimilarity);
-      } else {
-        // All landmarks were skipped (e.g., by visibility) or lists were unexpectedly empty
-        frameDissimilarities.push(1.0); // Max dissimilarity
+  // Without visibility options every pair counts, with the fixed penalties for missing poses.
+  // With them, pairs lacking a pose or enough visible landmarks are unreliable and left out of the score.
+  const isReliablePair = (i: number, j: number): boolean => {
+    if (!visibility) return true;
+    if (statuses1[i] !== 'valid' || statuses2[j] !== 'valid') return false;
+    let visibleLandmarks = 0;
+    for (let k = 0; k < 33; k++) {
+      if (landmarkWeight(landmarks1[i][k], poseLandmarks2[j][k], k) > 0) visibleLandmarks++;
+    }
+    return visibleLandmarks >= minVisibleLandmarks;
+  };
+
+  // Joints whose landmarks all pass the visibility cutoff in both poses. Joint weights are applied separately.
+  const getComparableJoints = (i: number, j: number): JointName[] => {
+    if (!visibility) return JOINT_NAMES;
+    return JOINT_NAMES.filter(joint => JOINT_LANDMARKS[joint].every(k =>
+      visibilityWeight(landmarks1[i][k], poseLandmarks2[j][k], k) > 0));
+  };
+
+  // Returns the poses to compare for a pair of valid frames, with pose 1 rotated onto pose 2 if requested.
+  const getComparedPoses = (i: number, j: number): [NormalizedLandmarkList, NormalizedLandmarkList] | undefined => {
+    if (statuses1[i] !== 'valid' || statuses2[j] !== 'valid') return undefined;
+    return [normalization.rotate ? procrustesRotate(poses1[i], poses2[j], coordinateSpace) : poses1[i], poses2[j]];
+  };
+
+  // Joint angles are computed once per frame, as DTW compares every frame with every other frame.
+  const angles1 = angleWeight > 0 ? poses1.map((lms, i) => statuses1[i] === 'valid' ? calculateJointAngles(lms, use3D) : undefined) : [];
+  const angles2 = angleWeight > 0 ? poses2.map((lms, i) => statuses2[i] === 'valid' ? calculateJointAngles(lms, use3D) : undefined) : [];
+
+  // Both frames valid: metric-dependent dissimilarity. One pose missing or malformed: 1.0 by default.
+  // Both poses missing: 0.1 by default, as both frames are "empty" in the same way.
+  const frameDissimilarity = (i: number, j: number): number => {
+    if (statuses1[i] === 'missing' && statuses2[j] === 'missing') {
+      return bothMissingPenalty; // Low dissimilarity
+    }
+    if (statuses1[i] !== 'valid' || statuses2[j] !== 'valid') {
+      return missingFramePenalty; // Max dissimilarity
+    }
+    let dissimilarity = 0;
+    if (angleWeight < 1) {
+      const [compared1, compared2] = getComparedPoses(i, j);
+      dissimilarity += (1 - angleWeight) * calculateLandmarkDissimilarity(compared1, compared2, landmarkWeight);
+    }
+    if (angleWeight > 0) {
+      const meanAngleDifference = calculateMeanAngleDifference(angles1[i], angles2[j], getComparableJoints(i, j), jointWeights, angleCap);
+      dissimilarity += angleWeight * angleDifferenceToDissimilarity(meanAngleDifference, angleCap, distanceCap);
+    }
+    return dissimilarity;
+  };
+
+  let pairs: [number, number][];
+  if (alignment === 'dtw') {
+    const costMatrix = poses1.map((_, i) => poses2.map((__, j) => frameDissimilarity(i, j)));
+    pairs = dynamicTimeWarping(costMatrix, options.dtwWindow);
+  } else {
+    pairs = poses1.map((_, i) => [i, i] as [number, number]);
+  }
+
+  const alignmentPath: AlignmentStep[] = [];
+  let mismatchedFrames = 0; // Frames where one pose is missing (or malformed)
+  const angleDifferenceTotals = {} as JointAngles;
+  const angleComparedFrames = {} as JointAngles;
+  JOINT_NAMES.forEach(joint => {
+    angleDifferenceTotals[joint] = 0;
+    angleComparedFrames[joint] = 0;
+  });
+  const unreliableSteps: number[] = [];
+  let comparedWeight = 0;
+  let lowConfidenceWeight = 0;
+  const lowConfidenceThreshold = visibility?.lowConfidenceThreshold ?? 0.8;
+
+  for (const [i, j] of pairs) {
+    const reliable = isReliablePair(i, j);
+    const step: AlignmentStep = { index1: i, index2: j, dissimilarity: frameDissimilarity(i, j), reliable };
+    if (options.timestamps1) step.time1 = options.timestamps1[i];
+    if (options.timestamps2) step.time2 = options.timestamps2[j];
+    alignmentPath.push(step);
+    if (!reliable) {
+      unreliableSteps.push(alignmentPath.length - 1);
+      continue;
+    }
+    if (statuses1[i] === 'valid' && statuses2[j] === 'valid') {
+      if (angleWeight > 0) {
+        getComparableJoints(i, j).forEach(joint => {
+          angleDifferenceTotals[joint] += Math.abs(angles1[i][joint] - angles2[j][joint]);
+          angleComparedFrames[joint]++;
+        });
       }
-    } else if (landmarks1 || landmarks2) {
-      // One pose is missing
-      frameDissimilarities.push(1.0); // Max dissimilarity
+      if (visibility) {
+        for (let k = 0; k < 33; k++) {
+          const lm1 = landmarks1[i][k];
+          const lm2 = poseLandmarks2[j][k];
+          const weight = landmarkWeight(lm1, lm2, k);
+          comparedWeight += weight;
+          if (Math.min(lm1.visibility ?? 1, lm2.visibility ?? 1) < lowConfidenceThreshold) lowConfidenceWeight += weight;
+        }
+      }
+    } else if (!(statuses1[i] === 'missing' && statuses2[j] === 'missing')) {
       mismatchedFrames++;
-    } else {
-      // Both poses are missing
-      // Consider this low dissimilarity as both frames are "empty" similarly.
-      // Or, could be high if any pose is important. For now, low.
-      frameDissimilarities.push(0.1); // Low dissimilarity
     }
   }
 
-  if (frameDissimilarities.length === 0) {
+  frameCounts.mismatchedSteps = mismatchedFrames;
+
+  if (alignmentPath.length === 0) {
     // Should be caught by targetFrames === 0, but as a safeguard.
-    return { score: 0, analysisText: 'No frame dissimilarities calculated.' };
+    return { score: 0, analysisText: 'No frame dissimilarities calculated.', alignment, metric, normalization, coordinateSpace, mirror, mirrored, alignmentPath, frameCounts };
+  }
+
+  const confidence: ConfidenceReport | undefined = visibility
+    ? {
+        unreliableSteps,
+        lowConfidenceShare: parseFloat((comparedWeight > 0 ? lowConfidenceWeight / comparedWeight : 0).toFixed(3)),
+      }
+    : undefined;
+
+  const reliableSteps = alignmentPath.filter(step => step.reliable);
+  if (reliableSteps.length === 0) {
+    return {
+      score: 0,
+      analysisText: `No reliable frames to compare: all ${alignmentPath.length} frame(s) lacked a pose or enough visible landmarks.`,
+      alignment,
+      metric,
+      normalization,
+      coordinateSpace,
+      mirror,
+      mirrored,
+      alignmentPath,
+      confidence,
+      frameCounts,
+    };
+  }
+
+  let jointAngleDifferences: JointAngles | undefined;
+  let worstJoint: JointName | undefined;
+  if (angleWeight > 0 && JOINT_NAMES.some(joint => angleComparedFrames[joint] > 0)) {
+    jointAngleDifferences = {} as JointAngles;
+    JOINT_NAMES.forEach(joint => {
+      // A joint never visible enough to compare is reported as 0 rather than left out, to keep the shape stable.
+      const frames = angleComparedFrames[joint];
+      jointAngleDifferences[joint] = frames > 0 ? parseFloat((angleDifferenceTotals[joint] / frames).toFixed(1)) : 0;
+      if (jointWeights[joint] > 0 && (!worstJoint || jointAngleDifferences[joint] > jointAngleDifferences[worstJoint])) worstJoint = joint;
+    });
   }
 
   const overallAvgDissimilarity =
-    frameDissimilarities.reduce((sum, val) => sum + val, 0) /
-    frameDissimilarities.length;
+    reliableSteps.reduce((sum, step) => sum + step.dissimilarity, 0) /
+    reliableSteps.length;
 
   // Convert dissimilarity to similarity score (0-100)
-  // Score is 100 if dissimilarity is 0.
-  // Score is 0 if dissimilarity is NORMALIZATION_CAP or more.
-  const similarityScore = Math.max(0, (1 - overallAvgDissimilarity / NORMALIZATION_CAP)) * 100;
+  const similarityScore = dissimilarityToScore(overallAvgDissimilarity, distanceCap);
+  const scoreInterval = options.scoreInterval === false
+    ? undefined
+    : bootstrapScoreInterval(
+        reliableSteps.map(step => step.dissimilarity),
+        dissimilarity => dissimilarityToScore(dissimilarity, distanceCap),
+        options.scoreInterval
+      );
+
+  const breakdown = calculateScoreBreakdown(
+    pairs.filter((_, step) => alignmentPath[step].reliable),
+    getComparedPoses,
+    landmarkWeight,
+    landmarkWeights,
+    distanceCap
+  );
+
+  const worstSegments = findWorstSegments(alignmentPath, options.worstSegmentCount ?? 3);
+
+  // Derived from the compared (mirrored, centered, scaled) poses and compared along the same alignment.
+  const kinematics = options.kinematics
+    ? compareKinematics(computeKinematics(poses1, options.timestamps1), computeKinematics(poses2, options.timestamps2), pairs)
+    : undefined;
 
   let analysisText = `Overall similarity: ${similarityScore.toFixed(1)}%. `;
+  if (scoreInterval) {
+    analysisText += `${(scoreInterval.level * 100).toFixed(0)}% confidence interval: ${scoreInterval.lower.toFixed(1)}%-${scoreInterval.upper.toFixed(1)}%. `;
+  }
   analysisText += `Average dissimilarity per frame: ${overallAvgDissimilarity.toFixed(3)} (lower is better). `;
+  if (metric !== 'distance') {
+    analysisText += metric === 'angles'
+      ? 'Compared by joint angles. '
+      : `Compared by landmark distance and joint angles (angle weight ${angleWeight.toFixed(2)}). `;
+    if (worstJoint) {
+      analysisText += `Largest average joint angle difference: ${formatJointName(worstJoint)} (${jointAngleDifferences[worstJoint].toFixed(1)}°). `;
+    }
+  }
+  const normalizationSteps = [
+    normalization.center && 'centered on hips',
+    normalization.scale && 'scaled by torso length',
+    normalization.rotate && 'rotated to fit',
+  ].filter(Boolean);
+  if (normalizationSteps.length > 0) {
+    analysisText += `Poses ${normalizationSteps.join(', ')} before comparison. `;
+  }
+  if (use3D) {
+    analysisText += 'Compared in 3D world coordinates. ';
+  }
+  if (breakdown) {
+    const weakestRegion = (Object.keys(breakdown.regions) as BodyRegion[])
+      .reduce((worst, region) => (breakdown.regions[region] < breakdown.regions[worst] ? region : worst));
+    analysisText += `Weakest body region: ${formatBodyRegion(weakestRegion)} (${breakdown.regions[weakestRegion].toFixed(1)}%). `;
+    analysisText += `Largest landmark deviation: ${breakdown.worstLandmark.name}. `;
+  }
+  if (mirrored) {
+    analysisText += 'Short video mirrored (left and right swapped) before comparison. ';
+  }
+  if (alignment === 'dtw') {
+    analysisText += `Frames aligned with dynamic time warping (${alignmentPath.length} matched pairs). `;
+  }
+  if (kinematics) {
+    analysisText += `Kinematic similarity: ${kinematics.score.toFixed(1)}% (speed ${kinematics.speedScore.toFixed(1)}%, acceleration ${kinematics.accelerationScore.toFixed(1)}%, smoothness ${kinematics.smoothnessScore.toFixed(1)}%). `;
+  }
+  if (confidence) {
+    if (confidence.unreliableSteps.length > 0) {
+      analysisText += `${confidence.unreliableSteps.length} frame(s) marked unreliable (missing pose or too few visible landmarks) and left out. `;
+    }
+    analysisText += `${(confidence.lowConfidenceShare * 100).toFixed(0)}% of the compared landmark data is low-confidence. `;
+  }
+  if (malformedFrames > 0) {
+    analysisText += `Unexpected number of landmarks in ${malformedFrames} frame(s). `;
+  }
   if (mismatchedFrames > 0) {
     analysisText += `${mismatchedFrames} frame(s) had one pose missing. `;
   }
-  // Could add more details: e.g., identify frames with highest dissimilarity
-  // const maxDissimilarity = Math.max(...frameDissimilarities);
-  // analysisText += `Maximum dissimilarity in a single frame: ${maxDissimilarity.toFixed(3)}.`;
+  if (worstSegments.length > 0) {
+    const worst = worstSegments[0];
+    const where = worst.startTime1 !== undefined
+      ? `${worst.startTime1.toFixed(2)}s-${worst.endTime1.toFixed(2)}s`
+      : `frames ${alignmentPath[worst.startStep].index1 + 1}-${alignmentPath[worst.endStep].index1 + 1}`;
+    analysisText += `Worst segment: ${where}. `;
+  }
 
   return {
     score: parseFloat(similarityScore.toFixed(1)), // Ensure score is also to one decimal place
+    scoreInterval,
     analysisText,
+    alignment,
+    metric,
+    normalization,
+    coordinateSpace,
+    mirror,
+    mirrored,
+    alignmentPath,
+    worstSegments,
+    jointAngleDifferences,
+    breakdown,
+    confidence,
+    kinematics,
+    frameCounts,
   };
 }
@@ -0,0 +1,102 @@
+import { buildAnalysisReport, createStageTimer, ReportInput, ANALYSIS_REPORT_VERSION } from './analysis_report';
+import { ANALYSIS_RESPONSE_SCHEMA } from './analysis_report_schema';
+import { calculateSimilarity } from './analysis';
+import { matchKeyPoses } from './key_pose_matching';
+import { summarizeTrack, trackPeople } from './person_tracking';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+
+// Helper to create mock NormalizedLandmarkList
+const createMockLandmarks = (baseValue: number = 0, count: number = 33): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < count; i++) {
+    landmarks.push({ x: baseValue + i * 0.01, y: baseValue + i * 0.01, z: 0, visibility: 0.9 });
+  }
+  return landmarks;
+};
+
+// Validates a response as clients receive it, after JSON serialization. Returns the paths that do not conform.
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+const validateResponse = ajv.compile(ANALYSIS_RESPONSE_SCHEMA);
+const validate = (value: unknown): string[] => {
+  if (validateResponse(JSON.parse(JSON.stringify(value)))) return [];
+  return validateResponse.errors.map(error => `${error.instancePath || '/'}: ${error.message}`);
+};
+
+const video = { duration: 1, fps: 30, width: 640, height: 480, sampledFrames: 3 };
+
+const createInput = (poses1: (NormalizedLandmarkList | undefined)[], poses2: (NormalizedLandmarkList | undefined)[]): ReportInput => ({
+  similarity: calculateSimilarity(poses1, poses2, poses1.length, { timestamps1: [0, 0.5, 1], timestamps2: [0, 0.5, 1] }),
+  settings: { targetFrames: poses1.length, kinematics: false },
+  videos: { short: video, reference: video },
+  timing: { totalMs: 10, stagesMs: { analysis: 10 } },
+});
+
+describe('buildAnalysisReport', () => {
+  test('should report the score, per-frame data and the settings the similarity ran with', () => {
+    const poses = [createMockLandmarks(0.1), createMockLandmarks(0.2), createMockLandmarks(0.3)];
+    const input = createInput(poses, poses);
+    const report = buildAnalysisReport(input);
+
+    expect(report.version).toBe(ANALYSIS_REPORT_VERSION);
+    expect(report.score).toBe(input.similarity.score);
+    expect(report.frames).toHaveLength(3);
+    expect(report.frames[1]).toMatchObject({ index1: 1, index2: 1, time1: 0.5 });
+    expect(report.settings).toMatchObject({ targetFrames: 3, alignment: 'index', metric: 'distance', mirror: 'off', mirrored: false });
+    expect(report.frameCounts).toEqual({ total: 3, missing1: 0, missing2: 0, malformed1: 0, malformed2: 0, mismatchedSteps: 0 });
+    expect(report.warnings).toEqual([]);
+    expect(new Date(report.generatedAt).toISOString()).toBe(report.generatedAt);
+  });
+
+  test('should count missing frames and warn about them', () => {
+    const poses2 = [createMockLandmarks(0.1), createMockLandmarks(0.2), createMockLandmarks(0.3)];
+    const report = buildAnalysisReport(createInput([createMockLandmarks(0.1), undefined, createMockLandmarks(0.3)], poses2));
+
+    expect(report.frameCounts).toMatchObject({ missing1: 1, missing2: 0, mismatchedSteps: 1 });
+    expect(report.warnings.map(warning => warning.code)).toEqual(['missing_frames', 'mismatched_frames']);
+  });
+
+  test('should warn when the pose sequences do not match the target frame count', () => {
+    const report = buildAnalysisReport(createInput([createMockLandmarks(0.1)], [createMockLandmarks(0.1), createMockLandmarks(0.2)]));
+    expect(report.score).toBe(0);
+    expect(report.warnings[0].code).toBe('length_mismatch');
+    expect(report.frameCounts.total).toBe(1);
+  });
+
+  test('should conform to the response schema', () => {
+    const poses = [createMockLandmarks(0.1), undefined, createMockLandmarks(0.3)];
+    const keyPoses = matchKeyPoses(poses, poses, [{ time: 0, label: 'Start' }, { time: 0.5 }], { timestamps: [0, 0.5, 1], referenceTimestamps: [0, 0.5, 1] });
+    const report = buildAnalysisReport({
+      ...createInput(poses, poses),
+      settings: { targetFrames: 3, kinematics: false, profile: 'squat', smoothing: { method: 'one_euro' } },
+      keyPoses,
+      subjects: {
+        short: { tracks: trackPeople(poses.map(landmarks => (landmarks ? [{ landmarks }] : []))).map(summarizeTrack), selection: { type: 'auto' }, selectedTrack: 0 },
+      },
+    });
+    const response = {
+      success: true,
+      similarity_score: report.score,
+      analysis_text: 'text',
+      annotated_short_video_url: '/processed_videos/short.mp4',
+      annotated_reference_video_url: '/processed_videos/ref.mp4',
+      report,
+    };
+    expect(validate(response)).toEqual([]);
+    expect(validate({ ...response, report: { ...report, version: '0.1' } })).toEqual(['/report/version: must be equal to constant']);
+    expect(validate({ ...response, similarity_score: 120 })).toEqual(['/similarity_score: must be <= 100']);
+  });
+});
+
+describe('createStageTimer', () => {
+  test('should time each stage and the total', () => {
+    const times = [100, 150, 180, 180, 200];
+    const timer = createStageTimer(() => times.shift());
+    timer.mark('upload');
+    timer.mark('analysis');
+    timer.mark('analysis');
+    expect(timer.finish()).toEqual({ totalMs: 100, stagesMs: { upload: 50, analysis: 30 } });
+  });
+});
@@ -0,0 +1,249 @@
+import { AlignmentMode, AlignmentStep, DissimilaritySegment, FrameCounts, MirrorMode, SimilarityMetric, SimilarityResult, VisibilityOptions } from './analysis';
+import { JointAngles } from './joint_angles';
+import { KeyPoseReport } from './key_pose_matching';
+import { BodyRegion } from './landmarks';
+import { CoordinateSpace, NormalizationOptions } from './pose_normalization';
+import { SubjectTracking } from './person_tracking';
+import { RangeOfMotionReport } from './range_of_motion';
+import { RepetitionAnalysis, RepSignalSource } from './repetition_analysis';
+import { ScoreInterval } from './score_interval';
+import { SmoothingOptions } from './landmark_smoothing';
+import { TempoLabel, TempoAnalysis } from './tempo_analysis';
+
+/**
+ * Version of the `AnalysisReport` shape. The major version changes when fields are removed or
+ * change meaning, the minor version when fields are added.
+ */
+export const ANALYSIS_REPORT_VERSION = '1.5';
+
+/** A video as it went into the analysis. */
+export interface ReportVideo {
+  /** Duration in seconds. */
+  duration: number;
+  fps: number;
+  width: number;
+  height: number;
+  /** Number of frames sampled from the video and compared. */
+  sampledFrames: number;
+}
+
+/** The settings the analysis actually ran with, after defaults and the scoring profile were applied. */
+export interface ReportSettings {
+  targetFrames: number;
+  alignment: AlignmentMode;
+  metric: SimilarityMetric;
+  /** Weight of the angle metric in 'blend' mode, as requested. Undefined means the default. */
+  angleWeight?: number;
+  normalization: NormalizationOptions;
+  /** Whether image or world landmarks were compared. Added in 1.4. */
+  coordinateSpace: CoordinateSpace;
+  mirror: MirrorMode;
+  mirrored: boolean;
+  profile?: string;
+  visibility?: VisibilityOptions;
+  kinematics: boolean;
+  /** Temporal landmark smoothing applied before drawing and comparing. Added in 1.2. */
+  smoothing?: SmoothingOptions;
+  repSignal?: RepSignalSource;
+  rangeOfMotion?: { worldLandmarks: boolean; normativeRanges: boolean };
+}
+
+/** Scores (0-100) of individual aspects of the movement, next to the overall score. */
+export interface ReportSubScores {
+  regions?: Partial<Record<BodyRegion, number>>;
+  kinematics?: { speed: number; acceleration: number; smoothness: number; overall: number };
+  /** Similarity of each of the short video's reps to the reference rep, in order. */
+  repetitions?: number[];
+  tempo?: { speedRatio: number; label: TempoLabel };
+}
+
+export type ReportWarningCode =
+  | 'length_mismatch'
+  | 'missing_frames'
+  | 'malformed_frames'
+  | 'mismatched_frames'
+  | 'unreliable_frames'
+  | 'no_reliable_frames'
+  | 'low_confidence'
+  | 'rep_count_mismatch'
+  | 'no_reference_reps';
+
+/** Something that limits how far the report can be trusted. `code` is stable; `message` is for people. */
+export interface ReportWarning {
+  code: ReportWarningCode;
+  message: string;
+}
+
+/** Wall-clock time spent on the request, in milliseconds. */
+export interface ReportTiming {
+  totalMs: number;
+  /** Time per processing stage, in the order the stages ran. */
+  stagesMs: Record<string, number>;
+}
+
+/**
+ * Machine-readable result of `/api/analyze`. Unlike `analysisText`, fields here are stable within a
+ * major `version`; see `ANALYSIS_RESPONSE_SCHEMA` for the JSON Schema.
+ */
+export interface AnalysisReport {
+  version: typeof ANALYSIS_REPORT_VERSION;
+  /** ISO 8601 time the report was generated. */
+  generatedAt: string;
+  score: number;
+  /** Bootstrap confidence interval of `score`. Added in 1.1. */
+  scoreInterval?: ScoreInterval;
+  subScores: ReportSubScores;
+  /** Per-frame data: the aligned frame pairs with their dissimilarity and timestamps. */
+  frames: AlignmentStep[];
+  worstSegments: DissimilaritySegment[];
+  jointAngleDifferences?: JointAngles;
+  frameCounts: FrameCounts;
+  settings: ReportSettings;
+  warnings: ReportWarning[];
+  timing: ReportTiming;
+  videos: { short: ReportVideo; reference: ReportVideo };
+  rangeOfMotion?: RangeOfMotionReport;
+  /** Matches of the key poses marked on the reference. Added in 1.3. */
+  keyPoses?: KeyPoseReport;
+  /** The people tracked in each video and the one analyzed, for videos where a subject was chosen. Added in 1.5. */
+  subjects?: { short?: SubjectTracking; reference?: SubjectTracking };
+}
+
+export interface ReportInput {
+  similarity: SimilarityResult;
+  settings: Omit<ReportSettings, 'alignment' | 'metric' | 'normalization' | 'coordinateSpace' | 'mirror' | 'mirrored'>;
+  videos: { short: ReportVideo; reference: ReportVideo };
+  timing: ReportTiming;
+  repetitions?: { short: RepetitionAnalysis; reference: RepetitionAnalysis };
+  tempo?: TempoAnalysis;
+  rangeOfMotion?: RangeOfMotionReport;
+  keyPoses?: KeyPoseReport;
+  subjects?: { short?: SubjectTracking; reference?: SubjectTracking };
+}
+
+/** Records how long each processing stage takes. */
+export interface StageTimer {
+  /** Ends the current stage under `stage` and starts the next one. */
+  mark: (stage: string) => void;
+  /** The stage times so far and the total since the timer was created. */
+  finish: () => ReportTiming;
+}
+
+export function createStageTimer(now: () => number = Date.now): StageTimer {
+  const start = now();
+  let last = start;
+  const stagesMs: Record<string, number> = {};
+  return {
+    mark: stage => {
+      const time = now();
+      stagesMs[stage] = (stagesMs[stage] ?? 0) + (time - last);
+      last = time;
+    },
+    finish: () => ({ totalMs: now() - start, stagesMs: { ...stagesMs } }),
+  };
+}
+
+/** Collects what limits the analysis, in a fixed order. */
+function collectWarnings(input: ReportInput, frameCounts: FrameCounts): ReportWarning[] {
+  const { similarity, repetitions } = input;
+  const warnings: ReportWarning[] = [];
+  if (!similarity.frameCounts) {
+    warnings.push({ code: 'length_mismatch', message: similarity.analysisText });
+  }
+  if (frameCounts.missing1 > 0 || frameCounts.missing2 > 0) {
+    warnings.push({
+      code: 'missing_frames',
+      message: `No pose detected in ${frameCounts.missing1} short video frame(s) and ${frameCounts.missing2} reference frame(s).`,
+    });
+  }
+  if (frameCounts.malformed1 > 0 || frameCounts.malformed2 > 0) {
+    warnings.push({
+      code: 'malformed_frames',
+      message: `Unexpected number of landmarks in ${frameCounts.malformed1 + frameCounts.malformed2} frame(s).`,
+    });
+  }
+  if (frameCounts.mismatchedSteps > 0) {
+    warnings.push({ code: 'mismatched_frames', message: `${frameCounts.mismatchedSteps} compared frame pair(s) had one pose missing.` });
+  }
+  if (similarity.confidence) {
+    const unreliable = similarity.confidence.unreliableSteps.length;
+    if (unreliable > 0 && unreliable === similarity.alignmentPath.length) {
+      warnings.push({ code: 'no_reliable_frames', message: 'No frame pair had enough visible landmarks to be scored.' });
+    } else if (unreliable > 0) {
+      warnings.push({ code: 'unreliable_frames', message: `${unreliable} frame pair(s) lacked enough visible landmarks and were left out.` });
+    }
+    if (similarity.confidence.lowConfidenceShare > 0.3) {
+      warnings.push({
+        code: 'low_confidence',
+        message: `${(similarity.confidence.lowConfidenceShare * 100).toFixed(0)}% of the compared landmark data is low-confidence.`,
+      });
+    }
+  }
+  if (repetitions) {
+    if (repetitions.reference.repCount === 0) {
+      warnings.push({ code: 'no_reference_reps', message: 'No repetition was detected in the reference video.' });
+    } else if (repetitions.short.repCount !== repetitions.reference.repCount) {
+      warnings.push({
+        code: 'rep_count_mismatch',
+        message: `The short video has ${repetitions.short.repCount} rep(s), the reference ${repetitions.reference.repCount}.`,
+      });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Assembles the versioned report from the results of the individual analyses.
+ *
+ * @param input The similarity result, the settings and videos it ran on, timing and optional extra analyses.
+ * @returns The report.
+ */
+export function buildAnalysisReport(input: ReportInput): AnalysisReport {
+  const { similarity, repetitions, tempo } = input;
+  const frameCounts: FrameCounts = similarity.frameCounts ?? {
+    total: input.settings.targetFrames,
+    missing1: 0,
+    missing2: 0,
+    malformed1: 0,
+    malformed2: 0,
+    mismatchedSteps: 0,
+  };
+
+  const subScores: ReportSubScores = {};
+  if (similarity.breakdown) subScores.regions = similarity.breakdown.regions;
+  if (similarity.kinematics) {
+    const { speedScore, accelerationScore, smoothnessScore, score } = similarity.kinematics;
+    subScores.kinematics = { speed: speedScore, acceleration: accelerationScore, smoothness: smoothnessScore, overall: score };
+  }
+  if (repetitions && repetitions.short.reps.some(rep => rep.similarity !== undefined)) {
+    subScores.repetitions = repetitions.short.reps.map(rep => rep.similarity ?? 0);
+  }
+  if (tempo) subScores.tempo = { speedRatio: tempo.speedRatio, label: tempo.tempo };
+
+  return {
+    version: ANALYSIS_REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    score: similarity.score,
+    scoreInterval: similarity.scoreInterval,
+    subScores,
+    frames: similarity.alignmentPath,
+    worstSegments: similarity.worstSegments ?? [],
+    jointAngleDifferences: similarity.jointAngleDifferences,
+    frameCounts,
+    settings: {
+      ...input.settings,
+      alignment: similarity.alignment,
+      metric: similarity.metric,
+      normalization: similarity.normalization,
+      coordinateSpace: similarity.coordinateSpace,
+      mirror: similarity.mirror,
+      mirrored: similarity.mirrored,
+    },
+    warnings: collectWarnings(input, frameCounts),
+    timing: input.timing,
+    videos: input.videos,
+    rangeOfMotion: input.rangeOfMotion,
+    keyPoses: input.keyPoses,
+    subjects: input.subjects,
+  };
+}
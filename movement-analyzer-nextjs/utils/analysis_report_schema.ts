@@ -0,0 +1,171 @@
+import { ANALYSIS_REPORT_VERSION } from './analysis_report';
+
+const number = { type: 'number' };
+const integer = { type: 'integer', minimum: 0 };
+const score = { type: 'number', minimum: 0, maximum: 100 };
+const boolean = { type: 'boolean' };
+const string = { type: 'string' };
+
+/** An object with the given properties, all required unless listed in `optional`. */
+function object(properties: Record<string, object>, optional: string[] = []): object {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter(key => !optional.includes(key)),
+  };
+}
+
+const alignmentStep = object(
+  { index1: integer, index2: integer, dissimilarity: number, reliable: boolean, time1: number, time2: number },
+  ['time1', 'time2']
+);
+
+const worstSegment = object(
+  {
+    startStep: integer,
+    endStep: integer,
+    peakStep: integer,
+    meanDissimilarity: number,
+    startTime1: number,
+    endTime1: number,
+    startTime2: number,
+    endTime2: number,
+  },
+  ['startTime1', 'endTime1', 'startTime2', 'endTime2']
+);
+
+const box = object({ x: number, y: number, width: number, height: number });
+
+const subjectTracking = object({
+  tracks: { type: 'array', items: object({ id: integer, firstFrame: integer, lastFrame: integer, frameCount: integer, box }) },
+  selection: object({ type: { type: 'string', enum: ['auto', 'track', 'point', 'box'] } }),
+  selectedTrack: integer,
+});
+
+const scoreInterval = object({ lower: score, upper: score, margin: number, level: number, samples: integer });
+
+const video = object({ duration: number, fps: number, width: integer, height: integer, sampledFrames: integer });
+
+const jointRangeOfMotion = object(
+  {
+    joint: string,
+    min: number,
+    max: number,
+    minFrame: integer,
+    maxFrame: integer,
+    range: number,
+    reference: object({ min: number, max: number, range: number }),
+    percentOfReference: number,
+    normative: object({ min: number, max: number }),
+    percentOfNormative: number,
+    reachedNormativeRange: boolean,
+  },
+  ['reference', 'percentOfReference', 'normative', 'percentOfNormative', 'reachedNormativeRange']
+);
+
+const keyPoseMatch = object(
+  {
+    label: string,
+    referenceFrame: integer,
+    referenceTime: number,
+    matchedFrame: integer,
+    matchedTime: number,
+    score,
+    timeOffset: number,
+    intervalOffset: number,
+    error: string,
+  },
+  ['matchedFrame', 'matchedTime', 'timeOffset', 'intervalOffset', 'error']
+);
+
+const report = object(
+  {
+    version: { type: 'string', const: ANALYSIS_REPORT_VERSION },
+    generatedAt: { type: 'string', format: 'date-time' },
+    score,
+    scoreInterval,
+    subScores: object(
+      {
+        regions: { type: 'object', additionalProperties: score },
+        kinematics: object({ speed: score, acceleration: score, smoothness: score, overall: score }),
+        repetitions: { type: 'array', items: score },
+        tempo: object({ speedRatio: number, label: { type: 'string', enum: ['rushed', 'on_pace', 'slow'] } }),
+      },
+      ['regions', 'kinematics', 'repetitions', 'tempo']
+    ),
+    frames: { type: 'array', items: alignmentStep },
+    worstSegments: { type: 'array', items: worstSegment },
+    jointAngleDifferences: { type: 'object', additionalProperties: number },
+    frameCounts: object({ total: integer, missing1: integer, missing2: integer, malformed1: integer, malformed2: integer, mismatchedSteps: integer }),
+    settings: object(
+      {
+        targetFrames: integer,
+        alignment: { type: 'string', enum: ['index', 'dtw'] },
+        metric: { type: 'string', enum: ['distance', 'angles', 'blend'] },
+        angleWeight: number,
+        normalization: object({ center: boolean, scale: boolean, rotate: boolean }),
+        coordinateSpace: { type: 'string', enum: ['image', 'world'] },
+        mirror: { type: 'string', enum: ['off', 'on', 'auto'] },
+        mirrored: boolean,
+        profile: string,
+        visibility: object({ cutoff: number, weighting: boolean, minVisibleLandmarks: number, lowConfidenceThreshold: number }, ['weighting', 'minVisibleLandmarks', 'lowConfidenceThreshold']),
+        kinematics: boolean,
+        smoothing: object(
+          {
+            method: { type: 'string', enum: ['none', 'moving_average', 'savitzky_golay', 'one_euro'] },
+            window: integer,
+            polyOrder: integer,
+            minCutoff: number,
+            beta: number,
+          },
+          ['window', 'polyOrder', 'minCutoff', 'beta']
+        ),
+        repSignal: { type: 'object' },
+        rangeOfMotion: object({ worldLandmarks: boolean, normativeRanges: boolean }),
+      },
+      ['angleWeight', 'coordinateSpace', 'profile', 'visibility', 'smoothing', 'repSignal', 'rangeOfMotion']
+    ),
+    warnings: {
+      type: 'array',
+      items: object({
+        code: {
+          type: 'string',
+          enum: [
+            'length_mismatch', 'missing_frames', 'malformed_frames', 'mismatched_frames', 'unreliable_frames',
+            'no_reliable_frames', 'low_confidence', 'rep_count_mismatch', 'no_reference_reps',
+          ],
+        },
+        message: string,
+      }),
+    },
+    timing: object({ totalMs: number, stagesMs: { type: 'object', additionalProperties: number } }),
+    videos: object({ short: video, reference: video }),
+    rangeOfMotion: object({ joints: { type: 'array', items: jointRangeOfMotion }, use3D: boolean, framesAnalyzed: integer }),
+    keyPoses: object({ matches: { type: 'array', items: keyPoseMatch }, score, mirrored: boolean, text: string }),
+    subjects: object({ short: subjectTracking, reference: subjectTracking }, ['short', 'reference']),
+  },
+  ['scoreInterval', 'jointAngleDifferences', 'rangeOfMotion', 'keyPoses', 'subjects']
+);
+
+/**
+ * JSON Schema (draft-07) of a successful `/api/analyze` response. Only `report` and the fields
+ * every client relies on are described; the other top-level fields predate the report and
+ * may change without a version bump.
+ */
+export const ANALYSIS_RESPONSE_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: '/api/analyze-schema',
+  title: 'Movement analysis response',
+  ...object(
+    {
+      success: { type: 'boolean', const: true },
+      similarity_score: score,
+      similarity_score_interval: scoreInterval,
+      analysis_text: string,
+      annotated_short_video_url: string,
+      annotated_reference_video_url: string,
+      report,
+    },
+    ['similarity_score_interval']
+  ),
+};
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type * as ApiUpload from './api_upload';
+
+// Neither ffmpeg, the pose model nor worker threads are needed for the helpers tested here
+jest.mock('./video_processing', () => ({ extractFrames: jest.fn(), createVideoFromFrames: jest.fn(), computeFrameTimestamps: jest.fn() }));
+jest.mock('./video_metadata', () => ({ getVideoMetadata: jest.fn(), getSamplingFps: jest.fn() }));
+jest.mock('./frame_tasks', () => ({ estimatePeopleInFrames: jest.fn(), annotateFrames: jest.fn() }));
+jest.mock('./frame_worker_pool', () => ({ getFrameWorkerPool: () => undefined }));
+
+describe('api upload helpers', () => {
+  let dir: string;
+  let apiUpload: typeof ApiUpload;
+
+  beforeAll(() => {
+    // The upload directories are created under the working directory when the module loads, so keep them out of the tree
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-upload-'));
+    jest.spyOn(process, 'cwd').mockReturnValue(dir);
+    apiUpload = require('./api_upload');
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmdirSync(dir, { recursive: true });
+  });
+
+  test('should parse targetFrames, defaulting to 30 when missing or out of range', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(apiUpload.parseTargetFrames({ targetFrames: ['45'] }, 'run')).toBe(45);
+    expect(apiUpload.parseTargetFrames({}, 'run')).toBe(30);
+    expect(warn).not.toHaveBeenCalled();
+
+    expect(apiUpload.parseTargetFrames({ targetFrames: ['9'] }, 'run')).toBe(30);
+    expect(apiUpload.parseTargetFrames({ targetFrames: ['61'] }, 'run')).toBe(30);
+    expect(apiUpload.parseTargetFrames({ targetFrames: ['many'] }, 'run')).toBe(30);
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,167 @@
+import type { NextApiRequest } from 'next';
+import formidable, { Fields as FormidableFields, Files as FormidableFiles, Options as FormidableOptions } from 'formidable';
+import fs from 'fs';
+import path from 'path';
+import type { NormalizedLandmarkList, PoseFrameResult } from './pose_backend';
+import { extractFrames, createVideoFromFrames, computeFrameTimestamps } from './video_processing';
+import { getVideoMetadata, getSamplingFps, VideoMetadata } from './video_metadata';
+import { estimatePeopleInFrames, annotateFrames } from './frame_tasks';
+import { getFrameWorkerPool } from './frame_worker_pool';
+
+// The plumbing shared by the video analysis endpoints: parsing the upload, turning a video into
+// poses, rendering the annotated video and cleaning up after the run.
+
+export const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
+export const PROCESSED_VIDEOS_DIR_PUBLIC = path.join(process.cwd(), 'public', 'processed_videos'); // For final videos
+export const BASE_TEMP_DIR = path.join(process.cwd(), 'public', 'temp_processing'); // For intermediate files
+
+// Ensure directories exist
+[UPLOAD_DIR, PROCESSED_VIDEOS_DIR_PUBLIC, BASE_TEMP_DIR].forEach(dir => {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+});
+
+export interface FormidableParseResult {
+  fields: FormidableFields;
+  files: FormidableFiles;
+}
+
+export interface ApiErrorResponse {
+  success: false;
+  error: string;
+  details?: any;
+}
+
+/** A clip's frames and the pose estimated in each, with the clip's metadata and the frames' timestamps. */
+export interface ClipPoses {
+  metadata: VideoMetadata;
+  framePaths: string[];
+  results: PoseFrameResult[];
+  timestamps: number[];
+}
+
+/**
+ * Parses a multipart upload, storing the files in UPLOAD_DIR.
+ *
+ * @param options Formidable options, over the defaults of keeping extensions and a 200 MB file limit.
+ */
+export function parseUpload(req: NextApiRequest, options: FormidableOptions = {}): Promise<FormidableParseResult> {
+  const form = formidable({
+    uploadDir: UPLOAD_DIR,
+    keepExtensions: true,
+    maxFileSize: 200 * 1024 * 1024,
+    ...options,
+  });
+  return new Promise<FormidableParseResult>((resolve, reject) => {
+    form.parse(req, (err, parsedFields, parsedFiles) => {
+      if (err) return reject(err);
+      resolve({ fields: parsedFields, files: parsedFiles });
+    });
+  });
+}
+
+/** The "targetFrames" field (10-60), warning and defaulting to 30 if it is missing or invalid. */
+export function parseTargetFrames(fields: FormidableFields, runId: string): number {
+  const targetFramesValue = fields.targetFrames?.[0];
+  const targetFrames = typeof targetFramesValue === 'string' ? parseInt(targetFramesValue, 10) : 30;
+  if (isNaN(targetFrames) || targetFrames < 10 || targetFrames > 60) {
+    console.warn(`RunID ${runId}: Invalid targetFrames value. Defaulting to 30.`);
+    return 30;
+  }
+  return targetFrames;
+}
+
+/**
+ * Extracts frames from a clip and estimates the pose in each.
+ *
+ * @param filePath The uploaded video.
+ * @param label Identifies the clip in frame file names and logs.
+ * @param targetFrames Number of frames to sample.
+ * @param framesDir Where to extract the frames to; created if missing.
+ */
+export async function estimateClipPoses(filePath: string, label: string, targetFrames: number, framesDir: string): Promise<ClipPoses> {
+  const metadata = await getVideoMetadata(filePath);
+  fs.mkdirSync(framesDir, { recursive: true });
+  const framePaths = await extractFrames(filePath, label, targetFrames, framesDir);
+  const people = await estimatePeopleInFrames(framePaths, false, getFrameWorkerPool());
+  return {
+    metadata,
+    framePaths,
+    results: people.map(frame => frame[0] ?? {}),
+    timestamps: computeFrameTimestamps(metadata.duration, framePaths.length),
+  };
+}
+
+/**
+ * Draws the poses on a clip's frames, as frame_0000.png, frame_0001.png, ...
+ *
+ * @param framePaths The clip's frames, in order.
+ * @param poses The pose to draw on each frame.
+ * @param annotatedFramesDir Where to write the annotated frames; created if missing.
+ * @param captions Frame index -> caption to highlight that frame with.
+ */
+export async function annotateClip(
+  framePaths: string[],
+  poses: (NormalizedLandmarkList | undefined)[],
+  annotatedFramesDir: string,
+  captions: Map<number, string> = new Map()
+): Promise<void> {
+  fs.mkdirSync(annotatedFramesDir, { recursive: true });
+  await annotateFrames(framePaths.map((framePath, i) => ({
+    framePath,
+    landmarks: poses[i],
+    outputPath: path.join(annotatedFramesDir, `frame_${String(i).padStart(4, '0')}.png`),
+    caption: captions.get(i),
+  })), getFrameWorkerPool());
+}
+
+/**
+ * Encodes annotated frames (see `annotateClip`) into a video in PROCESSED_VIDEOS_DIR_PUBLIC, played
+ * back at the sampling rate so it lasts as long as the original.
+ *
+ * @param annotatedFramesDir The annotated frames.
+ * @param videoName File name of the annotated video.
+ * @param metadata The original video's metadata, for its size and sampling rate.
+ * @param frameCount Number of frames sampled from the original.
+ * @returns The annotated video's public URL.
+ */
+export async function encodeAnnotatedVideo(annotatedFramesDir: string, videoName: string, metadata: VideoMetadata, frameCount: number): Promise<string> {
+  await createVideoFromFrames(
+    annotatedFramesDir,
+    'frame_%04d.png',
+    path.join(PROCESSED_VIDEOS_DIR_PUBLIC, videoName),
+    getSamplingFps(metadata, frameCount),
+    { width: metadata.width, height: metadata.height }
+  );
+  return `/processed_videos/${videoName}`;
+}
+
+/** Annotates a clip's frames and encodes them into a video (see `annotateClip` and `encodeAnnotatedVideo`). @returns The video's public URL. */
+export async function renderAnnotatedVideo(
+  framePaths: string[],
+  poses: (NormalizedLandmarkList | undefined)[],
+  annotatedFramesDir: string,
+  videoName: string,
+  metadata: VideoMetadata,
+  captions?: Map<number, string>
+): Promise<string> {
+  await annotateClip(framePaths, poses, annotatedFramesDir, captions);
+  return encodeAnnotatedVideo(annotatedFramesDir, videoName, metadata, framePaths.length);
+}
+
+/** Deletes a run's uploaded files and its temporary directory, logging rather than throwing on failure. */
+export function cleanupRun(runId: string, runTempDir: string, uploadedFilePaths: string[]): void {
+  uploadedFilePaths.forEach(filePath => {
+    if (fs.existsSync(filePath)) {
+      fs.unlink(filePath, err => {
+        if (err) console.error(`RunID ${runId}: Error deleting uploaded file ${filePath}:`, err);
+      });
+    }
+  });
+  if (fs.existsSync(runTempDir)) {
+    fs.rm(runTempDir, { recursive: true, force: true }, err => {
+      if (err) console.error(`RunID ${runId}: Error deleting temp run directory ${runTempDir}:`, err);
+    });
+  }
+}
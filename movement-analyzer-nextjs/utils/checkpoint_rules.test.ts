@@ -0,0 +1,121 @@
+import path from 'path';
+import {
+  evaluateCheckpoints,
+  parseCheckpointRuleSet,
+  loadCheckpointRuleSet,
+  listCheckpointRuleSets,
+  CheckpointRuleSet,
+} from './checkpoint_rules';
+import { LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// The rule sets are read from disk, so these tests use the real fs rather than the mock in jest.setup.js
+jest.unmock('fs');
+
+const SHIPPED_RULES_DIR = path.join(__dirname, '..', 'checkpoint_rules');
+
+// Helper to create a side-on squat pose with both knees bent to the given angle (180 = standing).
+// The shins stay vertical, so the hips drop as the knees bend; the trunk stays upright.
+const createSquatPose = (kneeAngleDeg: number, heelY: number = 0.92): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.5, y: 0.1, z: 0, visibility: 0.9 });
+  }
+  const theta = (kneeAngleDeg * Math.PI) / 180;
+  const hip = { x: 0.5 + 0.2 * Math.sin(theta), y: 0.7 + 0.2 * Math.cos(theta), z: 0, visibility: 0.9 };
+  [
+    [LANDMARK.LEFT_HIP, LANDMARK.LEFT_KNEE, LANDMARK.LEFT_ANKLE, LANDMARK.LEFT_HEEL, LANDMARK.LEFT_SHOULDER],
+    [LANDMARK.RIGHT_HIP, LANDMARK.RIGHT_KNEE, LANDMARK.RIGHT_ANKLE, LANDMARK.RIGHT_HEEL, LANDMARK.RIGHT_SHOULDER],
+  ].forEach(([hipIndex, knee, ankle, heel, shoulder]) => {
+    landmarks[hipIndex] = { ...hip };
+    landmarks[knee] = { x: 0.5, y: 0.7, z: 0, visibility: 0.9 };
+    landmarks[ankle] = { x: 0.5, y: 0.9, z: 0, visibility: 0.9 };
+    landmarks[heel] = { x: 0.48, y: heelY, z: 0, visibility: 0.9 };
+    landmarks[shoulder] = { x: hip.x, y: hip.y - 0.3, z: 0, visibility: 0.9 };
+  });
+  return landmarks;
+};
+
+const depthRuleSet: CheckpointRuleSet = {
+  name: 'depth',
+  rules: [{ id: 'depth', when: 'lowest_point', left: { angle: 'left_knee' }, op: '<', right: 90 }],
+};
+
+describe('evaluateCheckpoints', () => {
+  test('should pass every shipped squat rule for a deep squat', () => {
+    const poses = [170, 120, 80, 120, 170].map(angle => createSquatPose(angle));
+    const report = evaluateCheckpoints(poses, loadCheckpointRuleSet('squat', SHIPPED_RULES_DIR));
+    expect(report.results.filter(result => !result.passed)).toEqual([]);
+    expect(report.passedCount).toBe(report.results.length);
+    expect(report.results.find(result => result.id === 'depth-left').frames).toEqual([2]);
+  });
+
+  test('should fail a moment rule with the frame and values involved', () => {
+    const poses = [170, 130, 110, 130, 170].map(angle => createSquatPose(angle));
+    const [result] = evaluateCheckpoints(poses, depthRuleSet, [0, 0.25, 0.5, 0.75, 1]).results;
+    expect(result.passed).toBe(false);
+    expect(result.failedFrames).toEqual([2]);
+    expect(result.failedTimes).toEqual([0.5]);
+    expect(result.observed.frame).toBe(2);
+    expect(result.observed.left).toBeCloseTo(110);
+    expect(result.observed.right).toBe(90);
+  });
+
+  test('should list every frame an "always" rule fails on, relative to the start', () => {
+    const poses = [createSquatPose(170), createSquatPose(120, 0.85), createSquatPose(80, 0.85), createSquatPose(170)];
+    const report = evaluateCheckpoints(poses, loadCheckpointRuleSet('squat', SHIPPED_RULES_DIR));
+    const heel = report.results.find(result => result.id === 'heels-grounded-left');
+    expect(heel.passed).toBe(false);
+    expect(heel.frames).toEqual([0, 1, 2, 3]);
+    expect(heel.failedFrames).toEqual([1, 2]);
+    expect(report.text).toContain('Left heel stays grounded');
+  });
+
+  test('should pass an "ever" rule if any frame holds and skip frames without a pose', () => {
+    const ruleSet: CheckpointRuleSet = {
+      name: 'ever',
+      rules: [{ id: 'bend', when: 'ever', left: { angle: 'right_knee' }, op: '<', right: 100 }],
+    };
+    const report = evaluateCheckpoints([createSquatPose(170), undefined, createSquatPose(95)], ruleSet);
+    expect(report.results[0]).toMatchObject({ passed: true, frames: [0, 2], failedFrames: [0] });
+    expect(report.framesAnalyzed).toBe(2);
+    expect(report.text).toContain('No pose detected in 1 frame(s)');
+  });
+
+  test('should fail every rule without any pose', () => {
+    const [result] = evaluateCheckpoints([undefined, undefined], depthRuleSet).results;
+    expect(result).toMatchObject({ passed: false, frames: [], error: 'No pose was detected in any frame.' });
+  });
+});
+
+describe('parseCheckpointRuleSet', () => {
+  test('should accept a valid rule set', () => {
+    expect(parseCheckpointRuleSet(depthRuleSet, 'test')).toBe(depthRuleSet);
+  });
+
+  test('should reject invalid rule sets and rules', () => {
+    const rule = depthRuleSet.rules[0];
+    expect(() => parseCheckpointRuleSet(null, 'test')).toThrow('must be a JSON object');
+    expect(() => parseCheckpointRuleSet({ name: 'a', rules: [] }, 'test')).toThrow('non-empty "rules" array');
+    expect(() => parseCheckpointRuleSet({ name: 'a', rules: [rule, rule] }, 'test')).toThrow('more than one rule "depth"');
+    expect(() => parseCheckpointRuleSet({ name: 'a', rules: [{ ...rule, when: 'middle' }] }, 'test')).toThrow('needs a "when"');
+    expect(() => parseCheckpointRuleSet({ name: 'a', rules: [{ ...rule, op: '==' }] }, 'test')).toThrow('needs an "op"');
+    expect(() => parseCheckpointRuleSet({ name: 'a', rules: [{ ...rule, left: { angle: 'left_wrist' } }] }, 'test'))
+      .toThrow('The left side of rule "depth" in checkpoint rule set test has an unknown angle "left_wrist".');
+    expect(() => parseCheckpointRuleSet({ name: 'a', rules: [{ ...rule, right: { landmark: 'left_heel', axis: 'w' } }] }, 'test'))
+      .toThrow('needs an axis');
+    expect(() => parseCheckpointRuleSet({ name: 'a', rules: [{ ...rule, right: { landmark: 'left_heel', axis: 'y', at: 'middle' } }] }, 'test'))
+      .toThrow('invalid "at" "middle"');
+  });
+});
+
+describe('listCheckpointRuleSets', () => {
+  test('should list the shipped rule sets', () => {
+    expect(listCheckpointRuleSets(SHIPPED_RULES_DIR).map(ruleSet => ruleSet.name)).toEqual(['push-up', 'squat']);
+  });
+
+  test('should reject unknown and invalid names', () => {
+    expect(() => loadCheckpointRuleSet('lunge', SHIPPED_RULES_DIR)).toThrow('Unknown checkpoint rule set "lunge"');
+    expect(() => loadCheckpointRuleSet('../squat', SHIPPED_RULES_DIR)).toThrow('Invalid checkpoint rule set name');
+  });
+});
@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { calculateJointAngles, JointAngles, JointName, JOINT_NAMES } from './joint_angles';
+import { LANDMARK, NUM_POSE_LANDMARKS } from './landmarks';
+
+/**
+ * Directory checkpoint rule sets are loaded from. Every `<name>.json` file in it is a rule set.
+ * Override with CHECKPOINT_RULES_DIR.
+ */
+export const CHECKPOINT_RULES_DIR = process.env.CHECKPOINT_RULES_DIR || path.join(process.cwd(), 'checkpoint_rules');
+
+/** A single frame of the clip, picked by the movement itself. */
+export type RuleMoment =
+  | 'start' // First frame with a pose
+  | 'end' // Last frame with a pose
+  | 'lowest_point' // Frame where the hips are lowest
+  | 'highest_point'; // Frame where the hips are highest
+
+/** Which frames a rule must hold on: one moment, every frame with a pose ('always') or at least one ('ever'). */
+export type RuleWhen = RuleMoment | 'always' | 'ever';
+
+export type RuleComparison = '<' | '<=' | '>' | '>=';
+
+/**
+ * A value a rule compares: a constant, a joint angle in degrees (see `calculateJointAngles`) or a
+ * landmark coordinate. Landmark coordinates are image-normalized, and y grows downwards, so "hips
+ * lower than knees" is `hip y > knee y`. A value is read at the frame being checked, unless `at`
+ * pins it to a moment, e.g. to compare with the starting position. `offset` is added to the value.
+ */
+export type RuleOperand =
+  | number
+  | { angle: JointName; at?: RuleMoment; offset?: number }
+  | { landmark: string; axis: 'x' | 'y' | 'z'; at?: RuleMoment; offset?: number };
+
+/** One technique rule: `left op right` must hold `when`. */
+export interface CheckpointRule {
+  id: string;
+  description?: string;
+  when: RuleWhen;
+  left: RuleOperand;
+  op: RuleComparison;
+  right: RuleOperand;
+}
+
+/** A named set of rules for one exercise, as stored in a rule set JSON file. */
+export interface CheckpointRuleSet {
+  name: string;
+  description?: string;
+  rules: CheckpointRule[];
+}
+
+export interface CheckpointResult {
+  id: string;
+  description?: string;
+  when: RuleWhen;
+  passed: boolean;
+  /** The frames the rule was checked on: the moment's frame, or every frame with a pose for 'always' and 'ever'. */
+  frames: number[];
+  /** Of those, the frames where the rule did not hold. */
+  failedFrames: number[];
+  /** Times in seconds of `failedFrames`, if timestamps were given. */
+  failedTimes?: number[];
+  /** Both sides of the comparison at the first failed frame, or at the first passing frame if the rule passed. */
+  observed?: { frame: number; left: number; right: number };
+  /** Why the rule could not be checked, e.g. no frame had a pose. Such rules fail. */
+  error?: string;
+}
+
+export interface CheckpointReport {
+  ruleSet: string;
+  results: CheckpointResult[];
+  passedCount: number;
+  framesAnalyzed: number;
+  text: string;
+}
+
+const RULE_SET_NAME_PATTERN = /^[a-z0-9_-]+$/i;
+const MOMENTS: RuleMoment[] = ['start', 'end', 'lowest_point', 'highest_point'];
+const WHENS: RuleWhen[] = [...MOMENTS, 'always', 'ever'];
+const COMPARISONS: RuleComparison[] = ['<', '<=', '>', '>='];
+const AXES = ['x', 'y', 'z'];
+
+function landmarkIndex(name: string): number | undefined {
+  return LANDMARK[name.toUpperCase() as keyof typeof LANDMARK];
+}
+
+/** Checks one operand, throwing a message without the rule context. */
+function validateOperand(operand: RuleOperand): void {
+  if (typeof operand === 'number') return;
+  if (!operand || typeof operand !== 'object') throw new Error('must be a number, an angle or a landmark coordinate');
+  if ('angle' in operand) {
+    if (!JOINT_NAMES.includes(operand.angle)) throw new Error(`has an unknown angle "${operand.angle}"`);
+  } else if ('landmark' in operand) {
+    if (typeof operand.landmark !== 'string' || landmarkIndex(operand.landmark) === undefined) {
+      throw new Error(`has an unknown landmark "${operand.landmark}"`);
+    }
+    if (!AXES.includes(operand.axis)) throw new Error(`needs an axis of ${AXES.join(', ')}`);
+  } else {
+    throw new Error('needs an "angle" or a "landmark"');
+  }
+  if (operand.at !== undefined && !MOMENTS.includes(operand.at)) throw new Error(`has an invalid "at" "${operand.at}"`);
+  if (operand.offset !== undefined && typeof operand.offset !== 'number') throw new Error('needs a numeric offset');
+}
+
+/**
+ * Validates a parsed rule set definition.
+ *
+ * @param definition The parsed JSON.
+ * @param source Where the definition came from, for error messages.
+ * @throws If the definition is not a valid rule set.
+ */
+export function parseCheckpointRuleSet(definition: unknown, source: string): CheckpointRuleSet {
+  if (!definition || typeof definition !== 'object') {
+    throw new Error(`Checkpoint rule set ${source} must be a JSON object.`);
+  }
+  const ruleSet = definition as CheckpointRuleSet;
+  if (typeof ruleSet.name !== 'string' || !RULE_SET_NAME_PATTERN.test(ruleSet.name)) {
+    throw new Error(`Checkpoint rule set ${source} needs a "name" of letters, digits, "-" or "_".`);
+  }
+  if (!Array.isArray(ruleSet.rules) || ruleSet.rules.length === 0) {
+    throw new Error(`Checkpoint rule set ${source} needs a non-empty "rules" array.`);
+  }
+  const ids = new Set<string>();
+  ruleSet.rules.forEach((rule, i) => {
+    if (!rule || typeof rule.id !== 'string' || !RULE_SET_NAME_PATTERN.test(rule.id)) {
+      throw new Error(`Rule ${i + 1} in checkpoint rule set ${source} needs an "id" of letters, digits, "-" or "_".`);
+    }
+    if (ids.has(rule.id)) throw new Error(`Checkpoint rule set ${source} has more than one rule "${rule.id}".`);
+    ids.add(rule.id);
+    if (!WHENS.includes(rule.when)) {
+      throw new Error(`Rule "${rule.id}" in checkpoint rule set ${source} needs a "when" of ${WHENS.join(', ')}.`);
+    }
+    if (!COMPARISONS.includes(rule.op)) {
+      throw new Error(`Rule "${rule.id}" in checkpoint rule set ${source} needs an "op" of ${COMPARISONS.join(', ')}.`);
+    }
+    (['left', 'right'] as const).forEach(side => {
+      try {
+        validateOperand(rule[side]);
+      } catch (error: any) {
+        throw new Error(`The ${side} side of rule "${rule.id}" in checkpoint rule set ${source} ${error.message}.`);
+      }
+    });
+  });
+  return ruleSet;
+}
+
+/**
+ * Loads a rule set by name from `<dir>/<name>.json`.
+ *
+ * @throws If the name is invalid, no such rule set exists or the file is not a valid rule set.
+ */
+export function loadCheckpointRuleSet(name: string, dir: string = CHECKPOINT_RULES_DIR): CheckpointRuleSet {
+  if (!RULE_SET_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid checkpoint rule set name "${name}".`);
+  }
+  const filePath = path.join(dir, `${name}.json`);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Unknown checkpoint rule set "${name}".`);
+  }
+  const ruleSet = parseCheckpointRuleSet(JSON.parse(fs.readFileSync(filePath, 'utf-8')), `"${name}"`);
+  if (ruleSet.name !== name) {
+    throw new Error(`Checkpoint rule set file "${name}.json" declares the name "${ruleSet.name}".`);
+  }
+  return ruleSet;
+}
+
+/**
+ * Lists the valid rule sets in `dir`, sorted by name. Invalid files are skipped with a warning.
+ */
+export function listCheckpointRuleSets(dir: string = CHECKPOINT_RULES_DIR): CheckpointRuleSet[] {
+  if (!fs.existsSync(dir)) return [];
+  const ruleSets: CheckpointRuleSet[] = [];
+  fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .forEach(file => {
+      try {
+        ruleSets.push(loadCheckpointRuleSet(path.basename(file, '.json'), dir));
+      } catch (error: any) {
+        console.warn(`Skipping checkpoint rule set ${file}: ${error.message}`);
+      }
+    });
+  return ruleSets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function compare(left: number, op: RuleComparison, right: number): boolean {
+  switch (op) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+}
+
+/** Finds the frame of each moment among the frames with a pose. */
+function findMoments(poses: (NormalizedLandmarkList | undefined)[], validFrames: number[]): Record<RuleMoment, number> {
+  const hipHeight = (frame: number) => (poses[frame][LANDMARK.LEFT_HIP].y + poses[frame][LANDMARK.RIGHT_HIP].y) / 2;
+  // Image y grows downwards, so the lowest point has the largest hip y.
+  return {
+    start: validFrames[0],
+    end: validFrames[validFrames.length - 1],
+    lowest_point: validFrames.reduce((lowest, frame) => (hipHeight(frame) > hipHeight(lowest) ? frame : lowest)),
+    highest_point: validFrames.reduce((highest, frame) => (hipHeight(frame) < hipHeight(highest) ? frame : highest)),
+  };
+}
+
+/**
+ * Checks a rule set against a pose sequence, e.g. from `estimatePosesForFrames`. No reference
+ * video is needed.
+ *
+ * @param poses Pose landmarks per frame (undefined where no pose was detected).
+ * @param ruleSet The rules to check.
+ * @param timestamps Time in seconds of each frame, to timestamp failed frames.
+ * @returns Pass or fail per rule, with the frames involved.
+ */
+export function evaluateCheckpoints(
+  poses: (NormalizedLandmarkList | undefined)[],
+  ruleSet: CheckpointRuleSet,
+  timestamps?: number[]
+): CheckpointReport {
+  const validFrames = poses
+    .map((landmarks, frame) => (landmarks && landmarks.length === NUM_POSE_LANDMARKS ? frame : -1))
+    .filter(frame => frame >= 0);
+  const moments = validFrames.length > 0 ? findMoments(poses, validFrames) : undefined;
+  const angleCache = new Map<number, JointAngles>();
+  const anglesAt = (frame: number) => {
+    if (!angleCache.has(frame)) angleCache.set(frame, calculateJointAngles(poses[frame]));
+    return angleCache.get(frame);
+  };
+  const valueAt = (operand: RuleOperand, frame: number): number => {
+    if (typeof operand === 'number') return operand;
+    const at = operand.at !== undefined ? moments[operand.at] : frame;
+    const value = 'angle' in operand ? anglesAt(at)[operand.angle] : poses[at][landmarkIndex(operand.landmark)][operand.axis];
+    return value + (operand.offset ?? 0);
+  };
+
+  const results: CheckpointResult[] = ruleSet.rules.map(rule => {
+    const base = { id: rule.id, description: rule.description, when: rule.when };
+    if (!moments) {
+      return { ...base, passed: false, frames: [], failedFrames: [], error: 'No pose was detected in any frame.' };
+    }
+    const frames = rule.when === 'always' || rule.when === 'ever' ? validFrames : [moments[rule.when]];
+    const checks = frames.map(frame => {
+      const left = valueAt(rule.left, frame);
+      const right = valueAt(rule.right, frame);
+      return { frame, left: parseFloat(left.toFixed(3)), right: parseFloat(right.toFixed(3)), holds: compare(left, rule.op, right) };
+    });
+    const failedFrames = checks.filter(check => !check.holds).map(check => check.frame);
+    const passed = rule.when === 'ever' ? failedFrames.length < checks.length : failedFrames.length === 0;
+    const deciding = passed ? checks.find(check => check.holds) : checks.find(check => !check.holds);
+    return {
+      ...base,
+      passed,
+      frames,
+      failedFrames,
+      failedTimes: timestamps ? failedFrames.map(frame => timestamps[frame]) : undefined,
+      observed: { frame: deciding.frame, left: deciding.left, right: deciding.right },
+    };
+  });
+
+  const passedCount = results.filter(result => result.passed).length;
+  let text = `${passedCount} of ${results.length} checkpoint(s) passed (${ruleSet.name}). `;
+  const failed = results.filter(result => !result.passed);
+  if (failed.length > 0) {
+    text += `Failed: ${failed.map(result => result.description ?? result.id).join('; ')}. `;
+  }
+  if (validFrames.length < poses.length) {
+    text += `No pose detected in ${poses.length - validFrames.length} frame(s); those were not checked. `;
+  }
+  return { ruleSet: ruleSet.name, results, passedCount, framesAnalyzed: validFrames.length, text: text.trim() };
+}
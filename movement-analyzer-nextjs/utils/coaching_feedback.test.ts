@@ -0,0 +1,105 @@
+import { generateFeedback } from './coaching_feedback';
+import { calculateSimilarity } from './analysis';
+import { LANDMARK } from './landmarks';
+import { mirrorPose } from './pose_normalization';
+import { RepetitionAnalysis } from './repetition_analysis';
+import { analyzeTempo } from './tempo_analysis';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose whose left knee is bent to the given angle (180 = straight).
+const createKneePose = (kneeAngleDeg: number): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.3 + (i % 6) * 0.08, y: 0.1 + Math.floor(i / 6) * 0.12, z: 0, visibility: 0.9 });
+  }
+  const theta = (kneeAngleDeg * Math.PI) / 180;
+  landmarks[LANDMARK.LEFT_HIP] = { x: 0.5, y: 0.5, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_KNEE] = { x: 0.5, y: 0.7, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_ANKLE] = { x: 0.5 + 0.2 * Math.sin(theta), y: 0.7 - 0.2 * Math.cos(theta), z: 0, visibility: 0.9 };
+  return landmarks;
+};
+
+// Helper to build a minimal rep analysis with one rep per [start, bottom, end] triple.
+const createRepAnalysis = (reps: [number, number, number][], duration?: number): RepetitionAnalysis => ({
+  source: { type: 'joint', joint: 'left_knee' },
+  repCount: reps.length,
+  reps: reps.map(([startFrame, bottomFrame, endFrame]) => ({ startFrame, bottomFrame, endFrame, duration, phases: [] })),
+  signal: [],
+  averageDuration: duration,
+});
+
+describe('generateFeedback', () => {
+  const reference = Array.from({ length: 8 }, () => createKneePose(170));
+
+  test('should call out a joint that is off for several frames, with its frame range', () => {
+    const poses1 = reference.map((pose, i) => (i >= 2 && i <= 4 ? createKneePose(130) : pose));
+    const similarity = calculateSimilarity(poses1, reference, 8, { timestamps1: poses1.map((_, i) => i * 0.1) });
+    const { cues, text } = generateFeedback({ poses1, poses2: reference, similarity });
+
+    expect(cues[0]).toMatchObject({ category: 'joint_angle', joint: 'left_knee', severity: 'high', startFrame: 2, endFrame: 4 });
+    expect(cues[0].message).toContain('Your left knee bends more than the reference by about 40°');
+    expect(cues[0].message).toContain('frames 3–5 (0.20s–0.40s)');
+    expect(text).toContain(cues[0].message);
+  });
+
+  test('should name the side the user moved, not the mirrored one, when their poses were mirrored', () => {
+    // Filmed facing the other way: the user's bent knee is their right one, which the mirrored comparison sees as left
+    const poses1 = reference.map((pose, i) => mirrorPose(i >= 2 && i <= 4 ? createKneePose(130) : pose));
+    const similarity = calculateSimilarity(poses1, reference, 8, { mirror: 'on' });
+    const { cues } = generateFeedback({ poses1, poses2: reference, similarity });
+
+    expect(similarity.mirrored).toBe(true);
+    expect(cues[0]).toMatchObject({ category: 'joint_angle', joint: 'right_knee', startFrame: 2, endFrame: 4 });
+    expect(cues[0].message).toContain('Your right knee bends more than the reference');
+  });
+
+  test('should ignore single-frame blips and small differences', () => {
+    const poses1 = reference.map((pose, i) => (i === 3 ? createKneePose(120) : i === 5 ? createKneePose(160) : pose));
+    const similarity = calculateSimilarity(poses1, reference, 8);
+    const { cues } = generateFeedback({ poses1, poses2: reference, similarity });
+    expect(cues.filter(cue => cue.category === 'joint_angle')).toHaveLength(0);
+  });
+
+  test('should praise a close match', () => {
+    const similarity = calculateSimilarity(reference, reference, 8);
+    const { cues, text } = generateFeedback({ poses1: reference, poses2: reference, similarity });
+    expect(cues).toEqual([]);
+    expect(text).toContain('closely matches the reference');
+  });
+
+  test('should point out reaching depth later than the reference', () => {
+    const similarity = calculateSimilarity(reference, reference, 8);
+    const repetitions = { short: createRepAnalysis([[0, 7, 8]]), reference: createRepAnalysis([[0, 4, 8]]) };
+    const { cues } = generateFeedback({ poses1: reference, poses2: reference, similarity, repetitions });
+    expect(cues.map(cue => cue.message)).toContain('You reach depth later than the reference: descend faster and spend less of the rep on the way down.');
+  });
+
+  test('should point out rushed reps', () => {
+    const similarity = calculateSimilarity(reference, reference, 8);
+    const repetitions = { short: createRepAnalysis([[0, 4, 8]], 1), reference: createRepAnalysis([[0, 4, 8]], 2) };
+    const { cues } = generateFeedback({ poses1: reference, poses2: reference, similarity, repetitions });
+    expect(cues.find(cue => cue.category === 'tempo').message).toContain('slow down');
+  });
+
+  test('should point out a slower overall tempo', () => {
+    const poses = Array.from({ length: 8 }, (_, i) => createKneePose(170 - i * 10));
+    const timestamps1 = poses.map((_, i) => i * 0.2);
+    const timestamps2 = poses.map((_, i) => i * 0.1);
+    const similarity = calculateSimilarity(poses, poses, 8, { timestamps1, timestamps2 });
+    const tempo = analyzeTempo({
+      poses1: poses, poses2: poses, timestamps1, timestamps2, clipDuration1: 1.4, clipDuration2: 0.7, alignmentPath: similarity.alignmentPath,
+    });
+    const { cues } = generateFeedback({ poses1: poses, poses2: poses, similarity, tempo });
+    expect(cues).toHaveLength(1);
+    expect(cues[0]).toMatchObject({ category: 'tempo', severity: 'medium' });
+    expect(cues[0].message).toContain('speed up');
+  });
+
+  test('should order cues by severity and respect maxCues', () => {
+    const poses1 = reference.map((pose, i) => (i >= 2 && i <= 4 ? createKneePose(130) : i >= 6 ? createKneePose(150) : pose));
+    const similarity = calculateSimilarity(poses1, reference, 8);
+    const { cues } = generateFeedback({ poses1, poses2: reference, similarity }, { maxCues: 1 });
+    expect(cues).toHaveLength(1);
+    expect(cues[0].severity).toBe('high');
+  });
+});
@@ -0,0 +1,332 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { AlignmentStep, SimilarityResult } from './analysis';
+import { calculateJointAngles, formatJointName, JointAngles, JointName, JOINT_LANDMARKS, JOINT_NAMES } from './joint_angles';
+import { BodyRegion, formatBodyRegion, MIRRORED_LANDMARK, NUM_POSE_LANDMARKS } from './landmarks';
+import { mirrorPose } from './pose_normalization';
+import { RepetitionAnalysis } from './repetition_analysis';
+import { TempoAnalysis } from './tempo_analysis';
+
+export type CueSeverity = 'high' | 'medium' | 'low' | 'info';
+
+/** What a cue is about, so a frontend can group or filter cues. */
+export type CueCategory = 'joint_angle' | 'body_region' | 'timing' | 'tempo' | 'smoothness' | 'recording';
+
+/** A single, actionable piece of feedback. */
+export interface CoachingCue {
+  category: CueCategory;
+  severity: CueSeverity;
+  message: string;
+  joint?: JointName;
+  region?: BodyRegion;
+  /** First and last frame (0-based) of the user's video the cue refers to. */
+  startFrame?: number;
+  endFrame?: number;
+  /** The same range in seconds, if timestamps were available. */
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface CoachingFeedback {
+  /** Cues in priority order, most important first. */
+  cues: CoachingCue[];
+  /** The cues as a single paragraph. */
+  text: string;
+}
+
+export interface FeedbackOptions {
+  /** Signed joint angle difference (degrees) above which a joint is called out. Defaults to 15. */
+  angleThreshold?: number;
+  /** Minimum number of consecutive alignment steps a joint must be off for. Defaults to 2. */
+  minFrames?: number;
+  /** Maximum number of cues returned. Defaults to 8. */
+  maxCues?: number;
+}
+
+export interface FeedbackInput {
+  /** Pose landmarks per frame of the user's video, as passed to `calculateSimilarity`. */
+  poses1: (NormalizedLandmarkList | undefined)[];
+  /** Pose landmarks per frame of the reference video. */
+  poses2: (NormalizedLandmarkList | undefined)[];
+  similarity: SimilarityResult;
+  repetitions?: { short: RepetitionAnalysis; reference: RepetitionAnalysis };
+  tempo?: TempoAnalysis;
+}
+
+const SEVERITY_ORDER: Record<CueSeverity, number> = { high: 0, medium: 1, low: 2, info: 3 };
+
+/** How a larger or smaller angle than the reference reads for each joint. */
+const JOINT_WORDING: Record<JointName, { larger: string; smaller: string }> = {
+  left_elbow: { larger: 'is straighter', smaller: 'bends more' },
+  right_elbow: { larger: 'is straighter', smaller: 'bends more' },
+  left_shoulder: { larger: 'flares wider', smaller: 'stays tighter to your body' },
+  right_shoulder: { larger: 'flares wider', smaller: 'stays tighter to your body' },
+  left_hip: { larger: 'is more open', smaller: 'flexes more' },
+  right_hip: { larger: 'is more open', smaller: 'flexes more' },
+  left_knee: { larger: 'is straighter', smaller: 'bends more' },
+  right_knee: { larger: 'is straighter', smaller: 'bends more' },
+  left_ankle: { larger: 'is more extended', smaller: 'flexes more' },
+  right_ankle: { larger: 'is more extended', smaller: 'flexes more' },
+  trunk_lean: { larger: 'leans further', smaller: 'stays more upright' },
+};
+
+/** A cue plus the magnitude used to rank cues of the same severity. */
+type RankedCue = CoachingCue & { magnitude: number };
+
+function severityForAngle(degrees: number): CueSeverity {
+  if (degrees >= 30) return 'high';
+  if (degrees >= 20) return 'medium';
+  return 'low';
+}
+
+function severityForScore(score: number): CueSeverity {
+  if (score < 40) return 'high';
+  if (score < 60) return 'medium';
+  return 'low';
+}
+
+/** Describes a range of the user's video, e.g. "frames 12–18 (0.40s–0.60s)". */
+function describeRange(startFrame: number, endFrame: number, startTime?: number, endTime?: number): string {
+  const frames = startFrame === endFrame ? `frame ${startFrame + 1}` : `frames ${startFrame + 1}–${endFrame + 1}`;
+  return startTime !== undefined && endTime !== undefined ? `${frames} (${startTime.toFixed(2)}s–${endTime.toFixed(2)}s)` : frames;
+}
+
+/** The same joint on the other side of the body: the one whose vertex is the mirrored landmark. The trunk maps to itself. */
+function mirroredJoint(joint: JointName): JointName {
+  if (joint === 'trunk_lean') return joint;
+  const vertex = MIRRORED_LANDMARK[JOINT_LANDMARKS[joint][1]];
+  return JOINT_NAMES.find(other => other !== 'trunk_lean' && JOINT_LANDMARKS[other][1] === vertex) ?? joint;
+}
+
+/**
+ * Finds runs of alignment steps where a joint is consistently more open (or more closed) than in
+ * the reference, and turns each into a cue with the run's mean difference. When the user's poses
+ * were mirrored, their left joints were compared as right ones, so cues name the side back.
+ */
+function findJointAngleCues(input: FeedbackInput, angleThreshold: number, minFrames: number): RankedCue[] {
+  const { similarity } = input;
+  const isValid = (lms: NormalizedLandmarkList | undefined) => !!lms && lms.length === NUM_POSE_LANDMARKS;
+  // Compare the same orientation and coordinate space the score was computed with.
+  const space = similarity.coordinateSpace || 'image';
+  const use3D = space === 'world';
+  const angles1 = input.poses1.map(lms => (isValid(lms) ? calculateJointAngles(similarity.mirrored ? mirrorPose(lms, space) : lms, use3D) : undefined));
+  const angles2 = input.poses2.map(lms => (isValid(lms) ? calculateJointAngles(lms, use3D) : undefined));
+
+  const cues: RankedCue[] = [];
+  JOINT_NAMES.forEach(joint => {
+    let run: { start: number; end: number; sign: number; total: number } | undefined;
+    const closeRun = () => {
+      if (run && run.end - run.start + 1 >= minFrames) cues.push(createJointCue(similarity.mirrored ? mirroredJoint(joint) : joint, run, similarity.alignmentPath));
+      run = undefined;
+    };
+
+    similarity.alignmentPath.forEach((step, index) => {
+      const a1: JointAngles | undefined = angles1[step.index1];
+      const a2: JointAngles | undefined = angles2[step.index2];
+      const difference = step.reliable && a1 && a2 ? a1[joint] - a2[joint] : 0;
+      const sign = Math.abs(difference) > angleThreshold ? Math.sign(difference) : 0;
+      if (run && sign !== run.sign) closeRun();
+      if (sign === 0) return;
+      if (!run) run = { start: index, end: index, sign, total: 0 };
+      run.end = index;
+      run.total += difference;
+    });
+    closeRun();
+  });
+  return cues;
+}
+
+function createJointCue(joint: JointName, run: { start: number; end: number; sign: number; total: number }, path: AlignmentStep[]): RankedCue {
+  const meanDifference = Math.abs(run.total / (run.end - run.start + 1));
+  const first = path[run.start];
+  const last = path[run.end];
+  const wording = run.sign > 0 ? JOINT_WORDING[joint].larger : JOINT_WORDING[joint].smaller;
+  const subject = joint === 'trunk_lean' ? 'Your trunk' : `Your ${formatJointName(joint)}`;
+  return {
+    category: 'joint_angle',
+    severity: severityForAngle(meanDifference),
+    message: `${subject} ${wording} than the reference by about ${Math.round(meanDifference)}° during ${describeRange(first.index1, last.index1, first.time1, last.time1)}.`,
+    joint,
+    startFrame: first.index1,
+    endFrame: last.index1,
+    startTime: first.time1,
+    endTime: last.time1,
+    magnitude: meanDifference,
+  };
+}
+
+/** Calls out body regions that score clearly worse than the rest. */
+function findRegionCues(similarity: SimilarityResult): RankedCue[] {
+  if (!similarity.breakdown) return [];
+  const regions = similarity.breakdown.regions;
+  return (Object.keys(regions) as BodyRegion[])
+    .filter(region => regions[region] < 70)
+    .map(region => ({
+      category: 'body_region' as CueCategory,
+      severity: severityForScore(regions[region]),
+      message: `Focus on your ${formatBodyRegion(region)}: it matches the reference only ${regions[region].toFixed(0)}% of the way.`,
+      region,
+      magnitude: 100 - regions[region],
+    }));
+}
+
+/** Compares rep count, rep duration and when in the rep the bottom is reached. */
+function findRepetitionCues(repetitions: FeedbackInput['repetitions']): RankedCue[] {
+  if (!repetitions || repetitions.reference.repCount === 0) return [];
+  const { short, reference } = repetitions;
+  const cues: RankedCue[] = [];
+
+  if (short.repCount !== reference.repCount) {
+    cues.push({
+      category: 'tempo',
+      severity: 'info',
+      message: `You did ${short.repCount} rep(s); the reference does ${reference.repCount}.`,
+      magnitude: Math.abs(short.repCount - reference.repCount),
+    });
+  }
+  if (short.repCount === 0) return cues;
+
+  // Where in the rep (0 = start, 1 = end) the bottom is reached, averaged over reps.
+  const bottomPosition = (analysis: RepetitionAnalysis) =>
+    analysis.reps.reduce((sum, rep) => sum + (rep.bottomFrame - rep.startFrame) / Math.max(1, rep.endFrame - rep.startFrame), 0) / analysis.repCount;
+  const lateness = bottomPosition(short) - bottomPosition(reference);
+  if (Math.abs(lateness) >= 0.1) {
+    cues.push({
+      category: 'timing',
+      severity: Math.abs(lateness) >= 0.2 ? 'medium' : 'low',
+      message: lateness > 0
+        ? 'You reach depth later than the reference: descend faster and spend less of the rep on the way down.'
+        : 'You reach depth earlier than the reference: control the descent rather than dropping into it.',
+      magnitude: Math.abs(lateness) * 100,
+    });
+  }
+
+  if (short.averageDuration !== undefined && reference.averageDuration !== undefined && reference.averageDuration > 0) {
+    const ratio = short.averageDuration / reference.averageDuration;
+    if (ratio < 0.8 || ratio > 1.25) {
+      cues.push({
+        category: 'tempo',
+        severity: ratio < 0.6 || ratio > 1.6 ? 'medium' : 'low',
+        message: `Your reps take ${short.averageDuration.toFixed(1)}s on average against the reference's ${reference.averageDuration.toFixed(1)}s: ${ratio < 1 ? 'slow down' : 'speed up'}.`,
+        magnitude: Math.abs(Math.log(ratio)) * 100,
+      });
+    }
+  }
+  return cues;
+}
+
+/** Flags jerky movement and a large speed mismatch. */
+function findKinematicCues(similarity: SimilarityResult): RankedCue[] {
+  const kinematics = similarity.kinematics;
+  if (!kinematics) return [];
+  const cues: RankedCue[] = [];
+  if (kinematics.smoothnessScore < 70) {
+    cues.push({
+      category: 'smoothness',
+      severity: severityForScore(kinematics.smoothnessScore),
+      message: 'Your movement is jerkier than the reference: move with more control through the whole range.',
+      magnitude: 100 - kinematics.smoothnessScore,
+    });
+  }
+  if (kinematics.speedScore < 60) {
+    const meanOf = (series: (number | undefined)[]) => {
+      const values = series.filter((value): value is number => typeof value === 'number');
+      return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    };
+    const faster = meanOf(kinematics.meanSpeed1) > meanOf(kinematics.meanSpeed2);
+    cues.push({
+      category: 'tempo',
+      severity: severityForScore(kinematics.speedScore),
+      message: faster ? 'You move noticeably faster than the reference.' : 'You move noticeably slower than the reference.',
+      magnitude: 100 - kinematics.speedScore,
+    });
+  }
+  return cues;
+}
+
+/** Calls out an overall tempo mismatch and the stretch of the movement furthest off pace. */
+function findTempoCues(tempo: TempoAnalysis | undefined): RankedCue[] {
+  if (!tempo) return [];
+  const severityForRatio = (ratio: number): CueSeverity => (ratio > 1.6 || ratio < 1 / 1.6 ? 'medium' : 'low');
+  const cues: RankedCue[] = [];
+  if (tempo.tempo !== 'on_pace') {
+    cues.push({
+      category: 'tempo',
+      severity: severityForRatio(tempo.speedRatio),
+      message: `Your movement takes ${tempo.movement1.duration.toFixed(1)}s against the reference's ${tempo.movement2.duration.toFixed(1)}s: ${tempo.tempo === 'rushed' ? 'slow down' : 'speed up'}.`,
+      startFrame: tempo.movement1.startFrame,
+      endFrame: tempo.movement1.endFrame,
+      startTime: tempo.movement1.startTime,
+      endTime: tempo.movement1.endTime,
+      magnitude: Math.abs(Math.log(tempo.speedRatio)) * 100,
+    });
+  }
+  const worst = tempo.flagged[0];
+  // A section that is off in the same way as the whole movement adds nothing.
+  if (worst && worst.tempo !== tempo.tempo) {
+    cues.push({
+      category: 'tempo',
+      severity: severityForRatio(worst.speedRatio),
+      message: `You move too ${worst.tempo === 'rushed' ? 'fast' : 'slowly'} during ${worst.name} (${worst.startTime1.toFixed(2)}s–${worst.endTime1.toFixed(2)}s), at ${worst.speedRatio.toFixed(1)}x the reference's pace.`,
+      startTime: worst.startTime1,
+      endTime: worst.endTime1,
+      magnitude: Math.abs(Math.log(worst.speedRatio)) * 100,
+    });
+  }
+  return cues;
+}
+
+/** Notes on the recording itself, which affect how far the other cues can be trusted. */
+function findRecordingCues(similarity: SimilarityResult): RankedCue[] {
+  const cues: RankedCue[] = [];
+  if (similarity.confidence && similarity.confidence.lowConfidenceShare > 0.3) {
+    cues.push({
+      category: 'recording',
+      severity: 'info',
+      message: 'Much of your body was hard to see in the video; film with your whole body in frame and good lighting for more reliable feedback.',
+      magnitude: similarity.confidence.lowConfidenceShare * 100,
+    });
+  }
+  if (similarity.mirror === 'auto' && similarity.mirrored) {
+    cues.push({
+      category: 'recording',
+      severity: 'info',
+      message: 'You appear to be copying the reference like a mirror, so your left side was compared with its right side.',
+      magnitude: 0,
+    });
+  }
+  return cues;
+}
+
+/**
+ * Turns a similarity analysis into prioritized coaching cues.
+ * Cues are ordered by severity, then by how far off the movement is, and the joint angle cues
+ * name the stretch of the user's video they refer to.
+ *
+ * @param input The compared pose sequences and the analysis results.
+ * @param options Thresholds for calling out differences.
+ * @returns The cues, most important first, and the same cues as text.
+ */
+export function generateFeedback(input: FeedbackInput, options: FeedbackOptions = {}): CoachingFeedback {
+  const angleThreshold = options.angleThreshold ?? 15;
+  const minFrames = options.minFrames ?? 2;
+  const maxCues = options.maxCues ?? 8;
+
+  const ranked: RankedCue[] = [
+    ...findJointAngleCues(input, angleThreshold, minFrames),
+    ...findRegionCues(input.similarity),
+    ...findRepetitionCues(input.repetitions),
+    ...findKinematicCues(input.similarity),
+    ...findTempoCues(input.tempo),
+    ...findRecordingCues(input.similarity),
+  ];
+
+  const cues = ranked
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.magnitude - a.magnitude)
+    .slice(0, maxCues)
+    .map(({ magnitude, ...cue }) => cue);
+
+  const text = cues.length > 0
+    ? cues.map(cue => cue.message).join(' ')
+    : 'Your movement closely matches the reference. Keep it up!';
+  return { cues, text };
+}
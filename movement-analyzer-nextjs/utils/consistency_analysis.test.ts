@@ -0,0 +1,63 @@
+import { analyzeConsistency } from './consistency_analysis';
+import { LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose with the left elbow bent to the given angle (180 = straight)
+const createArmPose = (elbowAngleDeg: number): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.3 + (i % 6) * 0.08, y: 0.1 + Math.floor(i / 6) * 0.12, z: 0, visibility: 0.9 });
+  }
+  const theta = (elbowAngleDeg * Math.PI) / 180;
+  landmarks[LANDMARK.LEFT_SHOULDER] = { x: 0.5, y: 0.3, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_ELBOW] = { x: 0.5, y: 0.5, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_WRIST] = { x: 0.5 + 0.2 * Math.sin(theta), y: 0.5 - 0.2 * Math.cos(theta), z: 0, visibility: 0.9 };
+  return landmarks;
+};
+
+// An arm curl over six frames; `peak` is the smallest elbow angle reached in the middle
+const createCurl = (peak: number): NormalizedLandmarkList[] => [170, 140, peak, peak, 140, 170].map(createArmPose);
+
+describe('analyzeConsistency', () => {
+  test('should build a symmetric similarity matrix and find the most and least representative attempt', () => {
+    const attempts = [createCurl(60), createCurl(64), createCurl(68), createCurl(72), createCurl(130)];
+    // Only the elbow differs, which the angle metric picks up best
+    const analysis = analyzeConsistency(attempts, { similarity: { metric: 'angles' } });
+
+    expect(analysis.attemptCount).toBe(5);
+    expect(analysis.matrix[1][0]).toBe(analysis.matrix[0][1]);
+    expect(analysis.matrix[2][2]).toBe(100);
+    expect(analysis.mostRepresentative).toBe(2);
+    expect(analysis.leastRepresentative).toBe(4);
+    expect(analysis.meanSimilarity[4]).toBeLessThan(analysis.meanSimilarity[0]);
+    expect(analysis.consistencyScore).toBeLessThan(100);
+    expect(analysis.text).toContain('Most representative: attempt 3');
+  });
+
+  test('should locate where and in which joint the attempts vary', () => {
+    const timestamps = [0, 0.2, 0.4, 0.6, 0.8, 1];
+    const attempts = [createCurl(60), createCurl(90), createCurl(75)];
+    const analysis = analyzeConsistency(attempts, { timestamps: [timestamps, timestamps, timestamps] });
+
+    expect(analysis.frameVariation).toHaveLength(6);
+    expect(analysis.frameVariation[0].meanDissimilarity).toBeCloseTo(0);
+    expect(analysis.variableSegments[0]).toMatchObject({ startTime1: 0.4, endTime1: 0.6 });
+    const { jointVariation } = analysis;
+    // Spread of 60, 90 and 75 degrees at the two peak frames, none elsewhere, averaged over six frames
+    expect(jointVariation.left_elbow).toBeCloseTo(4.1);
+    expect(jointVariation.right_knee).toBeCloseTo(0);
+    expect(analysis.text).toContain('Most variable joint: left elbow');
+  });
+
+  test('should score every attempt against a reference', () => {
+    const analysis = analyzeConsistency([createCurl(120), createCurl(62)], { reference: createCurl(60) });
+    expect(analysis.referenceScores[1]).toBeGreaterThan(analysis.referenceScores[0]);
+    expect(analysis.bestAgainstReference).toBe(1);
+    expect(analysis.text).toContain('Closest to the reference: attempt 2');
+  });
+
+  test('should reject fewer than two attempts and sequences of different lengths', () => {
+    expect(() => analyzeConsistency([createCurl(60)])).toThrow('At least two attempts');
+    expect(() => analyzeConsistency([createCurl(60), createCurl(60).slice(1)])).toThrow('same number of frames');
+  });
+});
@@ -0,0 +1,192 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { AlignmentStep, calculateSimilarity, DissimilaritySegment, findWorstSegments, SimilarityOptions, SimilarityResult } from './analysis';
+import { calculateJointAngles, formatJointName, JointAngles, JointName, JOINT_NAMES } from './joint_angles';
+import { NUM_POSE_LANDMARKS } from './landmarks';
+
+/** How much the other attempts differ from the most representative one at one of its frames. */
+export interface AttemptFrameVariation {
+  frame: number;
+  time?: number;
+  /** Mean dissimilarity of the other attempts' matched frames to this frame. */
+  meanDissimilarity: number;
+}
+
+export interface ConsistencyAnalysis {
+  attemptCount: number;
+  /** Pairwise similarity scores (0-100), indexed by attempt. Symmetric, with 100 on the diagonal. */
+  matrix: number[][];
+  /** Mean similarity of each attempt to all the others. */
+  meanSimilarity: number[];
+  /** Mean of all pairwise scores: 100 means every attempt moved the same way. */
+  consistencyScore: number;
+  /** The attempt most similar to all others (the medoid) and the one least similar. */
+  mostRepresentative: number;
+  leastRepresentative: number;
+  /** Similarity of each attempt to the reference, if one was given. */
+  referenceScores?: number[];
+  bestAgainstReference?: number;
+  /** Per frame of the most representative attempt. */
+  frameVariation: AttemptFrameVariation[];
+  /**
+   * Stretches of the movement where the attempts differ most, worst first. Steps are frames of the
+   * most representative attempt (index1 and index2 are both that frame).
+   */
+  variableSegments: DissimilaritySegment[];
+  /** Standard deviation of each joint angle across the attempts in degrees, averaged over the movement. */
+  jointVariation?: JointAngles;
+  text: string;
+}
+
+export interface ConsistencyOptions {
+  /** Options for each pairwise comparison. The score interval is not computed for pairs. */
+  similarity?: SimilarityOptions;
+  /** Time in seconds of each frame, per attempt. */
+  timestamps?: number[][];
+  /** Pose sequence of a reference clip, to score every attempt against. */
+  reference?: (NormalizedLandmarkList | undefined)[];
+  referenceTimestamps?: number[];
+  /** How many of the most variable segments to report. Defaults to 3. */
+  segmentCount?: number;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(1));
+}
+
+function isValid(landmarks: NormalizedLandmarkList | undefined): boolean {
+  return !!landmarks && landmarks.length === NUM_POSE_LANDMARKS;
+}
+
+/** Standard deviation of each joint angle over the poses given, or undefined with fewer than two. */
+function jointSpread(poses: NormalizedLandmarkList[], use3D: boolean): JointAngles | undefined {
+  if (poses.length < 2) return undefined;
+  const angles = poses.map(landmarks => calculateJointAngles(landmarks, use3D));
+  const spread = {} as JointAngles;
+  JOINT_NAMES.forEach(joint => {
+    const mean = angles.reduce((sum, frameAngles) => sum + frameAngles[joint], 0) / angles.length;
+    spread[joint] = Math.sqrt(angles.reduce((sum, frameAngles) => sum + (frameAngles[joint] - mean) ** 2, 0) / angles.length);
+  });
+  return spread;
+}
+
+/**
+ * Scores how consistent several attempts of the same movement are with each other, by comparing
+ * every attempt with every other one using `calculateSimilarity`.
+ *
+ * @param attempts Pose sequences of the attempts, all with the same number of frames.
+ * @param options Similarity options, timestamps and an optional reference clip.
+ * @returns The similarity matrix, the most and least representative attempt and where the attempts vary.
+ * @throws If there are fewer than two attempts or the sequences differ in length.
+ */
+export function analyzeConsistency(attempts: (NormalizedLandmarkList | undefined)[][], options: ConsistencyOptions = {}): ConsistencyAnalysis {
+  if (attempts.length < 2) {
+    throw new Error('At least two attempts are needed to analyze consistency.');
+  }
+  const frameCount = attempts[0].length;
+  if (attempts.some(poses => poses.length !== frameCount) || (options.reference && options.reference.length !== frameCount)) {
+    throw new Error('All attempts (and the reference) need the same number of frames.');
+  }
+  const similarityOptions: SimilarityOptions = { ...options.similarity, scoreInterval: false };
+  const timestampsOf = (attempt: number) => options.timestamps?.[attempt];
+
+  // Both directions are compared, as mirroring and missing-frame handling are not symmetric; the matrix averages them.
+  const results: SimilarityResult[][] = attempts.map((poses1, i) =>
+    attempts.map((poses2, j) =>
+      i === j ? undefined : calculateSimilarity(poses1, poses2, frameCount, { ...similarityOptions, timestamps1: timestampsOf(i), timestamps2: timestampsOf(j) })
+    )
+  );
+  const pairScores = attempts.map((_, i) => attempts.map((__, j) => (i === j ? 100 : (results[i][j].score + results[j][i].score) / 2)));
+  // Attempts are ranked before rounding, so near-ties still pick the right one
+  const rawMeans = pairScores.map((row, i) => row.reduce((sum, score, j) => (i === j ? sum : sum + score), 0) / (attempts.length - 1));
+  const mostRepresentative = rawMeans.indexOf(Math.max(...rawMeans));
+  const leastRepresentative = rawMeans.indexOf(Math.min(...rawMeans));
+  const matrix = pairScores.map(row => row.map(round));
+  const meanSimilarity = rawMeans.map(round);
+  const consistencyScore = round(rawMeans.reduce((sum, score) => sum + score, 0) / attempts.length);
+
+  // Where the attempts vary: the other attempts' dissimilarity to the most representative one, per frame of it
+  const medoidTimestamps = timestampsOf(mostRepresentative);
+  const dissimilarityTotals = new Array<number>(frameCount).fill(0);
+  const dissimilarityCounts = new Array<number>(frameCount).fill(0);
+  const matchedPoses: NormalizedLandmarkList[][] = attempts[mostRepresentative].map(landmarks => (isValid(landmarks) ? [landmarks] : []));
+  attempts.forEach((poses, attempt) => {
+    if (attempt === mostRepresentative) return;
+    const matched = new Set<number>();
+    results[mostRepresentative][attempt].alignmentPath.forEach(step => {
+      if (!step.reliable) return;
+      dissimilarityTotals[step.index1] += step.dissimilarity;
+      dissimilarityCounts[step.index1]++;
+      // One matched frame per attempt, so an attempt that lingers (under DTW) does not count twice
+      if (!matched.has(step.index1) && matchedPoses[step.index1].length > 0 && isValid(poses[step.index2])) {
+        matchedPoses[step.index1].push(poses[step.index2]);
+        matched.add(step.index1);
+      }
+    });
+  });
+  const frameVariation: AttemptFrameVariation[] = [];
+  const variationPath: AlignmentStep[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    const reliable = dissimilarityCounts[frame] > 0;
+    const meanDissimilarity = reliable ? parseFloat((dissimilarityTotals[frame] / dissimilarityCounts[frame]).toFixed(4)) : 0;
+    const time = medoidTimestamps?.[frame];
+    if (reliable) frameVariation.push({ frame, time, meanDissimilarity });
+    variationPath.push({ index1: frame, index2: frame, dissimilarity: meanDissimilarity, reliable, time1: time, time2: time });
+  }
+  const variableSegments = findWorstSegments(variationPath, options.segmentCount ?? 3);
+
+  let jointVariation: JointAngles | undefined;
+  const use3D = similarityOptions.coordinateSpace === 'world';
+  const spreads = matchedPoses.map(poses => jointSpread(poses, use3D)).filter(Boolean);
+  if (spreads.length > 0) {
+    jointVariation = {} as JointAngles;
+    JOINT_NAMES.forEach(joint => {
+      jointVariation[joint] = round(spreads.reduce((sum, spread) => sum + spread[joint], 0) / spreads.length);
+    });
+  }
+
+  let referenceScores: number[] | undefined;
+  let bestAgainstReference: number | undefined;
+  if (options.reference) {
+    referenceScores = attempts.map((poses, attempt) =>
+      calculateSimilarity(poses, options.reference, frameCount, {
+        ...similarityOptions,
+        timestamps1: timestampsOf(attempt),
+        timestamps2: options.referenceTimestamps,
+      }).score
+    );
+    bestAgainstReference = referenceScores.indexOf(Math.max(...referenceScores));
+  }
+
+  let text = `Consistency across ${attempts.length} attempts: ${consistencyScore.toFixed(1)}%. `;
+  text += `Most representative: attempt ${mostRepresentative + 1} (${meanSimilarity[mostRepresentative].toFixed(1)}% average similarity to the others). `;
+  text += `Least representative: attempt ${leastRepresentative + 1} (${meanSimilarity[leastRepresentative].toFixed(1)}%). `;
+  if (variableSegments.length > 0) {
+    const segment = variableSegments[0];
+    const where = segment.startTime1 !== undefined
+      ? `${segment.startTime1.toFixed(2)}s-${segment.endTime1.toFixed(2)}s`
+      : `frames ${segment.startStep + 1}-${segment.endStep + 1}`;
+    text += `The attempts vary most at ${where} of attempt ${mostRepresentative + 1}. `;
+  }
+  if (jointVariation) {
+    const mostVariable = JOINT_NAMES.reduce((worst: JointName, joint) => (jointVariation[joint] > jointVariation[worst] ? joint : worst), JOINT_NAMES[0]);
+    text += `Most variable joint: ${formatJointName(mostVariable)} (±${jointVariation[mostVariable].toFixed(1)}°). `;
+  }
+  if (referenceScores) {
+    text += `Closest to the reference: attempt ${bestAgainstReference + 1} (${referenceScores[bestAgainstReference].toFixed(1)}%). `;
+  }
+
+  return {
+    attemptCount: attempts.length,
+    matrix,
+    meanSimilarity,
+    consistencyScore,
+    mostRepresentative,
+    leastRepresentative,
+    referenceScores,
+    bestAgainstReference,
+    frameVariation,
+    variableSegments,
+    jointVariation,
+    text: text.trim(),
+  };
+}
@@ -95,6 +95,25 @@ describe('drawPoseOnFrame', () => {
     expect(mockedFs.createWriteStream).toHaveBeenCalledWith(annotatedFramePath);
   });
 
+  test('should draw a border and caption when a highlight label is given', async () => {
+    mockPoseData = createMockPoseLandmarks();
+    mockCanvasContext.strokeRect.mockClear();
+    mockCanvasContext.fillText.mockClear();
+    await drawPoseOnFrame(originalFramePath, mockPoseData, annotatedFramePath, 'Impact');
+
+    expect(mockCanvasContext.strokeRect).toHaveBeenCalledTimes(1);
+    expect(mockCanvasContext.fillText).toHaveBeenCalledWith('Impact', expect.any(Number), expect.any(Number));
+    expect(mockedFs.createWriteStream).toHaveBeenCalledWith(annotatedFramePath);
+  });
+
+  test('should not highlight frames without a label', async () => {
+    mockPoseData = createMockPoseLandmarks();
+    mockCanvasContext.strokeRect.mockClear();
+    await drawPoseOnFrame(originalFramePath, mockPoseData, annotatedFramePath);
+
+    expect(mockCanvasContext.strokeRect).not.toHaveBeenCalled();
+  });
+
   test('should reject if loadImage fails', async () => {
     mockedLoadImage.mockRejectedValue(new Error('Failed to load image'));
     mockPoseData = createMockPoseLandmarks();
@@ -10,12 +10,14 @@ import { POSE_CONNECTIONS } from '@mediapipe/pose'; // POSE_CONNECTIONS provides
  * @param originalFramePath Path to the original extracted frame.
  * @param poseLandmarks Pose landmarks detected by MediaPipe Pose.
  * @param annotatedFramePath Path to save the new frame with drawings.
+ * @param highlightLabel Optional caption; the frame gets a highlighted border and the caption in a banner, e.g. to mark a key pose.
  * @returns A Promise that resolves when drawing is complete and file is saved, or rejects on error.
  */
 export async function drawPoseOnFrame(
   originalFramePath: string,
   poseLandmarks: NormalizedLandmarkList | undefined,
-  annotatedFramePath: string
+  annotatedFramePath: string,
+  highlightLabel?: string
 ): Promise<void> {
   return new Promise(async (resolve, reject) => {
     let image: CanvasImage;
@@ -75,6 +77,19 @@ export async function drawPoseOnFrame(
       }
     }
 
+    if (highlightLabel) {
+      const borderWidth = Math.max(4, Math.round(image.width / 100));
+      const fontSize = Math.max(14, Math.round(image.height / 20));
+      ctx.strokeStyle = '#FFD700'; // Gold border around the whole frame
+      ctx.lineWidth = borderWidth;
+      ctx.strokeRect(borderWidth / 2, borderWidth / 2, image.width - borderWidth, image.height - borderWidth);
+      ctx.font = `bold ${fontSize}px sans-serif`;
+      ctx.fillStyle = '#FFD700';
+      ctx.fillRect(borderWidth, borderWidth, ctx.measureText(highlightLabel).width + fontSize, fontSize * 1.6);
+      ctx.fillStyle = '#000000';
+      ctx.fillText(highlightLabel, borderWidth + fontSize / 2, borderWidth + fontSize * 1.2);
+    }
+
     // Save the canvas to a file
     try {
       const out = fs.createWriteStream(annotatedFramePath);
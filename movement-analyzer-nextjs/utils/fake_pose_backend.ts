@@ -0,0 +1,110 @@
+import type { LandmarkList, NormalizedLandmarkList } from '@mediapipe/pose';
+import { LANDMARK } from './landmarks';
+import type { PoseBackend, PoseFrameResult } from './pose_backend';
+
+/**
+ * What a fake backend returns: one result per frame in clip order (frames past the end get no pose),
+ * or a function of the frame's index in the clip and its path.
+ */
+export type FakePoseScript = PoseFrameResult[] | ((frame: number, framePath: string) => PoseFrameResult);
+
+export interface FakePoseBackend extends PoseBackend {
+  /** The frame paths of every clip estimated so far, for assertions in tests. */
+  readonly calls: string[][];
+}
+
+// A person standing facing the camera, arms hanging. x grows to the person's left.
+const STANDING_POSE: [number, number][] = [
+  [0.5, 0.15], // nose
+  [0.51, 0.13], [0.52, 0.13], [0.53, 0.13], // left eye inner, eye, outer
+  [0.49, 0.13], [0.48, 0.13], [0.47, 0.13], // right eye inner, eye, outer
+  [0.55, 0.14], [0.45, 0.14], // ears
+  [0.52, 0.18], [0.48, 0.18], // mouth
+  [0.6, 0.3], [0.4, 0.3], // shoulders
+  [0.62, 0.42], [0.38, 0.42], // elbows
+  [0.63, 0.54], [0.37, 0.54], // wrists
+  [0.64, 0.57], [0.36, 0.57], // pinkies
+  [0.63, 0.58], [0.37, 0.58], // index fingers
+  [0.62, 0.57], [0.38, 0.57], // thumbs
+  [0.56, 0.55], [0.44, 0.55], // hips
+  [0.57, 0.72], [0.43, 0.72], // knees
+  [0.57, 0.88], [0.43, 0.88], // ankles
+  [0.56, 0.9], [0.44, 0.9], // heels
+  [0.59, 0.92], [0.41, 0.92], // foot indices
+];
+
+const LEFT_ARM = [LANDMARK.LEFT_ELBOW, LANDMARK.LEFT_WRIST, LANDMARK.LEFT_PINKY, LANDMARK.LEFT_INDEX, LANDMARK.LEFT_THUMB];
+const MAX_ARM_RAISE_RAD = Math.PI / 2;
+
+/**
+ * The default fake pose: the standing figure raising its left arm sideways to horizontal and
+ * lowering it again once every `period` frames. The same frame index always gives the same pose.
+ */
+export function createFakePoseResult(frame: number, period: number = 30): PoseFrameResult {
+  const raise = (MAX_ARM_RAISE_RAD * (1 - Math.cos((2 * Math.PI * frame) / period))) / 2;
+  const [shoulderX, shoulderY] = STANDING_POSE[LANDMARK.LEFT_SHOULDER];
+  const points = STANDING_POSE.map(([x, y], k) => {
+    if (!LEFT_ARM.includes(k as typeof LEFT_ARM[number])) return [x, y];
+    const dx = x - shoulderX;
+    const dy = y - shoulderY;
+    return [shoulderX + dx * Math.cos(raise) + dy * Math.sin(raise), shoulderY - dx * Math.sin(raise) + dy * Math.cos(raise)];
+  });
+  const landmarks: NormalizedLandmarkList = points.map(([x, y]) => ({ x, y, z: 0, visibility: 0.99 }));
+  // World landmarks in meters around the hip midpoint, taking the frame to be about 2 m tall
+  const hipX = (points[LANDMARK.LEFT_HIP][0] + points[LANDMARK.RIGHT_HIP][0]) / 2;
+  const hipY = (points[LANDMARK.LEFT_HIP][1] + points[LANDMARK.RIGHT_HIP][1]) / 2;
+  const worldLandmarks: LandmarkList = points.map(([x, y]) => ({ x: (x - hipX) * 2, y: (y - hipY) * 2, z: 0, visibility: 0.99 }));
+  return { landmarks, worldLandmarks };
+}
+
+/**
+ * A second person standing still further back, `offsetX` to the side of the subject, who sways
+ * slightly so their pose is not identical in every frame.
+ */
+export function createFakeBystanderResult(frame: number, offsetX: number = 0.3): PoseFrameResult {
+  const sway = 0.01 * Math.sin(frame / 4);
+  const landmarks: NormalizedLandmarkList = STANDING_POSE.map(([x, y]) => ({
+    x: 0.5 + offsetX + sway + (x - 0.5) * 0.6,
+    y: 0.3 + y * 0.6,
+    z: 0,
+    visibility: 0.95,
+  }));
+  const worldLandmarks: LandmarkList = STANDING_POSE.map(([x, y]) => ({ x: (x - 0.5) * 2, y: (y - 0.55) * 2, z: 0, visibility: 0.95 }));
+  return { landmarks, worldLandmarks };
+}
+
+function playScript(script: FakePoseScript, frame: number, framePath: string): PoseFrameResult {
+  const result = typeof script === 'function' ? script(frame, framePath) : script[frame];
+  return result ? { ...result } : {};
+}
+
+/**
+ * A deterministic backend that returns scripted landmarks without looking at the frames, so the
+ * pipeline can run in tests and CI without MediaPipe. Every clip starts again at frame 0.
+ *
+ * @param script Results per frame. Defaults to `createFakePoseResult`.
+ * @param otherPeople Scripts of further people in the clip, returned after the subject by `estimatePeople`.
+ */
+export function createFakePoseBackend(
+  script: FakePoseScript = frame => createFakePoseResult(frame),
+  otherPeople: FakePoseScript[] = []
+): FakePoseBackend {
+  const calls: string[][] = [];
+  return {
+    name: 'fake',
+    calls,
+    estimateFrames: async (framePaths: string[]) => {
+      calls.push([...framePaths]);
+      return framePaths.map((framePath, frame) => playScript(script, frame, framePath));
+    },
+    estimatePeople: async (framePaths: string[], maxPeople: number) => {
+      calls.push([...framePaths]);
+      return framePaths.map((framePath, frame) =>
+        [script, ...otherPeople]
+          .map(personScript => playScript(personScript, frame, framePath))
+          .filter(result => result.landmarks)
+          .slice(0, maxPeople)
+      );
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { annotateFrames, CHUNK_WARMUP_FRAMES, estimatePeopleInFrames, FrameTask, FrameWorkerPool, runFrameTask, splitIntoChunks } from './frame_tasks';
+import { setPoseBackend } from './pose_backend';
+import { createFakeBystanderResult, createFakePoseBackend, createFakePoseResult } from './fake_pose_backend';
+import { drawPoseOnFrame } from './drawing_utils';
+
+// Poses come from the fake backend and drawing is only recorded, so neither MediaPipe nor canvas is loaded
+jest.mock('./mediapipe_pose_backend', () => ({ createMediaPipePoseBackend: jest.fn() }));
+jest.mock('./drawing_utils', () => ({ drawPoseOnFrame: jest.fn().mockResolvedValue(undefined) }));
+
+// Frame paths carry the frame number, so a pose can be traced back to its frame whichever chunk it was estimated in
+const framePaths = Array.from({ length: 25 }, (_, frame) => `/frames/frame_${String(frame).padStart(4, '0')}.png`);
+const frameOf = (framePath: string) => parseInt(framePath.match(/frame_(\d+)/)[1], 10);
+
+// Runs tasks on the main thread, like the real pool would on workers, and finishes later tasks first
+const createInlinePool = (size: number): FrameWorkerPool & { tasks: FrameTask[] } => {
+  const tasks: FrameTask[] = [];
+  return {
+    size,
+    tasks,
+    run: (task: FrameTask) => {
+      tasks.push(task);
+      return runFrameTask(task);
+    },
+    map: (batch: FrameTask[]) => {
+      tasks.push(...batch);
+      return Promise.all(batch.map((task, index) => new Promise(resolve => setTimeout(resolve, (batch.length - index) * 5)).then(() => runFrameTask(task))));
+    },
+    destroy: async () => undefined,
+  };
+};
+
+describe('splitIntoChunks', () => {
+  test('should split into even runs of consecutive items', () => {
+    expect(splitIntoChunks([1, 2, 3, 4, 5, 6, 7], 3)).toEqual([[1, 2, 3], [4, 5], [6, 7]]);
+    expect(splitIntoChunks([1, 2], 4)).toEqual([[1], [2]]);
+    expect(splitIntoChunks([], 4)).toEqual([[]]);
+  });
+
+  test('should use fewer chunks rather than make them shorter than the minimum', () => {
+    expect(splitIntoChunks(framePaths, 8, 10).map(chunk => chunk.length)).toEqual([13, 12]);
+    expect(splitIntoChunks(framePaths.slice(0, 6), 8, 10)).toHaveLength(1);
+  });
+});
+
+describe('estimatePeopleInFrames', () => {
+  beforeEach(() => {
+    setPoseBackend(createFakePoseBackend((_, framePath) => createFakePoseResult(frameOf(framePath))));
+  });
+
+  afterEach(() => {
+    setPoseBackend(undefined);
+  });
+
+  test('should spread a clip across the workers, with warm-up frames, and return the poses in frame order', async () => {
+    const pool = createInlinePool(2);
+    const people = await estimatePeopleInFrames(framePaths, false, pool);
+
+    expect(pool.tasks).toEqual([
+      { type: 'estimate', framePaths: framePaths.slice(0, 13), multiPerson: false },
+      { type: 'estimate', framePaths: framePaths.slice(13 - CHUNK_WARMUP_FRAMES), multiPerson: false },
+    ]);
+    expect(people).toEqual(framePaths.map(framePath => [createFakePoseResult(frameOf(framePath))]));
+  });
+
+  test('should estimate on the main thread without a pool', async () => {
+    setPoseBackend(createFakePoseBackend(
+      (_, framePath) => createFakePoseResult(frameOf(framePath)),
+      [(_, framePath) => createFakeBystanderResult(frameOf(framePath))]
+    ));
+    const people = await estimatePeopleInFrames(framePaths.slice(0, 3), true);
+    expect(people).toHaveLength(3);
+    people.forEach(frame => expect(frame).toHaveLength(2));
+  });
+});
+
+describe('annotateFrames', () => {
+  const annotations = framePaths.slice(0, 4).map((framePath, frame) => ({
+    framePath,
+    landmarks: createFakePoseResult(frame).landmarks,
+    outputPath: framePath.replace('/frames/', '/annotated/'),
+    caption: frame === 2 ? 'Bottom' : undefined,
+  }));
+
+  test('should draw every frame, in runs of frames across a pool', async () => {
+    const pool = createInlinePool(3);
+    await annotateFrames(annotations, pool);
+
+    expect(pool.tasks).toEqual([
+      { type: 'annotate', annotations: annotations.slice(0, 2) },
+      { type: 'annotate', annotations: annotations.slice(2, 3) },
+      { type: 'annotate', annotations: annotations.slice(3) },
+    ]);
+    expect(drawPoseOnFrame).toHaveBeenCalledTimes(4);
+    expect(drawPoseOnFrame).toHaveBeenCalledWith(framePaths[2], annotations[2].landmarks, '/annotated/frame_0002.png', 'Bottom');
+  });
+
+  test('should draw the frames in order on the main thread without a pool', async () => {
+    await annotateFrames(annotations);
+    expect((drawPoseOnFrame as jest.Mock).mock.calls.map(call => call[2])).toEqual(annotations.map(annotation => annotation.outputPath));
+  });
+});
@@ -0,0 +1,114 @@
+import type { NormalizedLandmarkList, PoseFrameResult } from './pose_backend';
+import { estimatePeopleForFrames, estimatePoseResultsForFrames } from './pose_estimation';
+import { drawPoseOnFrame } from './drawing_utils';
+import type { WorkerPool } from './worker_pool';
+
+/**
+ * The per-frame work of an analysis, run on a frame worker (see `getFrameWorkerPool`) or on the main thread.
+ * - 'estimate': the people in a run of consecutive frames: everyone if `multiPerson`, else the one person the model finds.
+ * - 'annotate': draws the poses, and optionally highlight captions, on a run of frames.
+ */
+export type FrameTask =
+  | { type: 'estimate'; framePaths: string[]; multiPerson: boolean }
+  | { type: 'annotate'; annotations: FrameAnnotation[] };
+
+/** The people detected in each frame for 'estimate' tasks, null for 'annotate' tasks. */
+export type FrameTaskResult = PoseFrameResult[][] | null;
+
+export type FrameWorkerPool = WorkerPool<FrameTask, FrameTaskResult>;
+
+/** One frame to annotate, with the pose drawn on it. */
+export interface FrameAnnotation {
+  framePath: string;
+  landmarks?: NormalizedLandmarkList;
+  outputPath: string;
+  caption?: string;
+}
+
+/**
+ * Fewest frames a clip is split into per worker, so runs of frames are not so short that the
+ * start-up cost of each outweighs spreading them.
+ */
+export const MIN_FRAMES_PER_CHUNK = 10;
+
+/**
+ * Frames before a run that are estimated with it and then dropped. The pose model tracks the
+ * person from frame to frame and each run starts over with a fresh detection, so the run's own
+ * frames are estimated once tracking has settled.
+ */
+export const CHUNK_WARMUP_FRAMES = 3;
+
+/**
+ * Runs one frame task with the configured pose backend. In a worker, that is the backend named by
+ * POSE_BACKEND: a backend set with `setPoseBackend` on the main thread is not seen by workers.
+ */
+export async function runFrameTask(task: FrameTask): Promise<FrameTaskResult> {
+  switch (task.type) {
+    case 'estimate': {
+      if (task.multiPerson) return estimatePeopleForFrames(task.framePaths);
+      const results = await estimatePoseResultsForFrames(task.framePaths);
+      return results.map(result => [result]);
+    }
+    case 'annotate':
+      for (const { framePath, landmarks, outputPath, caption } of task.annotations) {
+        await drawPoseOnFrame(framePath, landmarks, outputPath, caption);
+      }
+      return null;
+    default:
+      throw new Error(`Unknown frame task type "${(task as { type: string }).type}".`);
+  }
+}
+
+/**
+ * Splits items into at most `chunkCount` runs of consecutive items, as even as possible, none
+ * shorter than `minChunkSize` unless there are fewer items than that.
+ */
+export function splitIntoChunks<T>(items: T[], chunkCount: number, minChunkSize: number = 1): T[][] {
+  const count = Math.max(1, Math.min(chunkCount, Math.floor(items.length / Math.max(1, minChunkSize))));
+  const chunks: T[][] = [];
+  let start = 0;
+  for (let chunk = 0; chunk < count; chunk++) {
+    const end = start + Math.floor(items.length / count) + (chunk < items.length % count ? 1 : 0);
+    chunks.push(items.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * Estimates the people in each frame of a clip. With a pool, the clip is split into runs of
+ * consecutive frames (see `MIN_FRAMES_PER_CHUNK`) estimated on separate workers, each run after
+ * the first preceded by a few warm-up frames (see `CHUNK_WARMUP_FRAMES`); without one, the whole
+ * clip is estimated on the main thread.
+ *
+ * @param framePaths Paths of the clip's frames, in order.
+ * @param multiPerson Whether to detect everyone in each frame, for choosing a subject, or only one person.
+ * @param pool Frame workers to spread the work across.
+ * @returns The people detected in each frame, in frame order.
+ */
+export async function estimatePeopleInFrames(framePaths: string[], multiPerson: boolean, pool?: FrameWorkerPool): Promise<PoseFrameResult[][]> {
+  if (!pool) {
+    return runFrameTask({ type: 'estimate', framePaths, multiPerson });
+  }
+  let start = 0;
+  const runs = splitIntoChunks(framePaths, pool.size, MIN_FRAMES_PER_CHUNK).map(chunk => {
+    const warmup = Math.min(start, CHUNK_WARMUP_FRAMES);
+    const task: FrameTask = { type: 'estimate', framePaths: framePaths.slice(start - warmup, start + chunk.length), multiPerson };
+    start += chunk.length;
+    return { task, warmup };
+  });
+  const results = await pool.map(runs.map(run => run.task));
+  return results.reduce<PoseFrameResult[][]>((all, people, index) => all.concat(people.slice(runs[index].warmup)), []);
+}
+
+/**
+ * Draws the poses on frames: in runs of consecutive frames across the pool's workers, or one
+ * frame at a time on the main thread without a pool.
+ */
+export async function annotateFrames(annotations: FrameAnnotation[], pool?: FrameWorkerPool): Promise<void> {
+  if (!pool) {
+    await runFrameTask({ type: 'annotate', annotations });
+    return;
+  }
+  await pool.map(splitIntoChunks(annotations, pool.size).map(chunk => ({ type: 'annotate', annotations: chunk } as FrameTask)));
+}
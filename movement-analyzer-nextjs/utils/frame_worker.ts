@@ -0,0 +1,7 @@
+// Script of the frame worker threads (see `getFrameWorkerPool`): runs pose estimation and
+// annotation tasks posted by the analysis endpoints. Compiled into .next/server/workers by the
+// Next.js build (see next.config.js).
+import { serveWorkerTasks } from './worker_pool';
+import { FrameTask, FrameTaskResult, runFrameTask } from './frame_tasks';
+
+serveWorkerTasks<FrameTask, FrameTaskResult>(runFrameTask);
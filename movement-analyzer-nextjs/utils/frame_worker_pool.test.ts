@@ -0,0 +1,84 @@
+import os from 'os';
+import { Worker } from 'worker_threads';
+import { createWorkerPool } from './worker_pool';
+import { estimatePeopleInFrames, FrameTask, FrameTaskResult, FrameWorkerPool } from './frame_tasks';
+
+// The pose backend is never used here, so the main thread needs neither MediaPipe nor canvas
+jest.mock('./mediapipe_pose_backend', () => ({ createMediaPipePoseBackend: jest.fn() }));
+jest.mock('./drawing_utils', () => ({ drawPoseOnFrame: jest.fn() }));
+
+// Stands in for the frame worker: "estimates" one person per frame, with the frame number read from
+// the frame's path as x and the thread that did it as y. Plain JavaScript, so it runs without a build.
+const STUB_WORKER_SCRIPT = `
+const { parentPort, threadId } = require('worker_threads');
+parentPort.on('message', ({ id, task }) => {
+  const people = task.framePaths.map(framePath => [{ landmarks: [{ x: parseInt(framePath.match(/frame_(\\d+)/)[1], 10), y: threadId, z: 0 }] }]);
+  setTimeout(() => parentPort.postMessage({ id, result: people }), 20);
+});
+`;
+
+const framePaths = Array.from({ length: 40 }, (_, frame) => `/frames/frame_${String(frame).padStart(4, '0')}.png`);
+
+describe('frame worker pool', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env.ANALYSIS_WORKERS = env.ANALYSIS_WORKERS;
+    process.env.FRAME_WORKER_SCRIPT = env.FRAME_WORKER_SCRIPT;
+    if (env.ANALYSIS_WORKERS === undefined) delete process.env.ANALYSIS_WORKERS;
+    if (env.FRAME_WORKER_SCRIPT === undefined) delete process.env.FRAME_WORKER_SCRIPT;
+  });
+
+  const loadFrameWorkerPool = (): typeof import('./frame_worker_pool') => {
+    let frameWorkerPool: typeof import('./frame_worker_pool');
+    jest.isolateModules(() => {
+      frameWorkerPool = require('./frame_worker_pool');
+    });
+    return frameWorkerPool;
+  };
+
+  test('should default to one worker per CPU core but one, and fall back to it on invalid values', () => {
+    const defaultCount = Math.max(1, os.cpus().length - 1);
+    delete process.env.ANALYSIS_WORKERS;
+    expect(loadFrameWorkerPool().ANALYSIS_WORKERS).toBe(defaultCount);
+    process.env.ANALYSIS_WORKERS = '0';
+    expect(loadFrameWorkerPool().ANALYSIS_WORKERS).toBe(0);
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env.ANALYSIS_WORKERS = 'many';
+    expect(loadFrameWorkerPool().ANALYSIS_WORKERS).toBe(defaultCount);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid ANALYSIS_WORKERS value "many"'));
+    warn.mockRestore();
+  });
+
+  test('should run on the main thread when the worker script has not been built', () => {
+    process.env.ANALYSIS_WORKERS = '2';
+    process.env.FRAME_WORKER_SCRIPT = '/no/such/frame_worker.js';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { getFrameWorkerPool } = loadFrameWorkerPool();
+
+    expect(getFrameWorkerPool()).toBeUndefined();
+    expect(getFrameWorkerPool()).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('/no/such/frame_worker.js not found'));
+    warn.mockRestore();
+  });
+
+  describe('estimatePeopleInFrames on worker threads', () => {
+    let pool: FrameWorkerPool;
+
+    beforeAll(() => {
+      pool = createWorkerPool<FrameTask, FrameTaskResult>(() => new Worker(STUB_WORKER_SCRIPT, { eval: true }), 3);
+    });
+
+    afterAll(() => pool.destroy());
+
+    test('should spread a clip across the workers and return the poses in frame order', async () => {
+      const people = await estimatePeopleInFrames(framePaths, false, pool);
+
+      expect(people.map(frame => frame[0].landmarks[0].x)).toEqual(framePaths.map((_, frame) => frame));
+      const threads = new Set(people.map(frame => frame[0].landmarks[0].y));
+      expect(threads.size).toBe(3);
+    });
+  });
+});
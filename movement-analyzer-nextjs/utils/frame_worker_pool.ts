@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { createWorkerPool } from './worker_pool';
+import type { FrameTask, FrameTaskResult, FrameWorkerPool } from './frame_tasks';
+
+// One worker per CPU core but one, which is left to the main thread
+const DEFAULT_ANALYSIS_WORKERS = Math.max(1, os.cpus().length - 1);
+
+// Number of frame workers from ANALYSIS_WORKERS, warning and falling back to the default if it is invalid
+function parseWorkerCount(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_ANALYSIS_WORKERS;
+  const count = parseInt(value, 10);
+  if (isNaN(count) || count < 0) {
+    console.warn(`Invalid ANALYSIS_WORKERS value "${value}". Defaulting to ${DEFAULT_ANALYSIS_WORKERS}.`);
+    return DEFAULT_ANALYSIS_WORKERS;
+  }
+  return count;
+}
+
+/**
+ * Worker threads that pose estimation and frame annotation are spread across. Override with
+ * ANALYSIS_WORKERS; 0 runs them on the main thread. Defaults to one per CPU core but one. Every
+ * worker holds its own MediaPipe model in memory, so lower it where memory is tight.
+ */
+export const ANALYSIS_WORKERS = parseWorkerCount(process.env.ANALYSIS_WORKERS);
+
+/**
+ * The compiled frame worker script, built from utils/frame_worker.ts by `next build` and `next dev`
+ * (see next.config.js). Override with FRAME_WORKER_SCRIPT.
+ */
+export const FRAME_WORKER_SCRIPT = process.env.FRAME_WORKER_SCRIPT || path.join(process.cwd(), '.next', 'server', 'workers', 'frame_worker.js');
+
+let framePool: FrameWorkerPool | undefined;
+let workerScriptMissing = false;
+
+/**
+ * The frame workers shared by the analysis endpoints, started on first use, or undefined if
+ * ANALYSIS_WORKERS is 0 or the worker script has not been built. Workers estimate poses with the
+ * backend named by POSE_BACKEND.
+ */
+export function getFrameWorkerPool(): FrameWorkerPool | undefined {
+  if (ANALYSIS_WORKERS === 0 || workerScriptMissing) return undefined;
+  if (!framePool) {
+    if (!fs.existsSync(FRAME_WORKER_SCRIPT)) {
+      console.warn(`Frame worker script ${FRAME_WORKER_SCRIPT} not found; it is built by "next build" and "next dev". Running frame work on the main thread.`);
+      workerScriptMissing = true;
+      return undefined;
+    }
+    framePool = createWorkerPool<FrameTask, FrameTaskResult>(() => new Worker(FRAME_WORKER_SCRIPT), ANALYSIS_WORKERS);
+  }
+  return framePool;
+}
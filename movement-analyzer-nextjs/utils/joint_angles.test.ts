@@ -0,0 +1,80 @@
+import { calculateAngle, calculateJointAngles, JOINT_NAMES } from './joint_angles';
+import { LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create an upright standing pose with straight arms hanging down and straight legs.
+const createStandingPose = (): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.5, y: 0.1, z: 0, visibility: 0.9 });
+  }
+  const set = (index: number, x: number, y: number) => { landmarks[index] = { x, y, z: 0, visibility: 0.9 }; };
+  set(LANDMARK.LEFT_SHOULDER, 0.45, 0.3);
+  set(LANDMARK.RIGHT_SHOULDER, 0.55, 0.3);
+  set(LANDMARK.LEFT_ELBOW, 0.45, 0.4);
+  set(LANDMARK.RIGHT_ELBOW, 0.55, 0.4);
+  set(LANDMARK.LEFT_WRIST, 0.45, 0.5);
+  set(LANDMARK.RIGHT_WRIST, 0.55, 0.5);
+  set(LANDMARK.LEFT_HIP, 0.47, 0.55);
+  set(LANDMARK.RIGHT_HIP, 0.53, 0.55);
+  set(LANDMARK.LEFT_KNEE, 0.47, 0.7);
+  set(LANDMARK.RIGHT_KNEE, 0.53, 0.7);
+  set(LANDMARK.LEFT_ANKLE, 0.47, 0.85);
+  set(LANDMARK.RIGHT_ANKLE, 0.53, 0.85);
+  set(LANDMARK.LEFT_FOOT_INDEX, 0.42, 0.85);
+  set(LANDMARK.RIGHT_FOOT_INDEX, 0.48, 0.85);
+  return landmarks;
+};
+
+describe('calculateAngle', () => {
+  test('should return 90 degrees for a right angle', () => {
+    expect(calculateAngle({ x: 1, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 })).toBeCloseTo(90);
+  });
+
+  test('should return 180 degrees for a straight line', () => {
+    expect(calculateAngle({ x: 0, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, { x: 0, y: 2, z: 0 })).toBeCloseTo(180);
+  });
+
+  test('should ignore z unless use3D is set', () => {
+    const from = { x: 1, y: 0, z: 0 };
+    const vertex = { x: 0, y: 0, z: 0 };
+    const to = { x: 1, y: 0, z: 1 };
+    expect(calculateAngle(from, vertex, to)).toBeCloseTo(0);
+    expect(calculateAngle(from, vertex, to, true)).toBeCloseTo(45);
+  });
+
+  test('should return 0 for a degenerate segment', () => {
+    const point = { x: 0.5, y: 0.5, z: 0 };
+    expect(calculateAngle(point, point, { x: 1, y: 1, z: 0 })).toBe(0);
+  });
+});
+
+describe('calculateJointAngles', () => {
+  test('should return an angle for every joint', () => {
+    const angles = calculateJointAngles(createStandingPose());
+    expect(Object.keys(angles).sort()).toEqual([...JOINT_NAMES].sort());
+  });
+
+  test('should report straight limbs and an upright trunk for a standing pose', () => {
+    const angles = calculateJointAngles(createStandingPose());
+    expect(angles.left_elbow).toBeCloseTo(180);
+    expect(angles.right_knee).toBeCloseTo(180);
+    expect(angles.trunk_lean).toBeCloseTo(0);
+    expect(angles.left_ankle).toBeCloseTo(90);
+  });
+
+  test('should measure a bent knee', () => {
+    const pose = createStandingPose();
+    // Move the left ankle straight back from the knee: 90 degree knee bend.
+    pose[LANDMARK.LEFT_ANKLE] = { x: 0.62, y: 0.7, z: 0, visibility: 0.9 };
+    expect(calculateJointAngles(pose).left_knee).toBeCloseTo(90);
+  });
+
+  test('should measure trunk lean', () => {
+    const pose = createStandingPose();
+    // Shift both shoulders forward by the hip-to-shoulder height: 45 degree lean.
+    pose[LANDMARK.LEFT_SHOULDER] = { x: 0.7, y: 0.3, z: 0, visibility: 0.9 };
+    pose[LANDMARK.RIGHT_SHOULDER] = { x: 0.8, y: 0.3, z: 0, visibility: 0.9 };
+    expect(calculateJointAngles(pose).trunk_lean).toBeCloseTo(45);
+  });
+});
@@ -0,0 +1,117 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { LANDMARK } from './landmarks';
+
+export type JointName =
+  | 'left_elbow'
+  | 'right_elbow'
+  | 'left_shoulder'
+  | 'right_shoulder'
+  | 'left_hip'
+  | 'right_hip'
+  | 'left_knee'
+  | 'right_knee'
+  | 'left_ankle'
+  | 'right_ankle'
+  | 'trunk_lean';
+
+/** Joint angles in degrees, keyed by joint. */
+export type JointAngles = Record<JointName, number>;
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Landmark triplets defining each anatomical joint angle: the angle at `vertex`
+ * between the segments towards `from` and `to`.
+ */
+const JOINT_DEFINITIONS: Record<Exclude<JointName, 'trunk_lean'>, { from: number; vertex: number; to: number }> = {
+  left_elbow: { from: LANDMARK.LEFT_SHOULDER, vertex: LANDMARK.LEFT_ELBOW, to: LANDMARK.LEFT_WRIST },
+  right_elbow: { from: LANDMARK.RIGHT_SHOULDER, vertex: LANDMARK.RIGHT_ELBOW, to: LANDMARK.RIGHT_WRIST },
+  left_shoulder: { from: LANDMARK.LEFT_HIP, vertex: LANDMARK.LEFT_SHOULDER, to: LANDMARK.LEFT_ELBOW },
+  right_shoulder: { from: LANDMARK.RIGHT_HIP, vertex: LANDMARK.RIGHT_SHOULDER, to: LANDMARK.RIGHT_ELBOW },
+  left_hip: { from: LANDMARK.LEFT_SHOULDER, vertex: LANDMARK.LEFT_HIP, to: LANDMARK.LEFT_KNEE },
+  right_hip: { from: LANDMARK.RIGHT_SHOULDER, vertex: LANDMARK.RIGHT_HIP, to: LANDMARK.RIGHT_KNEE },
+  left_knee: { from: LANDMARK.LEFT_HIP, vertex: LANDMARK.LEFT_KNEE, to: LANDMARK.LEFT_ANKLE },
+  right_knee: { from: LANDMARK.RIGHT_HIP, vertex: LANDMARK.RIGHT_KNEE, to: LANDMARK.RIGHT_ANKLE },
+  left_ankle: { from: LANDMARK.LEFT_KNEE, vertex: LANDMARK.LEFT_ANKLE, to: LANDMARK.LEFT_FOOT_INDEX },
+  right_ankle: { from: LANDMARK.RIGHT_KNEE, vertex: LANDMARK.RIGHT_ANKLE, to: LANDMARK.RIGHT_FOOT_INDEX },
+};
+
+export const JOINT_NAMES: JointName[] = [...(Object.keys(JOINT_DEFINITIONS) as JointName[]), 'trunk_lean'];
+
+/** The landmarks each joint angle is computed from. */
+export const JOINT_LANDMARKS: Record<JointName, number[]> = {
+  ...(Object.keys(JOINT_DEFINITIONS) as Exclude<JointName, 'trunk_lean'>[]).reduce((acc, joint) => {
+    const { from, vertex, to } = JOINT_DEFINITIONS[joint];
+    acc[joint] = [from, vertex, to];
+    return acc;
+  }, {} as Record<Exclude<JointName, 'trunk_lean'>, number[]>),
+  trunk_lean: [LANDMARK.LEFT_SHOULDER, LANDMARK.RIGHT_SHOULDER, LANDMARK.LEFT_HIP, LANDMARK.RIGHT_HIP],
+};
+
+const RADIANS_TO_DEGREES = 180 / Math.PI;
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 };
+}
+
+/**
+ * Calculates the angle between two vectors in degrees (0-180).
+ * Only x and y are used unless `use3D` is set, as MediaPipe's normalized z is a weak depth estimate.
+ */
+function angleBetween(v1: Point, v2: Point, use3D: boolean): number {
+  const z1 = use3D ? v1.z : 0;
+  const z2 = use3D ? v2.z : 0;
+  const norm1 = Math.sqrt(v1.x * v1.x + v1.y * v1.y + z1 * z1);
+  const norm2 = Math.sqrt(v2.x * v2.x + v2.y * v2.y + z2 * z2);
+  if (norm1 === 0 || norm2 === 0) return 0;
+  const cosine = (v1.x * v2.x + v1.y * v2.y + z1 * z2) / (norm1 * norm2);
+  // Clamp to guard against floating point drift outside [-1, 1]
+  return Math.acos(Math.max(-1, Math.min(1, cosine))) * RADIANS_TO_DEGREES;
+}
+
+/**
+ * Calculates the angle at `vertex` formed by the segments towards `from` and `to`, in degrees.
+ */
+export function calculateAngle(from: Point, vertex: Point, to: Point, use3D: boolean = false): number {
+  return angleBetween(
+    { x: from.x - vertex.x, y: from.y - vertex.y, z: from.z - vertex.z },
+    { x: to.x - vertex.x, y: to.y - vertex.y, z: to.z - vertex.z },
+    use3D
+  );
+}
+
+/**
+ * Calculates the anatomical joint angles of a single pose.
+ * Trunk lean is the angle between the hip-to-shoulder midline and vertical (0 = upright).
+ *
+ * @param landmarks A full list of 33 MediaPipe Pose landmarks.
+ * @param use3D Whether to include z in the angle calculation.
+ * @returns Joint angles in degrees.
+ */
+export function calculateJointAngles(landmarks: NormalizedLandmarkList, use3D: boolean = false): JointAngles {
+  const angles = {} as JointAngles;
+  (Object.keys(JOINT_DEFINITIONS) as Exclude<JointName, 'trunk_lean'>[]).forEach(joint => {
+    const { from, vertex, to } = JOINT_DEFINITIONS[joint];
+    angles[joint] = calculateAngle(landmarks[from], landmarks[vertex], landmarks[to], use3D);
+  });
+
+  const hipMid = midpoint(landmarks[LANDMARK.LEFT_HIP], landmarks[LANDMARK.RIGHT_HIP]);
+  const shoulderMid = midpoint(landmarks[LANDMARK.LEFT_SHOULDER], landmarks[LANDMARK.RIGHT_SHOULDER]);
+  // Image y grows downwards, so "up" is negative y.
+  angles.trunk_lean = angleBetween(
+    { x: shoulderMid.x - hipMid.x, y: shoulderMid.y - hipMid.y, z: shoulderMid.z - hipMid.z },
+    { x: 0, y: -1, z: 0 },
+    use3D
+  );
+
+  return angles;
+}
+
+/** Formats a joint name for display, e.g. 'left_knee' -> 'left knee'. */
+export function formatJointName(joint: JointName): string {
+  return joint.replace(/_/g, ' ');
+}
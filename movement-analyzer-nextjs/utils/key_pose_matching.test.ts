@@ -0,0 +1,106 @@
+import { findNearestFrame, matchKeyPoses, parseKeyPoses } from './key_pose_matching';
+import { LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose with the left elbow bent to the given angle (180 = straight)
+const createArmPose = (elbowAngleDeg: number): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.3 + (i % 6) * 0.08, y: 0.1 + Math.floor(i / 6) * 0.12, z: 0, visibility: 0.9 });
+  }
+  const theta = (elbowAngleDeg * Math.PI) / 180;
+  landmarks[LANDMARK.LEFT_SHOULDER] = { x: 0.5, y: 0.3, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_ELBOW] = { x: 0.5, y: 0.5, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_WRIST] = { x: 0.5 + 0.2 * Math.sin(theta), y: 0.5 - 0.2 * Math.cos(theta), z: 0, visibility: 0.9 };
+  return landmarks;
+};
+
+// Helper for evenly spaced timestamps
+const createTimestamps = (count: number, interval: number): number[] => Array.from({ length: count }, (_, i) => parseFloat((i * interval).toFixed(3)));
+
+describe('matchKeyPoses', () => {
+  // The reference curls to 60 degrees at 0.4s and straightens again by 1.0s
+  const reference = [170, 130, 60, 90, 140, 170].map(createArmPose);
+  const referenceTimestamps = createTimestamps(6, 0.2);
+
+  test('should find the best matching frame for each key pose and report the timing', () => {
+    // The user reaches 60 degrees later, at 0.6s of their clip
+    const poses = [170, 150, 110, 60, 100, 170].map(createArmPose);
+    const report = matchKeyPoses(poses, reference, [{ time: 0.4, label: 'Bottom' }], {
+      timestamps: createTimestamps(6, 0.2),
+      referenceTimestamps,
+      similarity: { metric: 'angles' },
+    });
+
+    expect(report.matches).toHaveLength(1);
+    expect(report.matches[0]).toMatchObject({ label: 'Bottom', referenceFrame: 2, matchedFrame: 3, matchedTime: 0.6, score: 100, timeOffset: 0.2 });
+    expect(report.score).toBe(100);
+    expect(report.text).toContain('Bottom: 100.0% at 0.60s');
+  });
+
+  test('should keep matches in key pose order and compare the time between them', () => {
+    // Straight at the start and at the end: unordered, the finish matches the first frame
+    const poses = [170, 120, 60, 60, 120, 150, 170].map(createArmPose);
+    const keyPoses = [{ time: 1.0, label: 'Finish' }, { time: 0.4, label: 'Bottom' }];
+    const options = { timestamps: createTimestamps(7, 0.2), referenceTimestamps, similarity: { metric: 'angles' as const } };
+
+    const unordered = matchKeyPoses(poses, reference, keyPoses, { ...options, ordered: false });
+    expect(unordered.matches.map(match => match.label)).toEqual(['Bottom', 'Finish']);
+    expect(unordered.matches[1].matchedFrame).toBe(0);
+
+    const ordered = matchKeyPoses(poses, reference, keyPoses, options);
+    expect(ordered.matches.map(match => match.matchedFrame)).toEqual([2, 6]);
+    // 0.8s from bottom to finish, against 0.6s in the reference
+    expect(ordered.matches[1].intervalOffset).toBeCloseTo(0.2);
+    expect(ordered.text).toContain('0.20s slower than the reference');
+  });
+
+  test('should report key poses whose reference frame has no pose', () => {
+    const referenceWithGap = [...reference];
+    referenceWithGap[5] = undefined;
+    const report = matchKeyPoses(reference, referenceWithGap, [{ time: 0.4 }, { time: 1.0 }], { timestamps: referenceTimestamps, referenceTimestamps });
+
+    expect(report.matches[0]).toMatchObject({ label: 'Key pose 1', matchedFrame: 2, score: 100 });
+    expect(report.matches[1].matchedFrame).toBeUndefined();
+    expect(report.matches[1].error).toContain('No pose was detected in the reference');
+    expect(report.score).toBe(100);
+    expect(report.text).toContain('1 of 2 matched');
+  });
+
+  test('should report every key pose unmatched when no reference frame at a key pose has a pose', () => {
+    const referenceWithGaps = [...reference];
+    referenceWithGaps[2] = undefined;
+    referenceWithGaps[5] = undefined;
+    const report = matchKeyPoses(reference, referenceWithGaps, [{ time: 0.4 }, { time: 1.0 }], { timestamps: referenceTimestamps, referenceTimestamps });
+
+    expect(report.matches).toHaveLength(2);
+    report.matches.forEach(match => {
+      expect(match.matchedFrame).toBeUndefined();
+      expect(match.score).toBe(0);
+      expect(match.error).toContain('No pose was detected in the reference');
+    });
+    expect(report.score).toBe(0);
+    expect(report.text).toContain('0 of 2 matched');
+  });
+});
+
+describe('parseKeyPoses', () => {
+  test('should accept times with optional labels', () => {
+    expect(parseKeyPoses([{ time: 1.2, label: 'Top' }, { time: 0 }])).toEqual([{ time: 1.2, label: 'Top' }, { time: 0, label: undefined }]);
+  });
+
+  test('should reject invalid key poses', () => {
+    expect(() => parseKeyPoses([])).toThrow('array of 1-10');
+    expect(() => parseKeyPoses({ time: 1 })).toThrow('array of 1-10');
+    expect(() => parseKeyPoses([{ time: -1 }])).toThrow('Key pose 1 needs a "time"');
+    expect(() => parseKeyPoses([{ time: 1, label: 3 }])).toThrow('label of key pose 1');
+  });
+});
+
+describe('findNearestFrame', () => {
+  test('should return the frame closest in time', () => {
+    expect(findNearestFrame([0, 0.2, 0.4, 0.6], 0.45)).toBe(2);
+    expect(findNearestFrame([0, 0.2, 0.4, 0.6], 5)).toBe(3);
+    expect(findNearestFrame([0, 0.2, 0.4, 0.6], 0.1)).toBe(0);
+  });
+});
@@ -0,0 +1,223 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { calculateSimilarity, SimilarityOptions } from './analysis';
+import { NUM_POSE_LANDMARKS } from './landmarks';
+
+const MAX_KEY_POSES = 10;
+
+/** A position marked on the reference clip, such as the top of a golf backswing. */
+export interface KeyPose {
+  /** Time in seconds on the reference clip. */
+  time: number;
+  label?: string;
+}
+
+/** How well, and when, the user's clip reached one key pose. */
+export interface KeyPoseMatch {
+  label: string;
+  /** Sampled reference frame nearest to the marked time. */
+  referenceFrame: number;
+  referenceTime: number;
+  /** Frame of the user's clip that best matches the key pose. Undefined if the key pose could not be matched. */
+  matchedFrame?: number;
+  matchedTime?: number;
+  /** Similarity (0-100) of the matched frame to the key pose. */
+  score: number;
+  /** Matched time minus reference time in seconds. Only meaningful if both clips start at the same moment. */
+  timeOffset?: number;
+  /**
+   * Time the user took from the previous key pose minus the time the reference took, in seconds.
+   * Positive means the user got here more slowly. Unset for the first key pose.
+   */
+  intervalOffset?: number;
+  error?: string;
+}
+
+/** Key-pose scoring: a separate path from the full-sequence average of `calculateSimilarity`. */
+export interface KeyPoseReport {
+  /** One per key pose, in reference time order. */
+  matches: KeyPoseMatch[];
+  /** Mean match score over the key poses that could be matched. */
+  score: number;
+  /** Whether the user's clip was mirrored for the matches. */
+  mirrored: boolean;
+  text: string;
+}
+
+export interface KeyPoseOptions {
+  /** Time in seconds of each frame of the user's clip. */
+  timestamps: number[];
+  /** Time in seconds of each frame of the reference clip. */
+  referenceTimestamps: number[];
+  /** How two poses are compared. Alignment and the score interval do not apply to single poses. */
+  similarity?: SimilarityOptions;
+  /**
+   * Keep the matches in the order of the key poses, so a later key pose never matches an earlier
+   * frame than the one before it. Defaults to true.
+   */
+  ordered?: boolean;
+}
+
+function round(value: number, digits: number = 1): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+function isValid(landmarks: NormalizedLandmarkList | undefined): boolean {
+  return !!landmarks && landmarks.length === NUM_POSE_LANDMARKS;
+}
+
+/** Index of the timestamp closest to `time`. Ties go to the earlier frame. */
+export function findNearestFrame(timestamps: number[], time: number): number {
+  let nearest = 0;
+  timestamps.forEach((timestamp, frame) => {
+    if (Math.abs(timestamp - time) < Math.abs(timestamps[nearest] - time)) nearest = frame;
+  });
+  return nearest;
+}
+
+/**
+ * Validates key poses sent by a client, e.g. `[{"time": 1.2, "label": "Top"}, {"time": 1.6}]`.
+ *
+ * @throws If the definition is not an array of 1-10 key poses with a non-negative time.
+ */
+export function parseKeyPoses(definition: unknown): KeyPose[] {
+  if (!Array.isArray(definition) || definition.length === 0 || definition.length > MAX_KEY_POSES) {
+    throw new Error(`Key poses must be an array of 1-${MAX_KEY_POSES} objects with a "time" in seconds.`);
+  }
+  return definition.map((keyPose, k) => {
+    if (!keyPose || typeof keyPose.time !== 'number' || !isFinite(keyPose.time) || keyPose.time < 0) {
+      throw new Error(`Key pose ${k + 1} needs a "time" of 0 seconds or more.`);
+    }
+    if (keyPose.label !== undefined && typeof keyPose.label !== 'string') {
+      throw new Error(`The label of key pose ${k + 1} must be a string.`);
+    }
+    return { time: keyPose.time, label: keyPose.label || undefined };
+  });
+}
+
+/**
+ * Picks one frame per key pose from `scores[k][frame]` (null where a frame cannot be matched),
+ * maximizing the total score. Ordered picks never go back in time from one key pose to the next.
+ */
+function pickFrames(scores: (number | null)[][], ordered: boolean): (number | undefined)[] {
+  const best = (row: (number | null)[]) => row.reduce<number | undefined>((bestFrame, score, frame) =>
+    score !== null && (bestFrame === undefined || score > row[bestFrame]) ? frame : bestFrame, undefined);
+  if (!ordered) return scores.map(best);
+  // No key pose has a reference pose to match
+  if (scores.length === 0) return [];
+
+  // totals[k][frame]: best total of key poses 0..k with key pose k at `frame`; from[k][frame] the frame of k - 1
+  const totals: (number | null)[][] = [];
+  const from: number[][] = [];
+  scores.forEach((row, k) => {
+    totals.push([]);
+    from.push([]);
+    let bestPrevious: number | undefined;
+    row.forEach((score, frame) => {
+      if (k > 0 && totals[k - 1][frame] !== null && (bestPrevious === undefined || totals[k - 1][frame] > totals[k - 1][bestPrevious])) {
+        bestPrevious = frame;
+      }
+      if (score === null || (k > 0 && bestPrevious === undefined)) {
+        totals[k].push(null);
+        from[k].push(-1);
+      } else {
+        totals[k].push(score + (k > 0 ? totals[k - 1][bestPrevious] : 0));
+        from[k].push(k > 0 ? bestPrevious : -1);
+      }
+    });
+  });
+
+  const picks = new Array<number | undefined>(scores.length).fill(undefined);
+  let frame = best(totals[totals.length - 1]);
+  for (let k = scores.length - 1; k >= 0 && frame !== undefined; k--) {
+    picks[k] = frame;
+    frame = k > 0 ? from[k][frame] : undefined;
+  }
+  return picks;
+}
+
+/**
+ * Finds the frame of the user's clip that best matches each key pose of the reference, and how
+ * far its timing is off. Key poses whose reference frame has no pose are reported with an error
+ * and a score of 0. With mirror 'auto', both orientations are tried and the better one is kept.
+ *
+ * @param poses Pose sequence of the user's clip.
+ * @param referencePoses Pose sequence of the reference clip.
+ * @param keyPoses Key poses marked on the reference, in any order.
+ * @param options Timestamps of both clips, how poses are compared and whether matches stay in order.
+ * @returns One match per key pose, in reference time order, and their mean score.
+ */
+export function matchKeyPoses(
+  poses: (NormalizedLandmarkList | undefined)[],
+  referencePoses: (NormalizedLandmarkList | undefined)[],
+  keyPoses: KeyPose[],
+  options: KeyPoseOptions
+): KeyPoseReport {
+  const mirror = options.similarity?.mirror ?? 'off';
+  if (mirror === 'auto') {
+    const asFilmed = matchKeyPoses(poses, referencePoses, keyPoses, { ...options, similarity: { ...options.similarity, mirror: 'off' } });
+    const mirroredReport = matchKeyPoses(poses, referencePoses, keyPoses, { ...options, similarity: { ...options.similarity, mirror: 'on' } });
+    // Ties go to the orientation as filmed
+    return mirroredReport.score > asFilmed.score ? mirroredReport : asFilmed;
+  }
+  const similarityOptions: SimilarityOptions = { ...options.similarity, alignment: 'index', scoreInterval: false, kinematics: false };
+  const { timestamps, referenceTimestamps } = options;
+
+  const sorted = keyPoses
+    .map((keyPose, k) => ({ ...keyPose, label: keyPose.label || `Key pose ${k + 1}` }))
+    .sort((a, b) => a.time - b.time);
+  const referenceFrames = sorted.map(keyPose => findNearestFrame(referenceTimestamps, keyPose.time));
+  const matchable = referenceFrames.map(frame => isValid(referencePoses[frame]));
+
+  // Single-frame comparisons, so the scoring profile, metric and normalization apply as in the full comparison
+  const scores: (number | null)[][] = referenceFrames
+    .filter((_, k) => matchable[k])
+    .map(referenceFrame => poses.map(landmarks =>
+      isValid(landmarks) ? calculateSimilarity([landmarks], [referencePoses[referenceFrame]], 1, similarityOptions).score : null
+    ));
+  const picks = pickFrames(scores, options.ordered ?? true);
+
+  let pick = 0;
+  const matches: KeyPoseMatch[] = sorted.map((keyPose, k) => {
+    const referenceFrame = referenceFrames[k];
+    const match: KeyPoseMatch = { label: keyPose.label, referenceFrame, referenceTime: referenceTimestamps[referenceFrame], score: 0 };
+    if (!matchable[k]) {
+      match.error = 'No pose was detected in the reference at this key pose.';
+      return match;
+    }
+    const row = pick++;
+    const frame = picks[row];
+    if (frame === undefined) {
+      match.error = 'No frame of the clip has a pose to match.';
+      return match;
+    }
+    match.matchedFrame = frame;
+    match.matchedTime = timestamps[frame];
+    match.score = scores[row][frame];
+    match.timeOffset = round(match.matchedTime - match.referenceTime, 3);
+    return match;
+  });
+  matches.forEach((match, k) => {
+    const previous = matches.slice(0, k).reverse().find(candidate => candidate.matchedFrame !== undefined);
+    if (match.matchedFrame === undefined || !previous) return;
+    match.intervalOffset = round((match.matchedTime - previous.matchedTime) - (match.referenceTime - previous.referenceTime), 3);
+  });
+
+  const matched = matches.filter(match => match.matchedFrame !== undefined);
+  const score = matched.length > 0 ? round(matched.reduce((sum, match) => sum + match.score, 0) / matched.length) : 0;
+
+  let text = `Key poses: ${matched.length} of ${matches.length} matched, average match ${score.toFixed(1)}%. `;
+  matches.forEach(match => {
+    if (match.matchedFrame === undefined) {
+      text += `${match.label}: ${match.error} `;
+      return;
+    }
+    text += `${match.label}: ${match.score.toFixed(1)}% at ${match.matchedTime.toFixed(2)}s`;
+    if (match.intervalOffset !== undefined && Math.abs(match.intervalOffset) >= 0.005) {
+      text += ` (${Math.abs(match.intervalOffset).toFixed(2)}s ${match.intervalOffset > 0 ? 'slower' : 'faster'} than the reference from the previous key pose)`;
+    }
+    text += '. ';
+  });
+  if (mirror === 'on') text += 'Clip mirrored (left and right swapped) before matching. ';
+
+  return { matches, score, mirrored: mirror === 'on', text: text.trim() };
+}
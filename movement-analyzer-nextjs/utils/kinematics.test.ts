@@ -0,0 +1,89 @@
+import { computeKinematics, compareKinematics } from './kinematics';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose with every landmark shifted to the given x offset.
+const createShiftedPose = (offset: number): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.2 + i * 0.01 + offset, y: 0.3 + i * 0.01, z: 0, visibility: 0.9 });
+  }
+  return landmarks;
+};
+
+// A reach from 0 to `distance` following the minimum-jerk trajectory, optionally with jitter.
+const createReach = (frames: number, distance: number, jitter: number = 0): NormalizedLandmarkList[] =>
+  Array.from({ length: frames }, (_, i) => {
+    const t = i / (frames - 1);
+    const position = distance * (10 * t ** 3 - 15 * t ** 4 + 6 * t ** 5);
+    return createShiftedPose(position + (i % 2 === 0 ? jitter : -jitter));
+  });
+
+const timestampsFor = (frames: number, interval: number) => Array.from({ length: frames }, (_, i) => i * interval);
+
+describe('computeKinematics', () => {
+  test('should derive speed from positions and timestamps', () => {
+    const poses = [0, 0.01, 0.02, 0.03].map(createShiftedPose);
+    const profile = computeKinematics(poses, timestampsFor(4, 0.1));
+    profile.speed.forEach(values => values.forEach(value => expect(value).toBeCloseTo(0.1)));
+    expect(profile.meanSpeed[1]).toBeCloseTo(0.1);
+    expect(profile.peakSpeed).toBeCloseTo(0.1);
+  });
+
+  test('should derive acceleration from changing speed', () => {
+    // x = t^2 gives a constant acceleration of 2
+    const times = timestampsFor(6, 0.5);
+    const profile = computeKinematics(times.map(t => createShiftedPose(t * t)), times);
+    expect(profile.meanAcceleration[2]).toBeCloseTo(2);
+    expect(profile.meanAcceleration[3]).toBeCloseTo(2);
+  });
+
+  test('should skip frames without a pose, using the real time gap', () => {
+    const poses = [createShiftedPose(0), undefined, createShiftedPose(0.02), createShiftedPose(0.03)];
+    const profile = computeKinematics(poses, timestampsFor(4, 0.1));
+    expect(profile.speed[1]).toBeUndefined();
+    expect(profile.meanSpeed[1]).toBeUndefined();
+    expect(profile.meanSpeed[0]).toBeCloseTo(0.1);
+  });
+
+  test('should rate a jittery movement as less smooth than a steady one', () => {
+    const times = timestampsFor(30, 1 / 30);
+    const steady = computeKinematics(createReach(30, 0.3), times);
+    const jittery = computeKinematics(createReach(30, 0.3, 0.005), times);
+    expect(steady.smoothness).toBeDefined();
+    expect(jittery.smoothness).toBeLessThan(steady.smoothness);
+  });
+
+  test('should not rate the smoothness of a motionless or too short sequence', () => {
+    expect(computeKinematics([0, 0, 0, 0].map(createShiftedPose)).smoothness).toBeUndefined();
+    expect(computeKinematics([0, 0.1].map(createShiftedPose)).smoothness).toBeUndefined();
+  });
+});
+
+describe('compareKinematics', () => {
+  const pairs: [number, number][] = Array.from({ length: 30 }, (_, i) => [i, i]);
+  const times = timestampsFor(30, 1 / 30);
+
+  test('should fully match identical movements', () => {
+    const profile = computeKinematics(createReach(30, 0.3), times);
+    const comparison = compareKinematics(profile, profile, pairs);
+    expect(comparison.speedScore).toBeCloseTo(100);
+    expect(comparison.accelerationScore).toBeCloseTo(100);
+    expect(comparison.smoothnessScore).toBe(100);
+    expect(comparison.score).toBeCloseTo(100);
+  });
+
+  test('should score a rushed, jerky movement lower than the reference', () => {
+    const reference = computeKinematics(createReach(30, 0.3), times);
+    const rushed = computeKinematics(createReach(30, 0.6, 0.01), times);
+    const comparison = compareKinematics(rushed, reference, pairs);
+    expect(comparison.speedScore).toBeLessThan(80);
+    expect(comparison.smoothnessScore).toBeLessThan(100);
+    expect(comparison.meanSpeed1).toHaveLength(30);
+  });
+
+  test('should not penalise being smoother than the reference', () => {
+    const reference = computeKinematics(createReach(30, 0.3, 0.005), times);
+    const steady = computeKinematics(createReach(30, 0.3), times);
+    expect(compareKinematics(steady, reference, pairs).smoothnessScore).toBe(100);
+  });
+});
@@ -0,0 +1,188 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { BODY_REGIONS, NUM_POSE_LANDMARKS } from './landmarks';
+
+/**
+ * Differences in log dimensionless jerk (see `KinematicProfile.smoothness`) at which the smoothness
+ * score reaches 0. LDLJ is logarithmic, so a difference of 3 means roughly 20 times as much jerk.
+ */
+const SMOOTHNESS_CAP = 3;
+
+/** Landmarks used for the whole-body speed profile. The face is left out, as head landmarks jitter the most. */
+const BODY_LANDMARKS: number[] = Array.from({ length: NUM_POSE_LANDMARKS }, (_, k) => k)
+  .filter(k => !BODY_REGIONS.head.includes(k));
+
+interface Vector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Velocity and acceleration of a pose sequence, derived from landmark positions and frame times. */
+export interface KinematicProfile {
+  /** Speed of each landmark per frame, in normalized image units per second. Undefined for frames without a pose. */
+  speed: (number[] | undefined)[];
+  /** Acceleration magnitude of each landmark per frame, in normalized image units per second squared. */
+  acceleration: (number[] | undefined)[];
+  /** Mean speed of the body landmarks (excluding the face) per frame. */
+  meanSpeed: (number | undefined)[];
+  /** Mean acceleration of the body landmarks per frame. */
+  meanAcceleration: (number | undefined)[];
+  peakSpeed: number;
+  /**
+   * Log dimensionless jerk (LDLJ) of the mean speed profile: -ln(T^3 / v_peak^2 * integral of jerk^2).
+   * Always negative in practice; closer to 0 is smoother. Undefined with fewer than 4 frames
+   * with a pose, or if the body does not move at all.
+   */
+  smoothness?: number;
+}
+
+/** How the movement of sequence 1 compares with that of sequence 2. Scores are 0-100. */
+export interface KinematicComparison {
+  /** Similarity of the mean speed at each aligned frame pair, relative to the faster sequence's peak speed. */
+  speedScore: number;
+  /** Similarity of the mean acceleration at each aligned frame pair, relative to the larger peak acceleration. */
+  accelerationScore: number;
+  /** 100 if sequence 1 is at least as smooth as sequence 2, decreasing as it gets jerkier. */
+  smoothnessScore: number;
+  /** Mean of the three scores. */
+  score: number;
+  smoothness1?: number;
+  smoothness2?: number;
+  meanSpeed1: (number | undefined)[];
+  meanSpeed2: (number | undefined)[];
+}
+
+function subtract(a: Vector, b: Vector): Vector {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(v: Vector, factor: number): Vector {
+  return { x: v.x * factor, y: v.y * factor, z: v.z * factor };
+}
+
+function magnitude(v: Vector): number {
+  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+}
+
+/**
+ * Differentiates a series sampled at (possibly uneven) times: central differences inside,
+ * one-sided differences at the ends. Samples with equal times are treated as 1 time unit apart.
+ */
+function differentiate<T>(values: T[], times: number[], diff: (a: T, b: T, dt: number) => T): T[] {
+  if (values.length < 2) return values.map(value => diff(value, value, 1));
+  return values.map((_, p) => {
+    const before = Math.max(0, p - 1);
+    const after = Math.min(values.length - 1, p + 1);
+    const dt = times[after] - times[before];
+    return diff(values[after], values[before], dt > 0 ? dt : after - before);
+  });
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Log dimensionless jerk of a speed profile, see `KinematicProfile.smoothness`. */
+function calculateSmoothness(speeds: number[], times: number[]): number | undefined {
+  if (speeds.length < 4) return undefined;
+  const peakSpeed = Math.max(...speeds);
+  const duration = times[times.length - 1] - times[0];
+  if (peakSpeed <= 0 || duration <= 0) return undefined;
+
+  const scalarDiff = (a: number, b: number, dt: number) => (a - b) / dt;
+  const jerk = differentiate(differentiate(speeds, times, scalarDiff), times, scalarDiff);
+  let integral = 0;
+  for (let p = 1; p < jerk.length; p++) {
+    integral += ((jerk[p] * jerk[p] + jerk[p - 1] * jerk[p - 1]) / 2) * (times[p] - times[p - 1]);
+  }
+  const dimensionlessJerk = (Math.pow(duration, 3) / (peakSpeed * peakSpeed)) * integral;
+  // A perfectly even profile has no jerk at all; cap it rather than returning infinity.
+  return parseFloat((-Math.log(Math.max(dimensionlessJerk, 1e-6))).toFixed(3));
+}
+
+/**
+ * Derives per-landmark velocity and acceleration from a pose sequence.
+ * Frames without a pose are skipped, so differences span the gap using the real frame times.
+ *
+ * @param poses Pose landmarks per frame (undefined where no pose was detected).
+ * @param timestamps Time in seconds of each frame. Without timestamps, frames are taken to be 1 second apart.
+ * @returns The kinematic profile of the sequence.
+ */
+export function computeKinematics(poses: (NormalizedLandmarkList | undefined)[], timestamps?: number[]): KinematicProfile {
+  const frames = poses.map((lms, i) => (lms && lms.length === NUM_POSE_LANDMARKS ? i : -1)).filter(i => i >= 0);
+  const times = frames.map(i => (timestamps ? timestamps[i] : i));
+  const vectorDiff = (a: Vector, b: Vector, dt: number) => scale(subtract(a, b), 1 / dt);
+
+  const speed: (number[] | undefined)[] = poses.map(() => undefined);
+  const acceleration: (number[] | undefined)[] = poses.map(() => undefined);
+  for (let k = 0; k < NUM_POSE_LANDMARKS; k++) {
+    const positions = frames.map(i => poses[i][k] as Vector);
+    const velocities = differentiate(positions, times, vectorDiff);
+    const accelerations = differentiate(velocities, times, vectorDiff);
+    frames.forEach((i, p) => {
+      if (!speed[i]) {
+        speed[i] = new Array(NUM_POSE_LANDMARKS);
+        acceleration[i] = new Array(NUM_POSE_LANDMARKS);
+      }
+      speed[i][k] = magnitude(velocities[p]);
+      acceleration[i][k] = magnitude(accelerations[p]);
+    });
+  }
+
+  const meanSpeed = speed.map(values => (values ? mean(BODY_LANDMARKS.map(k => values[k])) : undefined));
+  const meanAcceleration = acceleration.map(values => (values ? mean(BODY_LANDMARKS.map(k => values[k])) : undefined));
+  const speedProfile = frames.map(i => meanSpeed[i]);
+
+  return {
+    speed,
+    acceleration,
+    meanSpeed,
+    meanAcceleration,
+    peakSpeed: speedProfile.length > 0 ? Math.max(...speedProfile) : 0,
+    smoothness: calculateSmoothness(speedProfile, times),
+  };
+}
+
+/** Mean absolute difference of two series at the given frame pairs, relative to the larger peak, as a 0-100 score. */
+function compareSeries(series1: (number | undefined)[], series2: (number | undefined)[], pairs: [number, number][]): number {
+  const compared = pairs.filter(([i, j]) => series1[i] !== undefined && series2[j] !== undefined);
+  if (compared.length === 0) return 0;
+  const peak = Math.max(...compared.map(([i, j]) => Math.max(series1[i], series2[j])));
+  // Neither sequence moves at all: they match.
+  if (peak <= 0) return 100;
+  const meanDifference = mean(compared.map(([i, j]) => Math.abs(series1[i] - series2[j])));
+  return Math.max(0, 1 - meanDifference / peak) * 100;
+}
+
+/**
+ * Compares the kinematic profiles of two sequences along a frame alignment.
+ *
+ * @param profile1 Profile of the sequence being assessed (e.g. the user).
+ * @param profile2 Profile of the reference sequence.
+ * @param pairs Aligned frame pairs [frame1, frame2], e.g. from DTW or index alignment.
+ * @returns Speed, acceleration and smoothness scores and their mean.
+ */
+export function compareKinematics(profile1: KinematicProfile, profile2: KinematicProfile, pairs: [number, number][]): KinematicComparison {
+  const speedScore = compareSeries(profile1.meanSpeed, profile2.meanSpeed, pairs);
+  const accelerationScore = compareSeries(profile1.meanAcceleration, profile2.meanAcceleration, pairs);
+
+  // Being smoother than the reference is not penalised. Without a smoothness value on either side, there is nothing to hold against sequence 1.
+  let smoothnessScore = 100;
+  if (profile1.smoothness !== undefined && profile2.smoothness !== undefined) {
+    const shortfall = Math.max(0, profile2.smoothness - profile1.smoothness);
+    smoothnessScore = Math.max(0, 1 - shortfall / SMOOTHNESS_CAP) * 100;
+  }
+
+  const round = (value: number) => parseFloat(value.toFixed(1));
+  const roundSeries = (series: (number | undefined)[]) => series.map(value => (value === undefined ? undefined : parseFloat(value.toFixed(4))));
+  return {
+    speedScore: round(speedScore),
+    accelerationScore: round(accelerationScore),
+    smoothnessScore: round(smoothnessScore),
+    score: round((speedScore + accelerationScore + smoothnessScore) / 3),
+    smoothness1: profile1.smoothness,
+    smoothness2: profile2.smoothness,
+    meanSpeed1: roundSeries(profile1.meanSpeed),
+    meanSpeed2: roundSeries(profile2.meanSpeed),
+  };
+}
@@ -0,0 +1,74 @@
+import { smoothPoseSequence, measureJitter } from './landmark_smoothing';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose with every landmark at the same position
+const createPose = (x: number, y: number, visibility: number = 0.9): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x, y, z: 0, visibility });
+  }
+  return landmarks;
+};
+
+// A steady movement to the right with alternating vertical jitter
+const createJitteryPoses = (frames: number, jitter: number = 0.02): NormalizedLandmarkList[] =>
+  Array.from({ length: frames }, (_, i) => createPose(0.2 + i * 0.02, 0.5 + (i % 2 === 0 ? jitter : -jitter)));
+
+describe('smoothPoseSequence', () => {
+  test('should reduce jitter with every method and keep the raw sequence unchanged', () => {
+    const poses = createJitteryPoses(12);
+    const rawJitter = measureJitter(poses);
+    (['moving_average', 'savitzky_golay', 'one_euro'] as const).forEach(method => {
+      const smoothed = smoothPoseSequence(poses, { method });
+      expect(measureJitter(smoothed)).toBeLessThan(rawJitter / 2);
+    });
+    expect(measureJitter(poses)).toBe(rawJitter);
+    expect(poses[0][0].y).toBeCloseTo(0.52);
+  });
+
+  test('should keep a straight line with Savitzky-Golay, even at the edges', () => {
+    const poses = Array.from({ length: 6 }, (_, i) => createPose(0.1 + i * 0.05, 0.5));
+    const smoothed = smoothPoseSequence(poses, { method: 'savitzky_golay', window: 5, polyOrder: 2 });
+    smoothed.forEach((landmarks, i) => expect(landmarks[0].x).toBeCloseTo(0.1 + i * 0.05));
+  });
+
+  test('should average over a centered window', () => {
+    const poses = [0.1, 0.4, 0.1, 0.4, 0.1].map(y => createPose(0.5, y));
+    const smoothed = smoothPoseSequence(poses, { method: 'moving_average', window: 3 });
+    expect(smoothed[2][0].y).toBeCloseTo(0.3);
+    // The first frame's window is shifted inside the sequence: frames 0-2
+    expect(smoothed[0][0].y).toBeCloseTo(0.2);
+  });
+
+  test('should not smooth across frames without a pose or touch visibility', () => {
+    const poses = [createPose(0.1, 0.1, 0.3), createPose(0.1, 0.1, 0.8), undefined, createPose(0.9, 0.9), createPose(0.9, 0.9)];
+    const smoothed = smoothPoseSequence(poses, { method: 'moving_average', window: 5 });
+    expect(smoothed[1][0].x).toBeCloseTo(0.1);
+    expect(smoothed[2]).toBeUndefined();
+    expect(smoothed[3][0].x).toBeCloseTo(0.9);
+    expect(smoothed[0][0].visibility).toBe(0.3);
+  });
+
+  test('should follow fast movement more closely than slow jitter with the One Euro filter', () => {
+    const timestamps = Array.from({ length: 10 }, (_, i) => i / 10);
+    const still = smoothPoseSequence(createJitteryPoses(10, 0.01).map(pose => pose.map(lm => ({ ...lm, x: 0.5 }))), { method: 'one_euro', timestamps });
+    const moving = smoothPoseSequence(Array.from({ length: 10 }, (_, i) => createPose(0.1 * i, 0.5)), { method: 'one_euro', timestamps });
+    // At rest the jitter is mostly removed; in motion the lag behind the raw position stays small
+    expect(Math.abs(still[9][0].y - 0.5)).toBeLessThan(0.005);
+    expect(0.9 - moving[9][0].x).toBeLessThan(0.15);
+  });
+
+  test('should return a copy for method "none"', () => {
+    const poses = createJitteryPoses(3);
+    const result = smoothPoseSequence(poses, { method: 'none' });
+    expect(result).toEqual(poses);
+    expect(result).not.toBe(poses);
+  });
+});
+
+describe('measureJitter', () => {
+  test('should be zero for steady movement and without enough frames', () => {
+    expect(measureJitter(Array.from({ length: 5 }, (_, i) => createPose(0.1 * i, 0.5)))).toBeCloseTo(0);
+    expect(measureJitter([createPose(0.1, 0.1), undefined, createPose(0.5, 0.5)])).toBe(0);
+  });
+});
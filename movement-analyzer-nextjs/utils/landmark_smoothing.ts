@@ -0,0 +1,188 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { NUM_POSE_LANDMARKS } from './landmarks';
+
+/**
+ * - 'moving_average': mean over a centered window. Simple, but flattens the peaks of fast movements.
+ * - 'savitzky_golay': local polynomial fit over a centered window. Keeps peaks better than the mean.
+ * - 'one_euro': adaptive low-pass filter that smooths more at low speed and less at high speed.
+ */
+export type SmoothingMethod = 'none' | 'moving_average' | 'savitzky_golay' | 'one_euro';
+
+export const SMOOTHING_METHODS: SmoothingMethod[] = ['none', 'moving_average', 'savitzky_golay', 'one_euro'];
+
+export interface SmoothingOptions {
+  method: SmoothingMethod;
+  /** Frames in the window of 'moving_average' and 'savitzky_golay'. Rounded up to an odd number; defaults to 5. */
+  window?: number;
+  /** Polynomial order of 'savitzky_golay'. Defaults to 2. */
+  polyOrder?: number;
+  /** Cutoff frequency in Hz of 'one_euro' at rest. Lower smooths more. Defaults to 1. */
+  minCutoff?: number;
+  /** How fast the 'one_euro' cutoff rises with speed. Higher lags less in fast movements. Defaults to 0.5. */
+  beta?: number;
+  /** Time in seconds of each frame, used by 'one_euro'. Without them, frames are taken to be 1/30 s apart. */
+  timestamps?: number[];
+}
+
+type Axis = 'x' | 'y' | 'z';
+const AXES: Axis[] = ['x', 'y', 'z'];
+const DEFAULT_FRAME_INTERVAL_S = 1 / 30;
+const ONE_EURO_DERIVATIVE_CUTOFF_HZ = 1;
+
+/** Splits the frames with a full pose into runs of consecutive frames. Filters never smooth across a gap. */
+function findSegments(poses: (NormalizedLandmarkList | undefined)[]): number[][] {
+  const segments: number[][] = [];
+  let current: number[] = [];
+  poses.forEach((landmarks, frame) => {
+    if (landmarks && landmarks.length === NUM_POSE_LANDMARKS) {
+      current.push(frame);
+    } else if (current.length > 0) {
+      segments.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) segments.push(current);
+  return segments;
+}
+
+/** Window [lo, hi] (indices into a segment of `length`) around `i`, shifted to stay inside the segment. */
+function windowAround(i: number, length: number, window: number): [number, number] {
+  const size = Math.min(window, length);
+  const lo = Math.max(0, Math.min(i - Math.floor(size / 2), length - size));
+  return [lo, lo + size - 1];
+}
+
+/** Solves the linear system `matrix * x = rhs` by Gaussian elimination with partial pivoting. */
+function solve(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Savitzky-Golay weights: the value at offset 0 of a least-squares polynomial of `degree` fitted
+ * to samples at `offsets`, as a weighted sum of the samples.
+ */
+function savitzkyGolayWeights(offsets: number[], degree: number): number[] {
+  const powers = (u: number) => Array.from({ length: degree + 1 }, (_, j) => Math.pow(u, j));
+  const normal = Array.from({ length: degree + 1 }, (_, j) =>
+    Array.from({ length: degree + 1 }, (__, k) => offsets.reduce((sum, u) => sum + Math.pow(u, j + k), 0))
+  );
+  const unit = new Array<number>(degree + 1).fill(0);
+  unit[0] = 1;
+  const c = solve(normal, unit);
+  return offsets.map(u => powers(u).reduce((sum, p, j) => sum + p * c[j], 0));
+}
+
+/** Smooths one segment with a weighted window per frame (moving average or Savitzky-Golay). */
+function smoothWindowed(values: number[], window: number, weightsFor: (offsets: number[]) => number[]): number[] {
+  const cache = new Map<string, number[]>();
+  return values.map((_, i) => {
+    const [lo, hi] = windowAround(i, values.length, window);
+    const key = `${lo - i},${hi - i}`;
+    if (!cache.has(key)) cache.set(key, weightsFor(Array.from({ length: hi - lo + 1 }, (__, k) => lo + k - i)));
+    return cache.get(key).reduce((sum, weight, k) => sum + weight * values[lo + k], 0);
+  });
+}
+
+/** Smoothing factor of an exponential low-pass filter with the given cutoff, for a sample interval `dt`. */
+function lowPassAlpha(cutoffHz: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dt);
+}
+
+/** One Euro filter (Casiez et al., 2012) over one segment. */
+function smoothOneEuro(values: number[], intervals: number[], minCutoff: number, beta: number): number[] {
+  const smoothed: number[] = [];
+  let derivative = 0;
+  values.forEach((value, i) => {
+    if (i === 0) {
+      smoothed.push(value);
+      return;
+    }
+    const dt = intervals[i];
+    const rawDerivative = (value - smoothed[i - 1]) / dt;
+    derivative += lowPassAlpha(ONE_EURO_DERIVATIVE_CUTOFF_HZ, dt) * (rawDerivative - derivative);
+    const cutoff = minCutoff + beta * Math.abs(derivative);
+    smoothed.push(smoothed[i - 1] + lowPassAlpha(cutoff, dt) * (value - smoothed[i - 1]));
+  });
+  return smoothed;
+}
+
+/**
+ * Smooths landmark trajectories over time. Frames without a full pose are kept as they are and
+ * split the sequence, so no filter smooths across them. Visibility is not smoothed. The input
+ * is not modified, so the raw sequence stays available.
+ *
+ * @param poses Landmarks per frame (undefined where no pose was detected), e.g. from
+ *              `estimatePosesForFrames`. World landmarks work the same way.
+ * @param options Filter and its parameters.
+ * @returns A new, smoothed sequence of the same length.
+ */
+export function smoothPoseSequence<T extends NormalizedLandmarkList>(poses: (T | undefined)[], options: SmoothingOptions): (T | undefined)[] {
+  if (options.method === 'none') return poses.slice();
+  const window = Math.max(1, Math.round(options.window ?? 5) | 1);
+  const polyOrder = Math.max(0, Math.round(options.polyOrder ?? 2));
+  const minCutoff = options.minCutoff ?? 1;
+  const beta = options.beta ?? 0.5;
+
+  const smoothed = poses.map(landmarks => (landmarks ? (landmarks.map(landmark => ({ ...landmark })) as T) : landmarks));
+  findSegments(poses).forEach(frames => {
+    const intervals = frames.map((frame, i) => {
+      const dt = i > 0 && options.timestamps ? options.timestamps[frame] - options.timestamps[frames[i - 1]] : NaN;
+      return dt > 0 ? dt : DEFAULT_FRAME_INTERVAL_S;
+    });
+    for (let landmark = 0; landmark < NUM_POSE_LANDMARKS; landmark++) {
+      AXES.forEach(axis => {
+        const values = frames.map(frame => poses[frame][landmark][axis] ?? 0);
+        let result: number[];
+        if (options.method === 'moving_average') {
+          result = smoothWindowed(values, window, offsets => offsets.map(() => 1 / offsets.length));
+        } else if (options.method === 'savitzky_golay') {
+          result = smoothWindowed(values, window, offsets => savitzkyGolayWeights(offsets, Math.min(polyOrder, offsets.length - 1)));
+        } else {
+          result = smoothOneEuro(values, intervals, minCutoff, beta);
+        }
+        frames.forEach((frame, i) => { smoothed[frame][landmark][axis] = result[i]; });
+      });
+    }
+  });
+  return smoothed;
+}
+
+/**
+ * Mean frame-to-frame jitter of a pose sequence: the average magnitude of each landmark's second
+ * difference (x and y), over runs of three consecutive frames with a pose. Steady movement
+ * contributes little; shaking back and forth contributes a lot.
+ */
+export function measureJitter(poses: (NormalizedLandmarkList | undefined)[]): number {
+  let total = 0;
+  let count = 0;
+  findSegments(poses).forEach(frames => {
+    for (let i = 2; i < frames.length; i++) {
+      const [a, b, c] = [poses[frames[i - 2]], poses[frames[i - 1]], poses[frames[i]]];
+      for (let landmark = 0; landmark < NUM_POSE_LANDMARKS; landmark++) {
+        const dx = a[landmark].x - 2 * b[landmark].x + c[landmark].x;
+        const dy = a[landmark].y - 2 * b[landmark].y + c[landmark].y;
+        total += Math.sqrt(dx * dx + dy * dy);
+        count++;
+      }
+    }
+  });
+  return count > 0 ? total / count : 0;
+}
@@ -0,0 +1,85 @@
+/**
+ * MediaPipe Pose landmark indices by name.
+ * Defined here rather than taken from `@mediapipe/pose`, whose POSE_LANDMARKS
+ * export omits the leg landmarks.
+ */
+export const LANDMARK = {
+  NOSE: 0,
+  LEFT_EYE_INNER: 1,
+  LEFT_EYE: 2,
+  LEFT_EYE_OUTER: 3,
+  RIGHT_EYE_INNER: 4,
+  RIGHT_EYE: 5,
+  RIGHT_EYE_OUTER: 6,
+  LEFT_EAR: 7,
+  RIGHT_EAR: 8,
+  MOUTH_LEFT: 9,
+  MOUTH_RIGHT: 10,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_PINKY: 17,
+  RIGHT_PINKY: 18,
+  LEFT_INDEX: 19,
+  RIGHT_INDEX: 20,
+  LEFT_THUMB: 21,
+  RIGHT_THUMB: 22,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
+  LEFT_KNEE: 25,
+  RIGHT_KNEE: 26,
+  LEFT_ANKLE: 27,
+  RIGHT_ANKLE: 28,
+  LEFT_HEEL: 29,
+  RIGHT_HEEL: 30,
+  LEFT_FOOT_INDEX: 31,
+  RIGHT_FOOT_INDEX: 32,
+} as const;
+
+export const NUM_POSE_LANDMARKS = 33;
+
+/** Human-readable landmark names, indexed by landmark index (e.g. LANDMARK_NAMES[25] === 'left knee'). */
+export const LANDMARK_NAMES: string[] = (() => {
+  const names: string[] = new Array(NUM_POSE_LANDMARKS);
+  (Object.keys(LANDMARK) as (keyof typeof LANDMARK)[]).forEach(key => {
+    names[LANDMARK[key]] = key.toLowerCase().replace(/_/g, ' ');
+  });
+  return names;
+})();
+
+/**
+ * The index of each landmark's left/right counterpart, indexed by landmark index
+ * (e.g. MIRRORED_LANDMARK[LANDMARK.LEFT_KNEE] === LANDMARK.RIGHT_KNEE). The nose maps to itself.
+ */
+export const MIRRORED_LANDMARK: number[] = (() => {
+  const mirrored: number[] = new Array(NUM_POSE_LANDMARKS);
+  (Object.keys(LANDMARK) as (keyof typeof LANDMARK)[]).forEach(key => {
+    const counterpart = key.includes('LEFT') ? key.replace('LEFT', 'RIGHT') : key.replace('RIGHT', 'LEFT');
+    mirrored[LANDMARK[key]] = LANDMARK[counterpart as keyof typeof LANDMARK];
+  });
+  return mirrored;
+})();
+
+export type BodyRegion = 'head' | 'torso' | 'left_arm' | 'right_arm' | 'left_leg' | 'right_leg';
+
+/** Landmark indices belonging to each body region. Every landmark is in exactly one region. */
+export const BODY_REGIONS: Record<BodyRegion, number[]> = {
+  head: [
+    LANDMARK.NOSE, LANDMARK.LEFT_EYE_INNER, LANDMARK.LEFT_EYE, LANDMARK.LEFT_EYE_OUTER,
+    LANDMARK.RIGHT_EYE_INNER, LANDMARK.RIGHT_EYE, LANDMARK.RIGHT_EYE_OUTER,
+    LANDMARK.LEFT_EAR, LANDMARK.RIGHT_EAR, LANDMARK.MOUTH_LEFT, LANDMARK.MOUTH_RIGHT,
+  ],
+  torso: [LANDMARK.LEFT_SHOULDER, LANDMARK.RIGHT_SHOULDER, LANDMARK.LEFT_HIP, LANDMARK.RIGHT_HIP],
+  left_arm: [LANDMARK.LEFT_ELBOW, LANDMARK.LEFT_WRIST, LANDMARK.LEFT_PINKY, LANDMARK.LEFT_INDEX, LANDMARK.LEFT_THUMB],
+  right_arm: [LANDMARK.RIGHT_ELBOW, LANDMARK.RIGHT_WRIST, LANDMARK.RIGHT_PINKY, LANDMARK.RIGHT_INDEX, LANDMARK.RIGHT_THUMB],
+  left_leg: [LANDMARK.LEFT_KNEE, LANDMARK.LEFT_ANKLE, LANDMARK.LEFT_HEEL, LANDMARK.LEFT_FOOT_INDEX],
+  right_leg: [LANDMARK.RIGHT_KNEE, LANDMARK.RIGHT_ANKLE, LANDMARK.RIGHT_HEEL, LANDMARK.RIGHT_FOOT_INDEX],
+};
+
+/** Formats a body region for display, e.g. 'left_leg' -> 'left leg'. */
+export function formatBodyRegion(region: BodyRegion): string {
+  return region.replace(/_/g, ' ');
+}
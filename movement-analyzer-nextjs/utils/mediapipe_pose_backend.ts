@@ -0,0 +1,158 @@
+import { Pose, Results as PoseResults } from '@mediapipe/pose';
+import { createCanvas, loadImage, Image as CanvasImage } from 'canvas'; // Use CanvasImage to avoid conflict with DOM Image
+import fs from 'fs';
+import path from 'path';
+import type { PoseBackend, PoseFrameResult } from './pose_backend';
+import { getPoseBoundingBox } from './person_tracking';
+
+/**
+ * Directory with MediaPipe Pose's WASM and model files. The `@mediapipe/pose` package ships them,
+ * so by default they are loaded from node_modules and no network access is needed.
+ */
+export const POSE_ASSETS_DIR = process.env.POSE_ASSETS_DIR || path.join(process.cwd(), 'node_modules', '@mediapipe', 'pose');
+
+/** Margin, as a share of the person's size, masked around each person found before looking for the next. */
+const PERSON_MASK_MARGIN = 0.1;
+
+export interface MediaPipePoseBackendOptions {
+  /** Defaults to POSE_ASSETS_DIR. */
+  assetsDir?: string;
+  /** 0 (lite), 1 (full) or 2 (heavy): trades speed for accuracy. Defaults to 1. */
+  modelComplexity?: 0 | 1 | 2;
+}
+
+// Runs the estimator on one image and waits for its results
+function detectPose(poseEstimator: Pose, image: CanvasImage | ReturnType<typeof createCanvas>): Promise<PoseResults> {
+  // MediaPipe's `send` method expects an object that resembles an HTMLImageElement or HTMLVideoElement.
+  // The `Image` object from `canvas` might work directly or might need shimming.
+  // The `as unknown as HTMLImageElement` cast is a common attempt to satisfy TypeScript
+  // when the underlying JS might be more flexible. This is a critical point for compatibility.
+  // We also need to ensure the image has width and height properties, which `canvas.Image` provides.
+  const inputForPose = {
+    image: image as unknown as HTMLImageElement, // This cast is often needed
+    width: image.width,   // Explicitly providing width
+    height: image.height, // Explicitly providing height
+  };
+  return new Promise((resolve) => {
+    poseEstimator.onResults((res: PoseResults) => {
+      resolve(res);
+    });
+    poseEstimator.send(inputForPose);
+  });
+}
+
+/**
+ * MediaPipe Pose, loading its WASM and model files from a local directory.
+ *
+ * MediaPipe Pose finds one person per image, so `estimatePeople` runs it repeatedly on each frame,
+ * masking every person found before looking for the next.
+ *
+ * @param options Asset directory and model complexity.
+ * @returns A backend that runs a fresh estimator for every clip, so tracking never carries over between clips.
+ */
+export function createMediaPipePoseBackend(options: MediaPipePoseBackendOptions = {}): PoseBackend {
+  const assetsDir = options.assetsDir ?? POSE_ASSETS_DIR;
+
+  const createEstimator = (smoothLandmarks: boolean): Pose => {
+    if (!fs.existsSync(assetsDir)) {
+      throw new Error(`MediaPipe Pose assets not found in ${assetsDir}. Set POSE_ASSETS_DIR to the directory with the WASM and model files.`);
+    }
+
+    // Initialize MediaPipe Pose
+    // Note: This configuration is crucial for Node.js execution.
+    // The WASM and model files must be readable from the asset directory.
+    const poseEstimator = new Pose({
+      locateFile: (file) => path.join(assetsDir, file),
+    });
+
+    poseEstimator.setOptions({
+      modelComplexity: options.modelComplexity ?? 1, // 0 (lite), 1 (full), 2 (heavy) - balance accuracy/performance
+      smoothLandmarks,          // Filter landmarks across frames to reduce jitter
+      minDetectionConfidence: 0.5, // Minimum confidence value for pose detection
+      minTrackingConfidence: 0.5,  // Minimum confidence value for tracking across frames
+    });
+    return poseEstimator;
+  };
+
+  const estimateFrames = async (framePaths: string[]): Promise<PoseFrameResult[]> => {
+    if (!framePaths || framePaths.length === 0) {
+      return [];
+    }
+    const poseEstimator = createEstimator(true);
+
+    const allPoseResults: PoseFrameResult[] = [];
+
+    try {
+      for (const framePath of framePaths) {
+        let image: CanvasImage;
+        try {
+          image = await loadImage(framePath);
+        } catch (error: any) {
+          console.error(`Failed to load image: ${framePath}`, error);
+          allPoseResults.push({}); // Add an empty result if image loading fails
+          continue; // Skip to the next frame
+        }
+
+        try {
+          const results = await detectPose(poseEstimator, image);
+          allPoseResults.push({ landmarks: results.poseLandmarks, worldLandmarks: results.poseWorldLandmarks });
+        } catch (error: any) {
+            console.error(`Error during pose estimation for frame ${framePath}:`, error);
+            allPoseResults.push({});
+        }
+      }
+    } finally {
+      // Close the pose estimator to free up resources
+      // This is important, especially if creating estimators frequently.
+      await poseEstimator.close();
+    }
+
+    return allPoseResults;
+  };
+
+  const estimatePeople = async (framePaths: string[], maxPeople: number): Promise<PoseFrameResult[][]> => {
+    if (!framePaths || framePaths.length === 0) {
+      return [];
+    }
+    // Every pass must detect afresh, so landmarks are neither smoothed nor tracked between passes
+    const poseEstimator = createEstimator(false);
+    const allPeople: PoseFrameResult[][] = [];
+
+    try {
+      for (const framePath of framePaths) {
+        const people: PoseFrameResult[] = [];
+        try {
+          const image = await loadImage(framePath);
+          const canvas = createCanvas(image.width, image.height);
+          const ctx = canvas.getContext('2d');
+          ctx.drawImage(image, 0, 0);
+          ctx.fillStyle = 'black';
+          while (people.length < maxPeople) {
+            poseEstimator.reset();
+            const results = await detectPose(poseEstimator, canvas);
+            if (!results.poseLandmarks) break;
+            people.push({ landmarks: results.poseLandmarks, worldLandmarks: results.poseWorldLandmarks });
+            const box = getPoseBoundingBox(results.poseLandmarks);
+            const marginX = box.width * PERSON_MASK_MARGIN;
+            const marginY = box.height * PERSON_MASK_MARGIN;
+            ctx.fillRect(
+              (box.x - marginX) * image.width,
+              (box.y - marginY) * image.height,
+              (box.width + 2 * marginX) * image.width,
+              (box.height + 2 * marginY) * image.height
+            );
+          }
+        } catch (error: any) {
+          console.error(`Error during multi-person pose estimation for frame ${framePath}:`, error);
+        }
+        allPeople.push(people);
+      }
+    } finally {
+      await poseEstimator.close();
+    }
+
+    return allPeople;
+  };
+
+  return { name: 'mediapipe', estimateFrames, estimatePeople };
+}
@@ -0,0 +1,97 @@
+import { boxOverlap, getPoseBoundingBox, parseSubjectSelection, selectSubject, summarizeTrack, trackPeople } from './person_tracking';
+import { createFakeBystanderResult, createFakePoseResult } from './fake_pose_backend';
+import { PoseFrameResult } from './pose_backend';
+
+// The subject in the middle of the frame and a smaller spotter to their left, detected in alternating order
+const createFramePeople = (frameCount: number): PoseFrameResult[][] =>
+  Array.from({ length: frameCount }, (_, frame) => {
+    const people = [createFakePoseResult(frame), createFakeBystanderResult(frame, -0.3)];
+    return frame % 2 === 0 ? people : people.reverse();
+  });
+
+const timestamps = [0, 0.1, 0.2, 0.3, 0.4, 0.5];
+
+describe('trackPeople', () => {
+  test('should keep each person on their own track when the detection order changes', () => {
+    const framePeople = createFramePeople(6);
+    const tracks = trackPeople(framePeople);
+
+    expect(tracks).toHaveLength(2);
+    tracks[0].frames.forEach((result, frame) => expect(result).toBe(framePeople[frame][frame % 2]));
+    // Track 0 started with the subject, who stays near the middle of the frame
+    tracks[0].boxes.forEach(box => expect(box.x + box.width / 2).toBeGreaterThan(0.4));
+    tracks[1].boxes.forEach(box => expect(box.x + box.width / 2).toBeLessThan(0.3));
+  });
+
+  test('should continue a track across a short gap and start a new one after a long gap', () => {
+    const framePeople = createFramePeople(12).map(people => people.filter(person => person.landmarks[0].x > 0.4)); // The subject only
+    [2, 3, 6, 7, 8, 9, 10].forEach(frame => { framePeople[frame] = []; });
+
+    const tracks = trackPeople(framePeople, { maxGap: 3 });
+    expect(tracks).toHaveLength(2);
+    expect(summarizeTrack(tracks[0])).toMatchObject({ id: 0, firstFrame: 0, lastFrame: 5, frameCount: 4 });
+    expect(summarizeTrack(tracks[1])).toMatchObject({ id: 1, firstFrame: 11, lastFrame: 11, frameCount: 1 });
+    expect(tracks[0].frames[2]).toBeUndefined();
+  });
+});
+
+describe('selectSubject', () => {
+  const tracks = trackPeople(createFramePeople(6));
+
+  test('should pick the most prominent person automatically', () => {
+    expect(selectSubject(tracks, { type: 'auto' }, timestamps).id).toBe(0);
+  });
+
+  test('should pick the person under a clicked point', () => {
+    expect(selectSubject(tracks, { type: 'point', x: 0.2, y: 0.5, time: 0.3 }, timestamps).id).toBe(1);
+    expect(selectSubject(tracks, { type: 'point', x: 0.5, y: 0.5, time: 0.3 }, timestamps).id).toBe(0);
+    expect(() => selectSubject(tracks, { type: 'point', x: 0.95, y: 0.05, time: 0.3 }, timestamps)).toThrow('No person at (0.95, 0.05) at 0.30s');
+  });
+
+  test('should pick the person best covered by a drawn box', () => {
+    const box = { x: 0.1, y: 0.35, width: 0.2, height: 0.55 };
+    expect(selectSubject(tracks, { type: 'box', box, time: 0 }, timestamps).id).toBe(1);
+    expect(() => selectSubject(tracks, { type: 'box', box: { x: 0.9, y: 0, width: 0.1, height: 0.1 }, time: 0 }, timestamps)).toThrow('No person inside the box');
+  });
+
+  test('should pick a track by id and reject unknown ids', () => {
+    expect(selectSubject(tracks, { type: 'track', track: 1 }, timestamps).id).toBe(1);
+    expect(() => selectSubject(tracks, { type: 'track', track: 5 }, timestamps)).toThrow('No tracked person with id 5');
+    expect(() => selectSubject([], { type: 'auto' }, timestamps)).toThrow('No person was detected');
+  });
+});
+
+describe('parseSubjectSelection', () => {
+  test('should accept every kind of selection', () => {
+    expect(parseSubjectSelection('auto')).toEqual({ type: 'auto' });
+    expect(parseSubjectSelection({ type: 'track', track: 2 })).toEqual({ type: 'track', track: 2 });
+    expect(parseSubjectSelection({ type: 'point', x: 0.4, y: 0.6, time: 1.5 })).toEqual({ type: 'point', x: 0.4, y: 0.6, time: 1.5 });
+    expect(parseSubjectSelection({ type: 'box', box: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 }, time: 0 }))
+      .toEqual({ type: 'box', box: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 }, time: 0 });
+  });
+
+  test('should reject invalid selections', () => {
+    expect(() => parseSubjectSelection('first')).toThrow('must be "auto" or an object');
+    expect(() => parseSubjectSelection({ type: 'track', track: -1 })).toThrow('needs a "track" id');
+    expect(() => parseSubjectSelection({ type: 'point', x: 1.4, y: 0.5, time: 0 })).toThrow('between 0 and 1');
+    expect(() => parseSubjectSelection({ type: 'box', box: { x: 0.1, y: 0.1, width: 0, height: 0.2 }, time: 0 })).toThrow('needs a "box"');
+  });
+});
+
+describe('getPoseBoundingBox and boxOverlap', () => {
+  test('should box the visible landmarks and measure overlap as intersection over union', () => {
+    const landmarks = [
+      { x: 0.2, y: 0.1, z: 0, visibility: 0.9 },
+      { x: 0.4, y: 0.5, z: 0, visibility: 0.9 },
+      { x: 0.9, y: 0.9, z: 0, visibility: 0.1 }, // Hidden, left out
+    ];
+    const box = getPoseBoundingBox(landmarks);
+    expect(box.x).toBeCloseTo(0.2);
+    expect(box.width).toBeCloseTo(0.2);
+    expect(box.height).toBeCloseTo(0.4);
+
+    expect(boxOverlap(box, box)).toBeCloseTo(1);
+    expect(boxOverlap(box, { ...box, x: box.x + box.width / 2 })).toBeCloseTo(1 / 3);
+    expect(boxOverlap(box, { ...box, x: 0.8 })).toBe(0);
+  });
+});
@@ -0,0 +1,249 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import type { PoseFrameResult } from './pose_backend';
+import { findNearestFrame } from './key_pose_matching';
+
+/** An axis-aligned box in normalized image coordinates: (x, y) is the top-left corner. */
+export interface PersonBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One person followed across the frames of a clip. */
+export interface PersonTrack {
+  id: number;
+  /** The person's pose per frame, undefined in frames where they were not detected. */
+  frames: (PoseFrameResult | undefined)[];
+  /** The person's bounding box per frame, undefined in frames where they were not detected. */
+  boxes: (PersonBox | undefined)[];
+}
+
+/** A track as reported to clients, without the per-frame poses. */
+export interface TrackSummary {
+  id: number;
+  firstFrame: number;
+  lastFrame: number;
+  /** Number of frames the person was detected in. */
+  frameCount: number;
+  /** Mean bounding box over the frames the person was detected in. */
+  box: PersonBox;
+}
+
+/**
+ * Which tracked person to analyze.
+ * - 'auto': the most prominent person: the largest on average, counting frames they are missing from as empty.
+ * - 'track': a track by its id, as reported by an earlier analysis of the same clip.
+ * - 'point': the person under a point clicked on the frame at `time` seconds.
+ * - 'box': the person best covered by a box drawn on the frame at `time` seconds.
+ */
+export type SubjectSelection =
+  | { type: 'auto' }
+  | { type: 'track'; track: number }
+  | { type: 'point'; x: number; y: number; time: number }
+  | { type: 'box'; box: PersonBox; time: number };
+
+export interface TrackingOptions {
+  /** Least overlap (intersection over union) of a person's boxes in nearby frames to count as the same person. Defaults to 0.2. */
+  minOverlap?: number;
+  /** Most frames a person can go undetected and still continue their track. Defaults to 5. */
+  maxGap?: number;
+  /** Landmarks less visible than this are left out of the bounding box, unless none is visible. Defaults to 0.5. */
+  minVisibility?: number;
+}
+
+/** The result of tracking the people in a clip and choosing the subject. */
+export interface SubjectTracking {
+  tracks: TrackSummary[];
+  selection: SubjectSelection;
+  /** Id of the chosen track. */
+  selectedTrack: number;
+}
+
+// A point or box is looked up in the frames this far either side of the chosen one, should the person be missing from it
+const SELECTION_SEARCH_FRAMES = 2;
+
+/**
+ * The box around a pose's landmarks, clamped to the frame.
+ *
+ * @param landmarks Image landmarks of one person.
+ * @param minVisibility Landmarks less visible than this are left out, unless none is visible.
+ */
+export function getPoseBoundingBox(landmarks: NormalizedLandmarkList, minVisibility: number = 0.5): PersonBox {
+  const visible = landmarks.filter(lm => (lm.visibility ?? 1) >= minVisibility);
+  const points = visible.length > 0 ? visible : landmarks;
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const xs = points.map(lm => clamp(lm.x));
+  const ys = points.map(lm => clamp(lm.y));
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** Intersection over union of two boxes: 1 for the same box, 0 if they do not overlap. */
+export function boxOverlap(a: PersonBox, b: PersonBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/**
+ * Follows each person across the frames of a clip: a person detected in a frame continues the
+ * track whose last box they overlap most, else starts a new track. Pairs are matched greedily,
+ * best overlap first, and each track takes at most one person per frame.
+ *
+ * @param framePeople The people detected in each frame (see `estimatePeopleForFrames`).
+ * @param options Overlap and gap thresholds.
+ * @returns The tracks in the order they first appear, with ids counting from 0.
+ */
+export function trackPeople(framePeople: PoseFrameResult[][], options: TrackingOptions = {}): PersonTrack[] {
+  const minOverlap = options.minOverlap ?? 0.2;
+  const maxGap = options.maxGap ?? 5;
+  const minVisibility = options.minVisibility ?? 0.5;
+  const frameCount = framePeople.length;
+  const tracks: (PersonTrack & { lastFrame: number })[] = [];
+
+  framePeople.forEach((people, frame) => {
+    const detections = people.filter(person => person.landmarks).map(person => ({
+      person,
+      box: getPoseBoundingBox(person.landmarks, minVisibility),
+    }));
+    const open = tracks.filter(track => frame - track.lastFrame <= maxGap + 1);
+    const pairs: { track: typeof tracks[number]; detection: number; overlap: number }[] = [];
+    open.forEach(track => {
+      const lastBox = track.boxes[track.lastFrame];
+      detections.forEach(({ box }, detection) => {
+        const overlap = boxOverlap(lastBox, box);
+        if (overlap >= minOverlap) pairs.push({ track, detection, overlap });
+      });
+    });
+    pairs.sort((a, b) => b.overlap - a.overlap);
+
+    const taken = new Set<number>();
+    const continued = new Set<number>();
+    pairs.forEach(({ track, detection }) => {
+      if (taken.has(detection) || continued.has(track.id)) return;
+      taken.add(detection);
+      continued.add(track.id);
+      track.frames[frame] = detections[detection].person;
+      track.boxes[frame] = detections[detection].box;
+      track.lastFrame = frame;
+    });
+    detections.forEach(({ person, box }, detection) => {
+      if (taken.has(detection)) return;
+      const track = { id: tracks.length, frames: new Array(frameCount).fill(undefined), boxes: new Array(frameCount).fill(undefined), lastFrame: frame };
+      track.frames[frame] = person;
+      track.boxes[frame] = box;
+      tracks.push(track);
+    });
+  });
+
+  return tracks.map(({ id, frames, boxes }) => ({ id, frames, boxes }));
+}
+
+/** Summarizes a track: when the person appears and their mean box. */
+export function summarizeTrack(track: PersonTrack): TrackSummary {
+  const detected = track.boxes.map((box, frame) => ({ box, frame })).filter(({ box }) => box);
+  const mean = (key: keyof PersonBox) =>
+    parseFloat((detected.reduce((sum, { box }) => sum + box[key], 0) / Math.max(1, detected.length)).toFixed(4));
+  return {
+    id: track.id,
+    firstFrame: detected.length > 0 ? detected[0].frame : 0,
+    lastFrame: detected.length > 0 ? detected[detected.length - 1].frame : 0,
+    frameCount: detected.length,
+    box: { x: mean('x'), y: mean('y'), width: mean('width'), height: mean('height') },
+  };
+}
+
+// The track's box at `frame`, or else at the nearest frame within SELECTION_SEARCH_FRAMES
+function boxNear(track: PersonTrack, frame: number): PersonBox | undefined {
+  for (let distance = 0; distance <= SELECTION_SEARCH_FRAMES; distance++) {
+    const box = track.boxes[frame - distance] ?? track.boxes[frame + distance];
+    if (box) return box;
+  }
+  return undefined;
+}
+
+/**
+ * Chooses the tracked person to analyze.
+ *
+ * @param tracks The tracks of the clip (see `trackPeople`).
+ * @param selection How to choose.
+ * @param timestamps Time in seconds of each frame, to find the frame a point or box was drawn on.
+ * @returns The chosen track.
+ * @throws If no person was tracked, or none matches the selection.
+ */
+export function selectSubject(tracks: PersonTrack[], selection: SubjectSelection, timestamps: number[]): PersonTrack {
+  if (tracks.length === 0) {
+    throw new Error('No person was detected in the video.');
+  }
+  if (selection.type === 'auto') {
+    const prominence = (track: PersonTrack) => track.boxes.reduce((sum, box) => sum + (box ? box.width * box.height : 0), 0);
+    return tracks.reduce((best, track) => (prominence(track) > prominence(best) ? track : best));
+  }
+  if (selection.type === 'track') {
+    const track = tracks.find(candidate => candidate.id === selection.track);
+    if (!track) throw new Error(`No tracked person with id ${selection.track}. The video has ${tracks.length} tracked ${tracks.length === 1 ? 'person' : 'people'}.`);
+    return track;
+  }
+
+  const frame = findNearestFrame(timestamps, selection.time);
+  const candidates = tracks.map(track => ({ track, box: boxNear(track, frame) })).filter(({ box }) => box);
+  if (selection.type === 'point') {
+    // Of the people under the point, the one whose centre is closest, so a person standing in front of another wins
+    const distance = (box: PersonBox) => Math.hypot(box.x + box.width / 2 - selection.x, box.y + box.height / 2 - selection.y);
+    const hits = candidates
+      .filter(({ box }) => selection.x >= box.x && selection.x <= box.x + box.width && selection.y >= box.y && selection.y <= box.y + box.height)
+      .sort((a, b) => distance(a.box) - distance(b.box));
+    if (hits.length === 0) {
+      throw new Error(`No person at (${selection.x.toFixed(2)}, ${selection.y.toFixed(2)}) at ${selection.time.toFixed(2)}s.`);
+    }
+    return hits[0].track;
+  }
+  const best = candidates
+    .map(({ track, box }) => ({ track, overlap: boxOverlap(box, selection.box) }))
+    .sort((a, b) => b.overlap - a.overlap)[0];
+  if (!best || best.overlap === 0) {
+    throw new Error(`No person inside the box at ${selection.time.toFixed(2)}s.`);
+  }
+  return best.track;
+}
+
+/**
+ * Validates a subject selection received as JSON: "auto", a track id, or a point or box with the
+ * time in seconds of the frame it was drawn on. Coordinates are normalized to the frame (0-1).
+ *
+ * @throws If the selection is invalid.
+ */
+export function parseSubjectSelection(value: unknown): SubjectSelection {
+  const isFraction = (n: unknown): n is number => typeof n === 'number' && n >= 0 && n <= 1;
+  const isTime = (n: unknown): n is number => typeof n === 'number' && n >= 0 && isFinite(n);
+  if (value === 'auto') return { type: 'auto' };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('The subject must be "auto" or an object with a "type" of "track", "point" or "box".');
+  }
+  const selection = value as Record<string, any>;
+  switch (selection.type) {
+    case 'auto':
+      return { type: 'auto' };
+    case 'track':
+      if (!Number.isInteger(selection.track) || selection.track < 0) throw new Error('A track subject needs a "track" id (an integer of at least 0).');
+      return { type: 'track', track: selection.track };
+    case 'point':
+      if (!isFraction(selection.x) || !isFraction(selection.y) || !isTime(selection.time)) {
+        throw new Error('A point subject needs "x" and "y" between 0 and 1 and a "time" in seconds.');
+      }
+      return { type: 'point', x: selection.x, y: selection.y, time: selection.time };
+    case 'box': {
+      const box = selection.box ?? {};
+      if (![box.x, box.y, box.width, box.height].every(isFraction) || box.width === 0 || box.height === 0 || !isTime(selection.time)) {
+        throw new Error('A box subject needs a "box" of x, y, width and height between 0 and 1 and a "time" in seconds.');
+      }
+      return { type: 'box', box: { x: box.x, y: box.y, width: box.width, height: box.height }, time: selection.time };
+    }
+    default:
+      throw new Error('The subject must be "auto" or an object with a "type" of "track", "point" or "box".');
+  }
+}
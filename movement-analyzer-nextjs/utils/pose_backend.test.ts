@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { Pose } from '@mediapipe/pose';
+import { createPoseBackend, getPoseBackend, setPoseBackend } from './pose_backend';
+import { createFakeBystanderResult, createFakePoseBackend, createFakePoseResult } from './fake_pose_backend';
+import { createMediaPipePoseBackend } from './mediapipe_pose_backend';
+import { estimatePeopleForFrames, estimatePosesForFrames, estimatePoseResultsForFrames } from './pose_estimation';
+import { calculateJointAngles } from './joint_angles';
+
+// MediaPipe answers every frame with the first fake pose; frames are "loaded" without decoding them
+jest.mock('@mediapipe/pose', () => {
+  const instance = {
+    setOptions: jest.fn(),
+    onResults: jest.fn(function (callback) { this.callback = callback; }),
+    send: jest.fn(async function () {
+      const { createFakePoseResult: createResult } = jest.requireActual('./fake_pose_backend');
+      const result = createResult(0);
+      this.callback({ poseLandmarks: result.landmarks, poseWorldLandmarks: result.worldLandmarks });
+    }),
+    close: jest.fn().mockResolvedValue(undefined),
+    reset: jest.fn(),
+  };
+  return { Pose: jest.fn(() => instance) };
+});
+const mockContext = { drawImage: jest.fn(), fillRect: jest.fn(), fillStyle: '' };
+jest.mock('canvas', () => ({
+  loadImage: jest.fn(async () => ({ width: 640, height: 480 })),
+  createCanvas: jest.fn((width: number, height: number) => ({ width, height, getContext: () => mockContext })),
+}));
+
+describe('createMediaPipePoseBackend', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should load the WASM and model files from the asset directory', async () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    const backend = createMediaPipePoseBackend({ assetsDir: '/opt/pose-assets' });
+    const results = await backend.estimateFrames(['0.png', '1.png']);
+
+    expect(results).toHaveLength(2);
+    expect(results[1].landmarks).toHaveLength(33);
+    const { locateFile } = (Pose as unknown as jest.Mock).mock.calls[0][0];
+    expect(locateFile('pose_solution_simd_wasm_bin.wasm')).toBe(path.join('/opt/pose-assets', 'pose_solution_simd_wasm_bin.wasm'));
+  });
+
+  test('should find several people by masking each person found and looking again', async () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+    const estimator = new (Pose as unknown as jest.Mock)();
+    // Two people in the frame: the second pass finds the bystander, the third nobody
+    estimator.send
+      .mockImplementationOnce(async function () {
+        const result = createFakePoseResult(0);
+        this.callback({ poseLandmarks: result.landmarks, poseWorldLandmarks: result.worldLandmarks });
+      })
+      .mockImplementationOnce(async function () {
+        const result = createFakeBystanderResult(0);
+        this.callback({ poseLandmarks: result.landmarks, poseWorldLandmarks: result.worldLandmarks });
+      })
+      .mockImplementationOnce(async function () {
+        this.callback({});
+      });
+    mockContext.fillRect.mockClear();
+
+    const people = await createMediaPipePoseBackend({ assetsDir: '/opt/pose-assets' }).estimatePeople(['0.png'], 4);
+    expect(people).toHaveLength(1);
+    expect(people[0].map(person => person.landmarks)).toEqual([createFakePoseResult(0).landmarks, createFakeBystanderResult(0).landmarks]);
+    expect(mockContext.fillRect).toHaveBeenCalledTimes(2);
+    expect(estimator.reset).toHaveBeenCalled();
+  });
+
+  test('should fail clearly when the asset directory is missing', async () => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+    const backend = createMediaPipePoseBackend({ assetsDir: '/missing' });
+    await expect(backend.estimateFrames(['0.png'])).rejects.toThrow('MediaPipe Pose assets not found in /missing');
+  });
+});
+
+describe('createFakePoseBackend', () => {
+  test('should return the same scripted poses for every clip, starting at frame 0', async () => {
+    const backend = createFakePoseBackend();
+    const first = await backend.estimateFrames(['a_0.png', 'a_1.png', 'a_2.png']);
+    const second = await backend.estimateFrames(['b_0.png', 'b_1.png']);
+
+    expect(first).toHaveLength(3);
+    expect(first[0].landmarks).toHaveLength(33);
+    expect(first[0].worldLandmarks).toHaveLength(33);
+    expect(second[1]).toEqual(first[1]);
+    expect(backend.calls).toEqual([['a_0.png', 'a_1.png', 'a_2.png'], ['b_0.png', 'b_1.png']]);
+  });
+
+  test('should play back a scripted array, with no pose past its end', async () => {
+    const scripted = createFakePoseResult(0);
+    const backend = createFakePoseBackend([scripted, {}]);
+    const results = await backend.estimateFrames(['0.png', '1.png', '2.png']);
+
+    expect(results[0].landmarks).toEqual(scripted.landmarks);
+    expect(results[1].landmarks).toBeUndefined();
+    expect(results[2]).toEqual({});
+  });
+
+  test('should pass the frame index and path to a script function', async () => {
+    const script = jest.fn((frame: number) => (frame === 1 ? {} : createFakePoseResult(frame)));
+    const backend = createFakePoseBackend(script);
+    const results = await backend.estimateFrames(['x.png', 'y.png']);
+
+    expect(script).toHaveBeenCalledWith(1, 'y.png');
+    expect(results[1].landmarks).toBeUndefined();
+  });
+});
+
+describe('estimatePeopleForFrames', () => {
+  test('should return everyone the backend detects, up to the limit', async () => {
+    const backend = createFakePoseBackend(undefined, [frame => createFakeBystanderResult(frame), () => ({})]);
+    const people = await estimatePeopleForFrames(['0.png', '1.png'], 4, backend);
+
+    expect(people).toHaveLength(2);
+    expect(people[1]).toHaveLength(2);
+    expect(people[1][1].landmarks).toEqual(createFakeBystanderResult(1).landmarks);
+    expect(await estimatePeopleForFrames(['0.png'], 1, backend)).toEqual([[createFakePoseResult(0)]]);
+  });
+
+  test('should fall back to one person per frame for single-person backends', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { estimatePeople, ...singlePerson } = createFakePoseBackend([createFakePoseResult(0), {}]);
+    const people = await estimatePeopleForFrames(['0.png', '1.png'], 4, singlePerson);
+
+    expect(people.map(frame => frame.length)).toEqual([1, 0]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('detects a single person'));
+    warn.mockRestore();
+  });
+});
+
+describe('createFakePoseResult', () => {
+  test('should raise the left arm to horizontal halfway through the period and lower it again', () => {
+    const shoulderAngle = (frame: number) => calculateJointAngles(createFakePoseResult(frame, 30).landmarks).left_shoulder;
+
+    expect(shoulderAngle(0)).toBeLessThan(25); // Arm hanging by the side
+    expect(shoulderAngle(15)).toBeCloseTo(shoulderAngle(0) + 90, 0);
+    expect(shoulderAngle(30)).toBeCloseTo(shoulderAngle(0));
+    expect(createFakePoseResult(7)).toEqual(createFakePoseResult(7));
+  });
+});
+
+describe('pose backend selection', () => {
+  afterEach(() => {
+    setPoseBackend(undefined);
+  });
+
+  test('should create the backend by name and reject unknown names', () => {
+    expect(createPoseBackend('fake').name).toBe('fake');
+    expect(createPoseBackend('mediapipe').name).toBe('mediapipe');
+    expect(() => createPoseBackend('openpose')).toThrow('Unknown pose backend "openpose"');
+  });
+
+  test('should estimate poses with the backend that was set', async () => {
+    const backend = createFakePoseBackend();
+    setPoseBackend(backend);
+
+    expect(getPoseBackend()).toBe(backend);
+    const poses = await estimatePosesForFrames(['0.png', '1.png']);
+    expect(poses).toHaveLength(2);
+    expect(poses[0]).toHaveLength(33);
+    expect(await estimatePoseResultsForFrames([])).toEqual([]);
+    expect(backend.calls).toHaveLength(1);
+  });
+});
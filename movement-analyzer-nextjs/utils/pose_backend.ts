@@ -0,0 +1,68 @@
+import type { LandmarkList, NormalizedLandmarkList } from '@mediapipe/pose';
+import { createFakePoseBackend } from './fake_pose_backend';
+import { createMediaPipePoseBackend } from './mediapipe_pose_backend';
+
+// Landmark types are re-exported, so code that only handles poses need not import the MediaPipe package
+export type { LandmarkList, NormalizedLandmarkList };
+
+/** The pose detected in a single frame. Both lists are undefined if no pose is detected. */
+export interface PoseFrameResult {
+  /** Image-normalized landmarks: x and y in [0, 1] relative to the frame, z a relative depth. */
+  landmarks?: NormalizedLandmarkList;
+  /**
+   * Real-world 3D landmarks in meters, with the origin between the hips. Unaffected by perspective
+   * and image aspect ratio, so angles measured on them are more accurate.
+   */
+  worldLandmarks?: LandmarkList;
+}
+
+/** Something that detects poses in image frames, such as MediaPipe Pose or a scripted fake for tests. */
+export interface PoseBackend {
+  /** Short name for logs, e.g. 'mediapipe'. */
+  readonly name: string;
+  /**
+   * Estimates the pose in each frame of a clip, in order. Frames are treated as one sequence, so a
+   * backend may track the pose from frame to frame. A frame that cannot be read or has no pose
+   * gives an empty result rather than an error.
+   */
+  estimateFrames(framePaths: string[]): Promise<PoseFrameResult[]>;
+  /**
+   * Estimates the pose of every person in each frame of a clip, up to `maxPeople` per frame, in no
+   * particular order. Optional: backends without it detect a single person (see `estimatePeopleForFrames`).
+   */
+  estimatePeople?(framePaths: string[], maxPeople: number): Promise<PoseFrameResult[][]>;
+}
+
+export type PoseBackendName = 'mediapipe' | 'fake';
+
+export const POSE_BACKEND_NAMES: PoseBackendName[] = ['mediapipe', 'fake'];
+
+/**
+ * Creates the named backend with its default settings.
+ *
+ * @param name Defaults to the POSE_BACKEND environment variable, or 'mediapipe' if unset.
+ * @throws If the name is not a known backend.
+ */
+export function createPoseBackend(name: string = process.env.POSE_BACKEND || 'mediapipe'): PoseBackend {
+  switch (name) {
+    case 'mediapipe':
+      return createMediaPipePoseBackend();
+    case 'fake':
+      return createFakePoseBackend();
+    default:
+      throw new Error(`Unknown pose backend "${name}". Expected one of: ${POSE_BACKEND_NAMES.join(', ')}.`);
+  }
+}
+
+let activeBackend: PoseBackend | undefined;
+
+/** The backend used for pose estimation: the one set with `setPoseBackend`, or else the configured one. */
+export function getPoseBackend(): PoseBackend {
+  if (!activeBackend) activeBackend = createPoseBackend();
+  return activeBackend;
+}
+
+/** Replaces the backend used for pose estimation, e.g. with a fake in tests. Undefined goes back to the configured one. */
+export function setPoseBackend(backend: PoseBackend | undefined): void {
+  activeBackend = backend;
+}
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createPoseCache, hashFile, PoseCacheSettings } from './pose_cache';
+import { createFakePoseResult } from './fake_pose_backend';
+import { PoseFrameResult } from './pose_backend';
+
+// The cache lives on disk, so these tests use the real fs rather than the mock in jest.setup.js
+jest.unmock('fs');
+
+const settings: PoseCacheSettings = { targetFrames: 4, backend: 'fake', multiPerson: false };
+
+const createPeople = (frameCount: number): PoseFrameResult[][] =>
+  Array.from({ length: frameCount }, (_, frame) => [createFakePoseResult(frame)]);
+
+describe('pose cache', () => {
+  let dir: string;
+  let cacheDir: string;
+  let videoPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pose-cache-'));
+    cacheDir = path.join(dir, 'cache');
+    videoPath = path.join(dir, 'video.mp4');
+    fs.writeFileSync(videoPath, 'not really a video');
+  });
+
+  afterEach(() => {
+    createPoseCache({ dir: cacheDir }).clear();
+    const removeFiles = (target: string) => fs.readdirSync(target).forEach(name => {
+      const file = path.join(target, name);
+      if (fs.statSync(file).isDirectory()) {
+        removeFiles(file);
+        fs.rmdirSync(file);
+      } else {
+        fs.unlinkSync(file);
+      }
+    });
+    removeFiles(dir);
+    fs.rmdirSync(dir);
+  });
+
+  test('should key entries by the video contents and the settings', async () => {
+    const cache = createPoseCache({ dir: cacheDir });
+    const copyPath = path.join(dir, 'copy.mp4');
+    fs.copyFileSync(videoPath, copyPath);
+    const key = await cache.key(videoPath, settings);
+
+    // Same contents under another name: same key
+    expect(await cache.key(copyPath, settings)).toBe(key);
+    expect(await cache.key(videoPath, { ...settings, targetFrames: 5 })).not.toBe(key);
+    expect(await cache.key(videoPath, { ...settings, backend: 'mediapipe' })).not.toBe(key);
+    expect(await cache.key(videoPath, { ...settings, multiPerson: true })).not.toBe(key);
+
+    fs.writeFileSync(copyPath, 'another video');
+    expect(await cache.key(copyPath, settings)).not.toBe(key);
+    expect(await hashFile(videoPath)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('should return stored poses, and nothing for unknown keys', async () => {
+    const cache = createPoseCache({ dir: cacheDir });
+    const key = await cache.key(videoPath, settings);
+    const people = createPeople(4);
+    expect(cache.get(key)).toBeUndefined();
+
+    cache.set(key, people);
+    expect(cache.get(key)).toEqual({ people, framePaths: undefined });
+    expect(cache.stats()).toMatchObject({ entries: 1, dir: cacheDir });
+    expect(cache.stats().bytes).toBeGreaterThan(0);
+  });
+
+  test('should store frames only if asked to, and copy them into the requested directory', async () => {
+    const frames = ['frame_0000.png', 'frame_0001.png'].map(name => path.join(dir, name));
+    frames.forEach((frame, index) => fs.writeFileSync(frame, `frame ${index}`));
+    const people = createPeople(2);
+
+    const withoutFrames = createPoseCache({ dir: path.join(cacheDir, 'poses-only') });
+    withoutFrames.set('a', people, frames);
+    expect(withoutFrames.get('a', path.join(dir, 'restored')).framePaths).toBeUndefined();
+
+    const withFrames = createPoseCache({ dir: cacheDir, cacheFrames: true });
+    withFrames.set('b', people, frames);
+    const restored = withFrames.get('b', path.join(dir, 'restored'));
+    expect(restored.framePaths).toEqual(frames.map(frame => path.join(dir, 'restored', path.basename(frame))));
+    restored.framePaths.forEach((frame, index) => expect(fs.readFileSync(frame, 'utf-8')).toBe(`frame ${index}`));
+  });
+
+  test('should evict the least recently used entries when over the size limit', () => {
+    const people = createPeople(3);
+    const sizer = createPoseCache({ dir: path.join(cacheDir, 'sizer') });
+    sizer.set('entry', people);
+    const entryBytes = sizer.stats().bytes;
+
+    // Room for two entries
+    const cache = createPoseCache({ dir: cacheDir, maxBytes: entryBytes * 2.5 });
+    cache.set('first', people);
+    cache.set('second', people);
+    // Entries are ordered by last use, so make the first one older, then use it
+    const posesFile = (key: string) => path.join(cacheDir, key, 'poses.json');
+    fs.utimesSync(posesFile('first'), new Date(1000), new Date(1000));
+    fs.utimesSync(posesFile('second'), new Date(2000), new Date(2000));
+    expect(cache.get('first')).toBeDefined();
+
+    cache.set('third', people);
+    expect(cache.get('second')).toBeUndefined();
+    expect(cache.get('first')).toBeDefined();
+    expect(cache.get('third')).toBeDefined();
+  });
+
+  test('should not store entries larger than the cache, or anything when disabled', () => {
+    const tiny = createPoseCache({ dir: cacheDir, maxBytes: 10 });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    tiny.set('big', createPeople(3));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('larger than the cache'));
+    warn.mockRestore();
+    expect(tiny.stats().entries).toBe(0);
+
+    const disabled = createPoseCache({ dir: cacheDir, maxBytes: 0 });
+    disabled.set('any', createPeople(3));
+    expect(disabled.get('any')).toBeUndefined();
+    expect(fs.existsSync(path.join(cacheDir, 'any'))).toBe(false);
+  });
+
+  test('should drop unreadable entries and clear everything', () => {
+    const cache = createPoseCache({ dir: cacheDir });
+    cache.set('good', createPeople(2));
+    cache.set('bad', createPeople(2));
+    fs.writeFileSync(path.join(cacheDir, 'bad', 'poses.json'), '{ truncated');
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(cache.get('bad')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Removing unreadable pose cache entry bad'));
+    warn.mockRestore();
+    expect(cache.stats().entries).toBe(1);
+
+    expect(cache.clear()).toBe(1);
+    expect(cache.stats().entries).toBe(0);
+    expect(cache.get('good')).toBeUndefined();
+  });
+});
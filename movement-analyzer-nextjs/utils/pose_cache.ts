@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { PoseFrameResult } from './pose_backend';
+
+/**
+ * Directory cached pose sequences are kept in, one subdirectory per entry. Override with POSE_CACHE_DIR.
+ */
+export const POSE_CACHE_DIR = process.env.POSE_CACHE_DIR || path.join(process.cwd(), '.cache', 'poses');
+
+/**
+ * Most the cache may hold on disk, in megabytes, before the least recently used entries are evicted.
+ * Override with POSE_CACHE_MAX_MB; 0 turns the cache off.
+ */
+export const POSE_CACHE_MAX_MB = process.env.POSE_CACHE_MAX_MB !== undefined ? parseFloat(process.env.POSE_CACHE_MAX_MB) : 1024;
+
+/**
+ * Bumped when the stored format, or anything else that changes the poses for the same video and
+ * settings, changes. Entries of other versions are never looked up again and age out.
+ */
+const POSE_CACHE_VERSION = 1;
+
+const POSES_FILE = 'poses.json';
+const FRAMES_DIR = 'frames';
+
+/** Everything besides the video itself that the cached poses depend on. */
+export interface PoseCacheSettings {
+  targetFrames: number;
+  /** Name of the pose backend that estimated the poses. */
+  backend: string;
+  /** Whether everyone in each frame was detected, or only one person. */
+  multiPerson: boolean;
+}
+
+export interface CachedPoses {
+  /** The people detected in each frame, as returned by `estimatePeopleForFrames` (one person per frame unless multi-person). */
+  people: PoseFrameResult[][];
+  /** Paths of the cached frames copied into the requested directory, if the frames were cached too. */
+  framePaths?: string[];
+}
+
+export interface PoseCacheStats {
+  dir: string;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+export interface PoseCacheOptions {
+  /** Defaults to POSE_CACHE_DIR. */
+  dir?: string;
+  /** Defaults to POSE_CACHE_MAX_MB in bytes. 0 turns the cache off. */
+  maxBytes?: number;
+  /** Whether to store the extracted frames with the poses. Defaults to the POSE_CACHE_FRAMES environment variable being "true". */
+  cacheFrames?: boolean;
+}
+
+export interface PoseCache {
+  readonly dir: string;
+  /** The cache key of a video and the settings its poses were estimated with. */
+  key(videoPath: string, settings: PoseCacheSettings): Promise<string>;
+  /**
+   * The cached poses for a key, or undefined if there are none. Marks the entry as recently used.
+   *
+   * @param framesDir Where to copy the cached frames to, if the entry has them.
+   */
+  get(key: string, framesDir?: string): CachedPoses | undefined;
+  /**
+   * Stores the poses (and the frames, if the cache keeps frames) under a key, then evicts the least
+   * recently used entries until the cache fits its size limit. Entries larger than the limit are not stored.
+   */
+  set(key: string, people: PoseFrameResult[][], framePaths?: string[]): void;
+  stats(): PoseCacheStats;
+  /** Removes every entry. @returns The number of entries removed. */
+  clear(): number;
+}
+
+/** SHA-256 of a file's contents, read as a stream so large videos are not loaded into memory. */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+// Removes a file or a directory with everything in it
+function removePath(target: string): void {
+  if (!fs.existsSync(target)) return;
+  if (fs.statSync(target).isDirectory()) {
+    fs.readdirSync(target).forEach(name => removePath(path.join(target, name)));
+    fs.rmdirSync(target);
+  } else {
+    fs.unlinkSync(target);
+  }
+}
+
+// Total size in bytes of the files in a directory, recursively
+function directorySize(dir: string): number {
+  return fs.readdirSync(dir).reduce((total, name) => {
+    const stats = fs.statSync(path.join(dir, name));
+    return total + (stats.isDirectory() ? directorySize(path.join(dir, name)) : stats.size);
+  }, 0);
+}
+
+/**
+ * A content-addressed cache of pose sequences on disk: entries are keyed by a hash of the video's
+ * contents and the estimation settings, so the same video uploaded again skips pose estimation.
+ *
+ * @param options Directory, size limit and whether to keep frames.
+ */
+export function createPoseCache(options: PoseCacheOptions = {}): PoseCache {
+  const dir = options.dir ?? POSE_CACHE_DIR;
+  const maxBytes = Math.max(0, options.maxBytes ?? POSE_CACHE_MAX_MB * 1024 * 1024);
+  const cacheFrames = options.cacheFrames ?? process.env.POSE_CACHE_FRAMES === 'true';
+  const enabled = maxBytes > 0;
+
+  const listEntries = () => {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+      .filter(name => fs.existsSync(path.join(dir, name, POSES_FILE)))
+      .map(name => ({
+        dir: path.join(dir, name),
+        lastUsed: fs.statSync(path.join(dir, name, POSES_FILE)).mtimeMs,
+        bytes: directorySize(path.join(dir, name)),
+      }));
+  };
+
+  const evict = () => {
+    const entries = listEntries().sort((a, b) => a.lastUsed - b.lastUsed);
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    for (const entry of entries) {
+      if (total <= maxBytes) break;
+      removePath(entry.dir);
+      total -= entry.bytes;
+    }
+  };
+
+  return {
+    dir,
+
+    key: async (videoPath, settings) => {
+      const videoHash = await hashFile(videoPath);
+      const keyData = JSON.stringify({
+        version: POSE_CACHE_VERSION,
+        videoHash,
+        targetFrames: settings.targetFrames,
+        backend: settings.backend,
+        multiPerson: settings.multiPerson,
+      });
+      return crypto.createHash('sha256').update(keyData).digest('hex');
+    },
+
+    get: (key, framesDir) => {
+      if (!enabled) return undefined;
+      const entryDir = path.join(dir, key);
+      const posesFile = path.join(entryDir, POSES_FILE);
+      if (!fs.existsSync(posesFile)) return undefined;
+      let entry: { people: PoseFrameResult[][]; frameNames?: string[] };
+      try {
+        entry = JSON.parse(fs.readFileSync(posesFile, 'utf-8'));
+        if (!Array.isArray(entry.people)) throw new Error('no pose sequence');
+      } catch (error: any) {
+        console.warn(`Removing unreadable pose cache entry ${key}: ${error.message}`);
+        removePath(entryDir);
+        return undefined;
+      }
+      const now = new Date();
+      fs.utimesSync(posesFile, now, now);
+
+      let framePaths: string[] | undefined;
+      if (framesDir && entry.frameNames) {
+        fs.mkdirSync(framesDir, { recursive: true });
+        framePaths = entry.frameNames.map(name => {
+          const framePath = path.join(framesDir, name);
+          fs.copyFileSync(path.join(entryDir, FRAMES_DIR, name), framePath);
+          return framePath;
+        });
+      }
+      return { people: entry.people, framePaths };
+    },
+
+    set: (key, people, framePaths) => {
+      if (!enabled) return;
+      // Written under a temporary name and renamed, so a concurrent request never reads a half-written entry
+      const entryDir = path.join(dir, key);
+      const tempDir = path.join(dir, `${key}.tmp-${process.pid}-${Date.now()}`);
+      fs.mkdirSync(tempDir, { recursive: true });
+      try {
+        const keepFrames = cacheFrames && framePaths && framePaths.length > 0;
+        if (keepFrames) {
+          fs.mkdirSync(path.join(tempDir, FRAMES_DIR));
+          framePaths.forEach(framePath => fs.copyFileSync(framePath, path.join(tempDir, FRAMES_DIR, path.basename(framePath))));
+        }
+        const frameNames = keepFrames ? framePaths.map(framePath => path.basename(framePath)) : undefined;
+        fs.writeFileSync(path.join(tempDir, POSES_FILE), JSON.stringify({ version: POSE_CACHE_VERSION, createdAt: new Date().toISOString(), frameNames, people }));
+
+        if (directorySize(tempDir) > maxBytes) {
+          console.warn(`Pose cache entry ${key} is larger than the cache; not storing it.`);
+          return;
+        }
+        removePath(entryDir);
+        fs.renameSync(tempDir, entryDir);
+      } finally {
+        removePath(tempDir);
+      }
+      evict();
+    },
+
+    stats: () => {
+      const entries = listEntries();
+      return { dir, entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0), maxBytes };
+    },
+
+    clear: () => {
+      if (!fs.existsSync(dir)) return 0;
+      const count = listEntries().length;
+      fs.readdirSync(dir).forEach(name => removePath(path.join(dir, name)));
+      return count;
+    },
+  };
+}
+
+let activeCache: PoseCache | undefined;
+
+/** The pose cache used by the analysis endpoints: the one set with `setPoseCache`, or else the configured one. */
+export function getPoseCache(): PoseCache {
+  if (!activeCache) activeCache = createPoseCache();
+  return activeCache;
+}
+
+/** Replaces the pose cache, e.g. with one in a temporary directory in tests. Undefined goes back to the configured one. */
+export function setPoseCache(cache: PoseCache | undefined): void {
+  activeCache = cache;
+}
@@ -0,0 +1,138 @@
+import { normalizePose, procrustesRotate, getHipMidpoint, getTorsoLength, mirrorPose } from './pose_normalization';
+import { LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose with the hips at (cx, cy) and a torso of the given length pointing up.
+const createPose = (cx: number, cy: number, torsoLength: number): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    // Spread the remaining landmarks around the hips, proportional to body size
+    landmarks.push({ x: cx + torsoLength * Math.cos(i), y: cy + torsoLength * Math.sin(i), z: 0, visibility: 0.9 });
+  }
+  landmarks[LANDMARK.LEFT_HIP] = { x: cx - 0.1 * torsoLength, y: cy, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.RIGHT_HIP] = { x: cx + 0.1 * torsoLength, y: cy, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_SHOULDER] = { x: cx - 0.2 * torsoLength, y: cy - torsoLength, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.RIGHT_SHOULDER] = { x: cx + 0.2 * torsoLength, y: cy - torsoLength, z: 0, visibility: 0.9 };
+  return landmarks;
+};
+
+// Rotates every landmark of a pose about (cx, cy) in the image plane.
+const rotatePose = (landmarks: NormalizedLandmarkList, cx: number, cy: number, theta: number): NormalizedLandmarkList =>
+  landmarks.map(lm => ({
+    ...lm,
+    x: cx + (lm.x - cx) * Math.cos(theta) - (lm.y - cy) * Math.sin(theta),
+    y: cy + (lm.x - cx) * Math.sin(theta) + (lm.y - cy) * Math.cos(theta),
+  }));
+
+describe('normalizePose', () => {
+  test('should return the input unchanged when no step is enabled', () => {
+    const pose = createPose(0.3, 0.6, 0.2);
+    expect(normalizePose(pose, {})).toBe(pose);
+  });
+
+  test('should center the hip midpoint on the origin', () => {
+    const normalized = normalizePose(createPose(0.3, 0.6, 0.2), { center: true });
+    const hipMid = getHipMidpoint(normalized);
+    expect(hipMid.x).toBeCloseTo(0);
+    expect(hipMid.y).toBeCloseTo(0);
+  });
+
+  test('should scale poses of different sizes to the same torso length', () => {
+    const small = normalizePose(createPose(0.5, 0.5, 0.1), { scale: true });
+    const large = normalizePose(createPose(0.5, 0.5, 0.4), { scale: true });
+    expect(getTorsoLength(small)).toBeCloseTo(getTorsoLength(large));
+    // Scaling alone keeps the pose in place
+    expect(getHipMidpoint(small).x).toBeCloseTo(0.5);
+  });
+
+  test('should make an off-center, closer pose identical to the original after centering and scaling', () => {
+    const original = normalizePose(createPose(0.5, 0.5, 0.2), { center: true, scale: true });
+    const moved = normalizePose(createPose(0.2, 0.7, 0.35), { center: true, scale: true });
+    moved.forEach((lm, i) => {
+      expect(lm.x).toBeCloseTo(original[i].x);
+      expect(lm.y).toBeCloseTo(original[i].y);
+    });
+  });
+
+  test('should preserve visibility', () => {
+    const normalized = normalizePose(createPose(0.5, 0.5, 0.2), { center: true, scale: true });
+    expect(normalized[0].visibility).toBe(0.9);
+  });
+});
+
+describe('procrustesRotate', () => {
+  test('should undo an in-plane rotation', () => {
+    const target = createPose(0.5, 0.5, 0.2);
+    const source = rotatePose(target, 0.5, 0.5, 0.4);
+    const rotated = procrustesRotate(source, target);
+    rotated.forEach((lm, i) => {
+      expect(lm.x).toBeCloseTo(target[i].x);
+      expect(lm.y).toBeCloseTo(target[i].y);
+    });
+  });
+
+  test('should leave z unchanged', () => {
+    const target = createPose(0.5, 0.5, 0.2);
+    const source = rotatePose(target, 0.5, 0.5, 0.4).map(lm => ({ ...lm, z: 0.3 }));
+    expect(procrustesRotate(source, target)[5].z).toBe(0.3);
+  });
+});
+
+describe('mirrorPose', () => {
+  test('should flip x and swap left and right landmarks', () => {
+    const pose = createPose(0.3, 0.6, 0.2);
+    const mirrored = mirrorPose(pose);
+    expect(mirrored[LANDMARK.LEFT_HIP].x).toBeCloseTo(1 - pose[LANDMARK.RIGHT_HIP].x);
+    expect(mirrored[LANDMARK.RIGHT_SHOULDER].y).toBe(pose[LANDMARK.LEFT_SHOULDER].y);
+    expect(mirrored[LANDMARK.MOUTH_LEFT].y).toBe(pose[LANDMARK.MOUTH_RIGHT].y);
+    expect(mirrored[LANDMARK.NOSE].x).toBeCloseTo(1 - pose[LANDMARK.NOSE].x);
+  });
+
+  test('should give back the original pose when applied twice', () => {
+    const pose = createPose(0.3, 0.6, 0.2);
+    mirrorPose(mirrorPose(pose)).forEach((lm, i) => {
+      expect(lm.x).toBeCloseTo(pose[i].x);
+      expect(lm.y).toBe(pose[i].y);
+    });
+  });
+});
+
+describe('world coordinates', () => {
+  // Turns every landmark of a pose about the vertical axis through (cx, 0, 0).
+  const turnPose = (landmarks: NormalizedLandmarkList, cx: number, theta: number): NormalizedLandmarkList =>
+    landmarks.map(lm => ({
+      ...lm,
+      x: cx + (lm.x - cx) * Math.cos(theta) - lm.z * Math.sin(theta),
+      z: (lm.x - cx) * Math.sin(theta) + lm.z * Math.cos(theta),
+    }));
+
+  test('should include depth in the torso length', () => {
+    // Leaning towards the camera: the shoulders are in front of the hips
+    const pose = createPose(0, 0, 0.5).map((lm, i) =>
+      (i === LANDMARK.LEFT_SHOULDER || i === LANDMARK.RIGHT_SHOULDER ? { ...lm, z: -0.5 } : lm));
+    expect(getTorsoLength(pose)).toBeCloseTo(0.5);
+    expect(getTorsoLength(pose, 'world')).toBeCloseTo(Math.sqrt(0.5));
+  });
+
+  test('should scale world poses to a torso length in meters', () => {
+    const normalized = normalizePose(createPose(0, 0, 0.4), { scale: true }, 'world');
+    expect(getTorsoLength(normalized, 'world')).toBeCloseTo(0.5);
+  });
+
+  test('should undo a rotation about the vertical axis and leave y unchanged', () => {
+    const target = createPose(0, 0, 0.5);
+    const rotated = procrustesRotate(turnPose(target, 0, 0.5), target, 'world');
+    rotated.forEach((lm, i) => {
+      expect(lm.x).toBeCloseTo(target[i].x);
+      expect(lm.y).toBe(target[i].y);
+      expect(lm.z).toBeCloseTo(target[i].z);
+    });
+  });
+
+  test('should mirror across the hips rather than the image centre', () => {
+    const pose = createPose(0, 0, 0.5);
+    const mirrored = mirrorPose(pose, 'world');
+    expect(mirrored[LANDMARK.LEFT_HIP].x).toBeCloseTo(-pose[LANDMARK.RIGHT_HIP].x);
+    expect(getHipMidpoint(mirrored).x).toBeCloseTo(0);
+  });
+});
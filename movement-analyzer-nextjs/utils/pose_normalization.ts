@@ -0,0 +1,145 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { LANDMARK, MIRRORED_LANDMARK } from './landmarks';
+
+/**
+ * Which coordinates a pose is in.
+ * - 'image': MediaPipe's normalized landmarks: x and y relative to the frame, z a weak relative depth.
+ * - 'world': MediaPipe's world landmarks: 3D coordinates in meters with the origin between the hips,
+ *            independent of the camera's distance and framing.
+ */
+export type CoordinateSpace = 'image' | 'world';
+
+/**
+ * Roughly how many meters one normalized image unit spans, for a person filmed full-length.
+ * Converts image-space constants (torso length, similarity caps) to world space.
+ */
+export const WORLD_METERS_PER_IMAGE_UNIT = 2;
+
+/**
+ * Torso length (shoulder midpoint to hip midpoint) that scaled poses are resized to.
+ * A typical torso length in normalized image coordinates, so distances keep roughly
+ * the same magnitude, and the same similarity cap applies, with or without scaling.
+ * World poses are scaled to the same length in meters (see WORLD_METERS_PER_IMAGE_UNIT).
+ */
+const REFERENCE_TORSO_LENGTH = 0.25;
+
+/**
+ * Which normalization steps to apply before two poses are compared.
+ * - center: translate each pose so its hip midpoint is at the origin.
+ * - scale: resize each pose to a common torso length.
+ * - rotate: rotate pose 1 in the image plane to best fit pose 2 (Procrustes alignment).
+ */
+export interface NormalizationOptions {
+  center?: boolean;
+  scale?: boolean;
+  rotate?: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 };
+}
+
+/** Returns the midpoint between the left and right hip. */
+export function getHipMidpoint(landmarks: NormalizedLandmarkList): Point {
+  return midpoint(landmarks[LANDMARK.LEFT_HIP], landmarks[LANDMARK.RIGHT_HIP]);
+}
+
+/**
+ * Returns the distance between the shoulder midpoint and the hip midpoint. In image space z is
+ * left out, as MediaPipe's normalized depth is too noisy to measure body size with; in world
+ * space it is metric and included.
+ */
+export function getTorsoLength(landmarks: NormalizedLandmarkList, space: CoordinateSpace = 'image'): number {
+  const hipMid = getHipMidpoint(landmarks);
+  const shoulderMid = midpoint(landmarks[LANDMARK.LEFT_SHOULDER], landmarks[LANDMARK.RIGHT_SHOULDER]);
+  const dz = space === 'world' ? shoulderMid.z - hipMid.z : 0;
+  return Math.sqrt(Math.pow(shoulderMid.x - hipMid.x, 2) + Math.pow(shoulderMid.y - hipMid.y, 2) + dz * dz);
+}
+
+/**
+ * Centers and/or scales a single pose. Rotation is not applied here, as it depends on the
+ * pose being compared against (see `procrustesRotate`).
+ *
+ * @param landmarks A full list of 33 MediaPipe Pose landmarks.
+ * @param options Which steps to apply.
+ * @param space The coordinates the pose is in. Defaults to 'image'.
+ * @returns A new landmark list; the input is not modified. Visibility is preserved.
+ */
+export function normalizePose(landmarks: NormalizedLandmarkList, options: NormalizationOptions, space: CoordinateSpace = 'image'): NormalizedLandmarkList {
+  if (!options.center && !options.scale) return landmarks;
+
+  const hipMid = getHipMidpoint(landmarks);
+  const torsoLength = getTorsoLength(landmarks, space);
+  const referenceTorsoLength = space === 'world' ? REFERENCE_TORSO_LENGTH * WORLD_METERS_PER_IMAGE_UNIT : REFERENCE_TORSO_LENGTH;
+  // A collapsed torso (e.g. a badly detected pose) cannot be scaled meaningfully.
+  const scaleFactor = options.scale && torsoLength > 1e-6 ? referenceTorsoLength / torsoLength : 1;
+
+  return landmarks.map(lm => {
+    // Scaling is done about the hip midpoint, so an uncentered pose stays where it was in the frame.
+    const x = (lm.x - hipMid.x) * scaleFactor;
+    const y = (lm.y - hipMid.y) * scaleFactor;
+    const z = (lm.z - hipMid.z) * scaleFactor;
+    return options.center
+      ? { ...lm, x, y, z }
+      : { ...lm, x: x + hipMid.x, y: y + hipMid.y, z: z + hipMid.z };
+  });
+}
+
+/**
+ * Rotates `source` (about its hip midpoint) by the angle that minimises the squared distance to
+ * `target`, i.e. orthogonal Procrustes alignment restricted to a rotation in one plane. Image
+ * poses are rotated in the image plane (z unchanged). World poses are rotated about the vertical
+ * axis (y unchanged), which undoes a difference in camera angle around the person.
+ *
+ * @returns A new, rotated landmark list.
+ */
+export function procrustesRotate(source: NormalizedLandmarkList, target: NormalizedLandmarkList, space: CoordinateSpace = 'image'): NormalizedLandmarkList {
+  const sourceCenter = getHipMidpoint(source);
+  const targetCenter = getHipMidpoint(target);
+  const second: 'y' | 'z' = space === 'world' ? 'z' : 'y'; // Second axis of the rotation plane; the first is x
+
+  // Closed-form optimal 2D rotation: theta = atan2(sum(u x v), sum(u . v))
+  let cross = 0;
+  let dot = 0;
+  for (let i = 0; i < source.length; i++) {
+    const ux = source[i].x - sourceCenter.x;
+    const uy = source[i][second] - sourceCenter[second];
+    const vx = target[i].x - targetCenter.x;
+    const vy = target[i][second] - targetCenter[second];
+    cross += ux * vy - uy * vx;
+    dot += ux * vx + uy * vy;
+  }
+  const theta = Math.atan2(cross, dot);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  return source.map(lm => {
+    const ux = lm.x - sourceCenter.x;
+    const uy = lm[second] - sourceCenter[second];
+    return {
+      ...lm,
+      x: sourceCenter.x + ux * cos - uy * sin,
+      [second]: sourceCenter[second] + ux * sin + uy * cos,
+    };
+  });
+}
+
+/**
+ * Mirrors a pose horizontally: x is flipped across the image centre (the hips, for world poses)
+ * and every left landmark swaps places with its right counterpart, so a mirrored left knee is
+ * compared as a right knee.
+ *
+ * @param landmarks A full list of 33 MediaPipe Pose landmarks.
+ * @param space The coordinates the pose is in. Defaults to 'image'.
+ * @returns A new, mirrored landmark list. Visibility moves with each landmark.
+ */
+export function mirrorPose(landmarks: NormalizedLandmarkList, space: CoordinateSpace = 'image'): NormalizedLandmarkList {
+  const flip = space === 'world' ? (x: number) => -x : (x: number) => 1 - x;
+  return MIRRORED_LANDMARK.map(source => ({ ...landmarks[source], x: flip(landmarks[source].x) }));
+}
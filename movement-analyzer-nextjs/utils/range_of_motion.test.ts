@@ -0,0 +1,83 @@
+import { measureRangeOfMotion, parseNormativeRanges, DEFAULT_NORMATIVE_RANGES } from './range_of_motion';
+import { LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose whose left knee is bent to the given angle (180 = straight), in the image plane
+// or, with `inDepth`, towards the camera.
+const createKneePose = (kneeAngleDeg: number, inDepth: boolean = false): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.3 + (i % 6) * 0.08, y: 0.1 + Math.floor(i / 6) * 0.12, z: 0, visibility: 0.9 });
+  }
+  const theta = (kneeAngleDeg * Math.PI) / 180;
+  landmarks[LANDMARK.LEFT_HIP] = { x: 0.5, y: 0.5, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_KNEE] = { x: 0.5, y: 0.7, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_ANKLE] = inDepth
+    ? { x: 0.5, y: 0.7 - 0.2 * Math.cos(theta), z: 0.2 * Math.sin(theta), visibility: 0.9 }
+    : { x: 0.5 + 0.2 * Math.sin(theta), y: 0.7 - 0.2 * Math.cos(theta), z: 0, visibility: 0.9 };
+  return landmarks;
+};
+
+describe('measureRangeOfMotion', () => {
+  test('should report the min, max and range of each joint with their frames', () => {
+    const poses = [170, 120, 90, 140].map(angle => createKneePose(angle));
+    const { joints, framesAnalyzed, use3D } = measureRangeOfMotion([undefined, ...poses]);
+    const knee = joints.find(joint => joint.joint === 'left_knee');
+
+    expect(knee).toMatchObject({ min: 90, max: 170, range: 80, minFrame: 3, maxFrame: 1 });
+    expect(joints).toHaveLength(11);
+    expect(framesAnalyzed).toBe(4);
+    expect(use3D).toBe(false);
+  });
+
+  test('should compare with a reference clip', () => {
+    const poses = [170, 130].map(angle => createKneePose(angle));
+    const reference = [170, 90].map(angle => createKneePose(angle));
+    const knee = measureRangeOfMotion(poses, { reference }).joints.find(joint => joint.joint === 'left_knee');
+    expect(knee.reference).toEqual({ min: 90, max: 170, range: 80 });
+    expect(knee.percentOfReference).toBe(50);
+  });
+
+  test('should compare with normative ranges', () => {
+    const poses = [180, 100].map(angle => createKneePose(angle));
+    const { joints } = measureRangeOfMotion(poses, { normativeRanges: { left_knee: { min: 45, max: 180 } } });
+    const knee = joints.find(joint => joint.joint === 'left_knee');
+    expect(knee.percentOfNormative).toBeCloseTo(59.3);
+    expect(knee.reachedNormativeRange).toBe(false);
+    expect(joints.find(joint => joint.joint === 'right_knee').normative).toBeUndefined();
+  });
+
+  test('should count a nearly straight limb as full extension with the default ranges', () => {
+    // A full squat and back up, the knee never measuring exactly 180
+    const full = measureRangeOfMotion([177, 90, 40, 90, 176].map(angle => createKneePose(angle)), { normativeRanges: DEFAULT_NORMATIVE_RANGES });
+    expect(full.joints.find(joint => joint.joint === 'left_knee').reachedNormativeRange).toBe(true);
+
+    const shallow = measureRangeOfMotion([177, 110, 176].map(angle => createKneePose(angle)), { normativeRanges: DEFAULT_NORMATIVE_RANGES });
+    expect(shallow.joints.find(joint => joint.joint === 'left_knee').reachedNormativeRange).toBe(false);
+  });
+
+  test('should only see a bend towards the camera in 3D', () => {
+    const poses = [180, 120].map(angle => createKneePose(angle, true));
+    const knee2D = measureRangeOfMotion(poses).joints.find(joint => joint.joint === 'left_knee');
+    const knee3D = measureRangeOfMotion(poses, { use3D: true }).joints.find(joint => joint.joint === 'left_knee');
+    expect(knee2D.range).toBeCloseTo(0);
+    expect(knee3D.range).toBeCloseTo(60);
+  });
+
+  test('should return no joints without any pose', () => {
+    expect(measureRangeOfMotion([undefined])).toEqual({ joints: [], use3D: false, framesAnalyzed: 0 });
+  });
+});
+
+describe('parseNormativeRanges', () => {
+  test('should accept the default ranges', () => {
+    expect(parseNormativeRanges(DEFAULT_NORMATIVE_RANGES)).toEqual(DEFAULT_NORMATIVE_RANGES);
+  });
+
+  test('should reject unknown joints and invalid ranges', () => {
+    expect(() => parseNormativeRanges([])).toThrow('must be an object');
+    expect(() => parseNormativeRanges({ left_toe: { min: 0, max: 90 } })).toThrow('Unknown joint "left_toe"');
+    expect(() => parseNormativeRanges({ left_knee: { min: 120, max: 90 } })).toThrow('min <= max');
+    expect(() => parseNormativeRanges({ left_knee: { min: 0 } })).toThrow('needs a min and max');
+  });
+});
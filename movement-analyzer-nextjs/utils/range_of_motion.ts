@@ -0,0 +1,152 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { calculateJointAngles, JointName, JOINT_NAMES } from './joint_angles';
+import { NUM_POSE_LANDMARKS } from './landmarks';
+
+/**
+ * The smallest and largest angle, in degrees, a joint is expected to reach. Angles follow
+ * `calculateJointAngles`: 180 is a straight elbow or knee, so full knee flexion is a small angle.
+ */
+export interface NormativeRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Typical healthy adult ranges (after the AAOS reference values), converted to the angles
+ * `calculateJointAngles` measures. Hip and shoulder extension past 180 cannot be told apart from
+ * flexion with unsigned angles, so those ranges stop short of 180. A limb measured from landmarks
+ * is never perfectly straight, or flush against the body, so the end ranges are set a few degrees
+ * inside the anatomical ones: a fully straightened elbow or knee measures around 175, an arm
+ * hanging at the side around 20 at the shoulder. Override per clinic as needed.
+ */
+export const DEFAULT_NORMATIVE_RANGES: Partial<Record<JointName, NormativeRange>> = {
+  left_elbow: { min: 30, max: 175 },
+  right_elbow: { min: 30, max: 175 },
+  left_shoulder: { min: 20, max: 170 },
+  right_shoulder: { min: 20, max: 170 },
+  left_hip: { min: 60, max: 175 },
+  right_hip: { min: 60, max: 175 },
+  left_knee: { min: 45, max: 175 },
+  right_knee: { min: 45, max: 175 },
+  left_ankle: { min: 70, max: 140 },
+  right_ankle: { min: 70, max: 140 },
+};
+
+/** The angles one joint reached across a clip. */
+export interface JointRangeOfMotion {
+  joint: JointName;
+  /** Smallest and largest angle in degrees, and the frames they were reached in. */
+  min: number;
+  max: number;
+  minFrame: number;
+  maxFrame: number;
+  /** max - min, in degrees. */
+  range: number;
+  /** The reference clip's measurement of the same joint, if a reference was given. */
+  reference?: { min: number; max: number; range: number };
+  /** This range as a percentage of the reference's range. */
+  percentOfReference?: number;
+  /** The normative range used for this joint, if any. */
+  normative?: NormativeRange;
+  /** This range as a percentage of the normative range. */
+  percentOfNormative?: number;
+  /** Whether both ends of the normative range were reached. */
+  reachedNormativeRange?: boolean;
+}
+
+export interface RangeOfMotionReport {
+  /** One entry per joint that had at least one frame with a pose. */
+  joints: JointRangeOfMotion[];
+  /** Whether angles were measured in 3D (e.g. on world landmarks). */
+  use3D: boolean;
+  framesAnalyzed: number;
+}
+
+export interface RangeOfMotionOptions {
+  /**
+   * Measure angles in 3D, including z. Meant for MediaPipe world landmarks, whose z is in meters
+   * like x and y; the z of image-normalized landmarks is too rough for this. Defaults to false.
+   */
+  use3D?: boolean;
+  /** Pose sequence of a reference clip to compare each joint's range with. */
+  reference?: (NormalizedLandmarkList | undefined)[];
+  /** Normative ranges to compare with, e.g. `DEFAULT_NORMATIVE_RANGES`. Joints without one are not compared. */
+  normativeRanges?: Partial<Record<JointName, NormativeRange>>;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(1));
+}
+
+/** Measures the min, max and range of every joint angle across a pose sequence. */
+function measureJoints(poses: (NormalizedLandmarkList | undefined)[], use3D: boolean): { joints: JointRangeOfMotion[]; framesAnalyzed: number } {
+  const angles = poses.map(landmarks => (landmarks && landmarks.length === NUM_POSE_LANDMARKS ? calculateJointAngles(landmarks, use3D) : undefined));
+  const framesAnalyzed = angles.filter(Boolean).length;
+  if (framesAnalyzed === 0) return { joints: [], framesAnalyzed };
+
+  const joints = JOINT_NAMES.map(joint => {
+    let minFrame = -1;
+    let maxFrame = -1;
+    angles.forEach((frameAngles, i) => {
+      if (!frameAngles) return;
+      if (minFrame < 0 || frameAngles[joint] < angles[minFrame][joint]) minFrame = i;
+      if (maxFrame < 0 || frameAngles[joint] > angles[maxFrame][joint]) maxFrame = i;
+    });
+    const min = angles[minFrame][joint];
+    const max = angles[maxFrame][joint];
+    return { joint, min: round(min), max: round(max), minFrame, maxFrame, range: round(max - min) };
+  });
+  return { joints, framesAnalyzed };
+}
+
+/**
+ * Measures the range of motion of each joint across a clip, optionally comparing it with a
+ * reference clip and with normative ranges.
+ *
+ * @param poses Pose landmarks per frame (undefined where no pose was detected). Either the
+ *              image-normalized landmarks or MediaPipe world landmarks (with `use3D`).
+ * @param options Angle dimensionality, reference clip and normative ranges.
+ * @returns The per-joint report.
+ */
+export function measureRangeOfMotion(poses: (NormalizedLandmarkList | undefined)[], options: RangeOfMotionOptions = {}): RangeOfMotionReport {
+  const use3D = options.use3D ?? false;
+  const { joints, framesAnalyzed } = measureJoints(poses, use3D);
+  const reference = options.reference ? measureJoints(options.reference, use3D).joints : [];
+
+  joints.forEach(measurement => {
+    const referenceMeasurement = reference.find(candidate => candidate.joint === measurement.joint);
+    if (referenceMeasurement) {
+      measurement.reference = { min: referenceMeasurement.min, max: referenceMeasurement.max, range: referenceMeasurement.range };
+      if (referenceMeasurement.range > 0) measurement.percentOfReference = round((measurement.range / referenceMeasurement.range) * 100);
+    }
+    const normative = options.normativeRanges?.[measurement.joint];
+    if (normative) {
+      measurement.normative = normative;
+      if (normative.max > normative.min) measurement.percentOfNormative = round((measurement.range / (normative.max - normative.min)) * 100);
+      measurement.reachedNormativeRange = measurement.min <= normative.min && measurement.max >= normative.max;
+    }
+  });
+  return { joints, use3D, framesAnalyzed };
+}
+
+/**
+ * Validates normative ranges, e.g. parsed from a request.
+ *
+ * @throws If a key is not a joint name or a range is not a pair of angles with min <= max.
+ */
+export function parseNormativeRanges(definition: unknown): Partial<Record<JointName, NormativeRange>> {
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    throw new Error('Normative ranges must be an object keyed by joint name.');
+  }
+  const ranges = definition as Record<string, NormativeRange>;
+  Object.keys(ranges).forEach(key => {
+    if (!JOINT_NAMES.includes(key as JointName)) {
+      throw new Error(`Unknown joint "${key}" in normative ranges.`);
+    }
+    const range = ranges[key];
+    if (!range || typeof range.min !== 'number' || typeof range.max !== 'number' || range.min > range.max || range.min < 0 || range.max > 180) {
+      throw new Error(`Normative range for "${key}" needs a min and max between 0 and 180 degrees, with min <= max.`);
+    }
+  });
+  return ranges as Partial<Record<JointName, NormativeRange>>;
+}
@@ -0,0 +1,89 @@
+import { detectRepetitions, compareRepetitions } from './repetition_analysis';
+import { LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose whose left knee is bent to the given angle (180 = straight), with the hips at hipY.
+const createKneePose = (kneeAngleDeg: number, hipY: number = 0.5): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.5, y: hipY - 0.2, z: 0, visibility: 0.9 });
+  }
+  const theta = (kneeAngleDeg * Math.PI) / 180;
+  landmarks[LANDMARK.LEFT_HIP] = { x: 0.5, y: hipY, z: 0, visibility: 0.9 };
+  landmarks[LANDMARK.LEFT_KNEE] = { x: 0.5, y: hipY + 0.2, z: 0, visibility: 0.9 };
+  // The ankle is placed so the hip-knee-ankle angle equals kneeAngleDeg
+  landmarks[LANDMARK.LEFT_ANKLE] = { x: 0.5 + 0.2 * Math.sin(theta), y: hipY + 0.2 - 0.2 * Math.cos(theta), z: 0, visibility: 0.9 };
+  return landmarks;
+};
+
+// A squat set: the knee goes from 180 to 180 - depth and back `reps` times, 20 frames per rep.
+const createSquats = (reps: number, depth: number = 90): NormalizedLandmarkList[] =>
+  Array.from({ length: reps * 20 + 1 }, (_, i) => {
+    const progress = (1 - Math.cos((2 * Math.PI * i) / 20)) / 2; // 0 at the top, 1 at the bottom
+    return createKneePose(180 - depth * progress, 0.5 + 0.1 * progress);
+  });
+
+describe('detectRepetitions', () => {
+  test('should count reps from a joint angle', () => {
+    const analysis = detectRepetitions(createSquats(3), { source: { type: 'joint', joint: 'left_knee' } });
+    expect(analysis.repCount).toBe(3);
+    expect(analysis.reps.map(rep => rep.bottomFrame)).toEqual([10, 30, 50]);
+    expect(analysis.signal).toHaveLength(61);
+  });
+
+  test('should count reps from a landmark trajectory', () => {
+    const analysis = detectRepetitions(createSquats(2), { source: { type: 'landmark', landmark: LANDMARK.LEFT_HIP, axis: 'y' } });
+    expect(analysis.repCount).toBe(2);
+  });
+
+  test('should split each rep into eccentric, bottom and concentric phases', () => {
+    const [rep] = detectRepetitions(createSquats(1), { source: { type: 'joint', joint: 'left_knee' } }).reps;
+    expect(rep.phases.map(span => span.phase)).toEqual(['eccentric', 'bottom', 'concentric']);
+    expect(rep.phases[0].startFrame).toBe(rep.startFrame);
+    expect(rep.phases[1].startFrame).toBeLessThanOrEqual(rep.bottomFrame);
+    expect(rep.phases[1].endFrame).toBeGreaterThanOrEqual(rep.bottomFrame);
+    expect(rep.phases[2].endFrame).toBe(rep.endFrame);
+  });
+
+  test('should report durations when timestamps are given', () => {
+    const poses = createSquats(2);
+    const timestamps = poses.map((_, i) => i * 0.1);
+    const analysis = detectRepetitions(poses, { source: { type: 'joint', joint: 'left_knee' }, timestamps });
+    expect(analysis.reps[0].duration).toBeCloseTo(2);
+    expect(analysis.averageDuration).toBeCloseTo(2);
+    expect(analysis.reps[0].phases[1].startTime).toBeDefined();
+  });
+
+  test('should not count movements smaller than minAmplitude', () => {
+    const analysis = detectRepetitions(createSquats(3, 10), { source: { type: 'joint', joint: 'left_knee' } });
+    expect(analysis.repCount).toBe(0);
+  });
+
+  test('should interpolate frames without a pose', () => {
+    const poses: (NormalizedLandmarkList | undefined)[] = createSquats(3);
+    poses[5] = undefined;
+    poses[31] = undefined;
+    expect(detectRepetitions(poses, { source: { type: 'joint', joint: 'left_knee' } }).repCount).toBe(3);
+  });
+
+  test('should return no reps if no frame has a pose', () => {
+    const analysis = detectRepetitions([undefined, undefined], { source: { type: 'joint', joint: 'left_knee' } });
+    expect(analysis.repCount).toBe(0);
+    expect(analysis.signal).toEqual([]);
+  });
+});
+
+describe('compareRepetitions', () => {
+  test('should score identical reps as fully similar and shallower reps lower', () => {
+    const reference = createSquats(1);
+    const referenceAnalysis = detectRepetitions(reference, { source: { type: 'joint', joint: 'left_knee' } });
+    // One full-depth rep followed by a half-depth rep
+    const poses = [...createSquats(1), ...createSquats(1, 45).slice(1)];
+    const analysis = detectRepetitions(poses, { source: { type: 'joint', joint: 'left_knee' } });
+    expect(analysis.repCount).toBe(2);
+
+    const reps = compareRepetitions(poses, analysis, reference, referenceAnalysis.reps[0], { metric: 'angles' });
+    expect(reps[0].similarity).toBeCloseTo(100);
+    expect(reps[1].similarity).toBeLessThan(reps[0].similarity);
+  });
+});
@@ -0,0 +1,282 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { calculateSimilarity, SimilarityOptions } from './analysis';
+import { calculateJointAngles, JointName } from './joint_angles';
+import { NUM_POSE_LANDMARKS } from './landmarks';
+import { CoordinateSpace, WORLD_METERS_PER_IMAGE_UNIT } from './pose_normalization';
+
+/**
+ * The per-frame signal repetitions are counted from.
+ * - joint: a joint angle in degrees, e.g. 'left_knee' for squats or 'left_elbow' for push-ups.
+ * - landmark: one image coordinate of a landmark's trajectory, e.g. the left hip's y for squats.
+ */
+export type RepSignalSource =
+  | { type: 'joint'; joint: JointName }
+  | { type: 'landmark'; landmark: number; axis: 'x' | 'y' };
+
+/**
+ * The phases of a single rep, from the top position back to the top position.
+ * - eccentric: moving into the rep (e.g. descending into a squat).
+ * - bottom: holding around the deepest point.
+ * - concentric: moving back out (e.g. standing up).
+ */
+export type RepPhase = 'eccentric' | 'bottom' | 'concentric';
+
+export interface RepPhaseSpan {
+  phase: RepPhase;
+  /** First and last frame of the phase. Adjacent phases share their boundary frame. */
+  startFrame: number;
+  endFrame: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface Repetition {
+  /** Frame where the rep starts from the top position. */
+  startFrame: number;
+  /** The deepest frame of the rep. */
+  bottomFrame: number;
+  /** Frame where the rep is back at the top position. The next rep may start on the same frame. */
+  endFrame: number;
+  startTime?: number;
+  endTime?: number;
+  /** Duration in seconds. Only set if timestamps were given. */
+  duration?: number;
+  phases: RepPhaseSpan[];
+  /** Similarity (0-100) to the reference rep. Only set by `compareRepetitions`. */
+  similarity?: number;
+}
+
+export interface RepetitionOptions {
+  source: RepSignalSource;
+  /**
+   * Whether the bottom of a rep is where the signal is lowest ('min', e.g. a fully bent knee) or
+   * highest ('max', e.g. the hips lowest in the image, as image y grows downwards).
+   * Defaults to 'min' for joint angles and 'max' for landmark trajectories.
+   */
+  bottomAt?: 'min' | 'max';
+  /** Minimum swing between top and bottom for a movement to count as a rep. Defaults to 20 degrees for joint angles, 0.05 for landmarks. */
+  minAmplitude?: number;
+  /** Share (0-1) of a rep's swing, measured from the bottom, that counts as the bottom phase. Defaults to 0.1. */
+  bottomBand?: number;
+  /** Width in frames of the moving average applied to the signal before detection. Defaults to 3. */
+  smoothingWindow?: number;
+  /** Time in seconds of each frame, used to timestamp reps and phases. */
+  timestamps?: number[];
+  /**
+   * Coordinates of the poses. World poses give 3D joint angles, and landmark trajectories in meters
+   * (the default landmark amplitude is converted). Defaults to 'image'.
+   */
+  coordinateSpace?: CoordinateSpace;
+}
+
+export interface RepetitionAnalysis {
+  source: RepSignalSource;
+  repCount: number;
+  reps: Repetition[];
+  /** The smoothed signal reps were detected from, one value per frame. Empty if no frame had a pose. */
+  signal: number[];
+  /** Mean rep duration in seconds. Only set if timestamps were given and at least one rep was found. */
+  averageDuration?: number;
+}
+
+type TurningPoint = { frame: number; kind: 'top' | 'bottom' };
+
+/** Reads the signal value of each frame, or undefined where no pose was detected. */
+function extractSignal(poses: (NormalizedLandmarkList | undefined)[], source: RepSignalSource, space: CoordinateSpace): (number | undefined)[] {
+  return poses.map(landmarks => {
+    if (!landmarks || landmarks.length !== NUM_POSE_LANDMARKS) return undefined;
+    return source.type === 'joint'
+      ? calculateJointAngles(landmarks, space === 'world')[source.joint]
+      : landmarks[source.landmark][source.axis];
+  });
+}
+
+/**
+ * Fills frames without a value by linear interpolation between their neighbours.
+ * Gaps at either end take the nearest known value. Returns an empty array if no frame has a value.
+ */
+function fillGaps(values: (number | undefined)[]): number[] {
+  const known = values.map((value, i) => (value === undefined ? -1 : i)).filter(i => i >= 0);
+  if (known.length === 0) return [];
+  return values.map((value, i) => {
+    if (value !== undefined) return value;
+    const next = known.find(k => k > i);
+    const previous = [...known].reverse().find(k => k < i);
+    if (previous === undefined) return values[next];
+    if (next === undefined) return values[previous];
+    const t = (i - previous) / (next - previous);
+    return values[previous] + t * (values[next] - values[previous]);
+  });
+}
+
+/** Centered moving average. The window shrinks at the ends of the signal. */
+function smoothSignal(values: number[], window: number): number[] {
+  const half = Math.floor(Math.max(1, window) / 2);
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length - 1, i + half);
+    let sum = 0;
+    for (let k = from; k <= to; k++) sum += values[k];
+    return sum / (to - from + 1);
+  });
+}
+
+/**
+ * Finds alternating top and bottom turning points of a depth signal (larger = deeper into the rep).
+ * A turning point is only confirmed once the signal has moved back from it by at least
+ * `minAmplitude`, so noise smaller than that never starts or ends a rep.
+ */
+function findTurningPoints(depth: number[], minAmplitude: number): TurningPoint[] {
+  const points: TurningPoint[] = [];
+  let trend: 'deeper' | 'shallower' | undefined;
+  let extreme = 0; // The deepest (or shallowest) frame since the last turning point
+  let lowest = 0;
+  let highest = 0;
+
+  for (let i = 1; i < depth.length; i++) {
+    if (trend === undefined) {
+      if (depth[i] > depth[highest]) highest = i;
+      if (depth[i] < depth[lowest]) lowest = i;
+      if (depth[highest] - depth[lowest] >= minAmplitude) {
+        // The first confirmed swing tells whether the clip starts at the top or at the bottom.
+        if (lowest < highest) {
+          points.push({ frame: lowest, kind: 'top' });
+          trend = 'deeper';
+          extreme = highest;
+        } else {
+          points.push({ frame: highest, kind: 'bottom' });
+          trend = 'shallower';
+          extreme = lowest;
+        }
+      }
+    } else if (trend === 'deeper') {
+      if (depth[i] >= depth[extreme]) extreme = i;
+      else if (depth[extreme] - depth[i] >= minAmplitude) {
+        points.push({ frame: extreme, kind: 'bottom' });
+        trend = 'shallower';
+        extreme = i;
+      }
+    } else {
+      if (depth[i] <= depth[extreme]) extreme = i;
+      else if (depth[i] - depth[extreme] >= minAmplitude) {
+        points.push({ frame: extreme, kind: 'top' });
+        trend = 'deeper';
+        extreme = i;
+      }
+    }
+  }
+
+  // A clip ending on the way up still completes its last rep: the signal has already
+  // moved back from the bottom by at least minAmplitude.
+  if (trend === 'shallower') points.push({ frame: extreme, kind: 'top' });
+  return points;
+}
+
+/** Splits a rep into eccentric, bottom and concentric phases around its deepest frame. */
+function splitPhases(depth: number[], startFrame: number, bottomFrame: number, endFrame: number, bottomBand: number): RepPhaseSpan[] {
+  // Measured against the shallower of the two tops, so a rep ending higher or lower than it started is handled.
+  const amplitude = depth[bottomFrame] - Math.max(depth[startFrame], depth[endFrame]);
+  const threshold = depth[bottomFrame] - bottomBand * amplitude;
+  let bottomStart = bottomFrame;
+  while (bottomStart - 1 > startFrame && depth[bottomStart - 1] >= threshold) bottomStart--;
+  let bottomEnd = bottomFrame;
+  while (bottomEnd + 1 < endFrame && depth[bottomEnd + 1] >= threshold) bottomEnd++;
+
+  return [
+    { phase: 'eccentric', startFrame, endFrame: bottomStart },
+    { phase: 'bottom', startFrame: bottomStart, endFrame: bottomEnd },
+    { phase: 'concentric', startFrame: bottomEnd, endFrame },
+  ];
+}
+
+/**
+ * Counts the repetitions in a pose sequence and splits each into phases.
+ * A rep runs from a top position through a bottom position back to a top position,
+ * following the chosen joint angle or landmark trajectory. Frames without a pose are interpolated.
+ *
+ * @param poses Pose landmarks per frame (undefined where no pose was detected).
+ * @param options The signal to follow and detection settings.
+ * @returns The detected reps, in order, and the signal they were detected from.
+ */
+export function detectRepetitions(
+  poses: (NormalizedLandmarkList | undefined)[],
+  options: RepetitionOptions
+): RepetitionAnalysis {
+  const { source, timestamps } = options;
+  const bottomAt = options.bottomAt || (source.type === 'joint' ? 'min' : 'max');
+  const space = options.coordinateSpace ?? 'image';
+  const minAmplitude = options.minAmplitude ?? (source.type === 'joint' ? 20 : 0.05 * (space === 'world' ? WORLD_METERS_PER_IMAGE_UNIT : 1));
+  const bottomBand = Math.max(0, Math.min(1, options.bottomBand ?? 0.1));
+
+  const signal = smoothSignal(fillGaps(extractSignal(poses, source, space)), options.smoothingWindow ?? 3);
+  const depth = bottomAt === 'min' ? signal.map(value => -value) : signal;
+  const turningPoints = findTurningPoints(depth, minAmplitude);
+
+  const reps: Repetition[] = [];
+  for (let p = 1; p + 1 < turningPoints.length; p++) {
+    const [before, bottom, after] = [turningPoints[p - 1], turningPoints[p], turningPoints[p + 1]];
+    if (bottom.kind !== 'bottom' || before.kind !== 'top' || after.kind !== 'top') continue;
+    const rep: Repetition = {
+      startFrame: before.frame,
+      bottomFrame: bottom.frame,
+      endFrame: after.frame,
+      phases: splitPhases(depth, before.frame, bottom.frame, after.frame, bottomBand),
+    };
+    if (timestamps) {
+      rep.startTime = timestamps[rep.startFrame];
+      rep.endTime = timestamps[rep.endFrame];
+      rep.duration = parseFloat((rep.endTime - rep.startTime).toFixed(3));
+      rep.phases.forEach(span => {
+        span.startTime = timestamps[span.startFrame];
+        span.endTime = timestamps[span.endFrame];
+      });
+    }
+    reps.push(rep);
+  }
+
+  const analysis: RepetitionAnalysis = {
+    source,
+    repCount: reps.length,
+    reps,
+    signal: signal.map(value => parseFloat(value.toFixed(4))),
+  };
+  if (timestamps && reps.length > 0) {
+    analysis.averageDuration = parseFloat((reps.reduce((sum, rep) => sum + rep.duration, 0) / reps.length).toFixed(3));
+  }
+  return analysis;
+}
+
+/** Resamples a sequence to the given length by picking the nearest frame. */
+function resampleSequence<T>(sequence: T[], length: number): T[] {
+  if (sequence.length === length) return sequence;
+  return Array.from({ length }, (_, i) =>
+    sequence[length === 1 ? 0 : Math.round((i * (sequence.length - 1)) / (length - 1))]);
+}
+
+/**
+ * Scores each rep against a single reference rep.
+ * Every rep is resampled to the reference rep's frame count, so reps of different speeds are
+ * compared over their whole movement; use DTW alignment to also allow for differently timed phases.
+ *
+ * @param poses Pose landmarks per frame of the analysed video.
+ * @param analysis The reps detected in `poses`.
+ * @param referencePoses Pose landmarks per frame of the reference video.
+ * @param referenceRep The rep of the reference video to compare against.
+ * @param options Similarity options, as for `calculateSimilarity`. Timestamps are ignored.
+ * @returns The reps of `analysis`, with `similarity` set.
+ */
+export function compareRepetitions(
+  poses: (NormalizedLandmarkList | undefined)[],
+  analysis: RepetitionAnalysis,
+  referencePoses: (NormalizedLandmarkList | undefined)[],
+  referenceRep: Repetition,
+  options: SimilarityOptions = {}
+): Repetition[] {
+  const referenceSlice = referencePoses.slice(referenceRep.startFrame, referenceRep.endFrame + 1);
+  const repOptions: SimilarityOptions = { ...options, timestamps1: undefined, timestamps2: undefined };
+  return analysis.reps.map(rep => {
+    const slice = resampleSequence(poses.slice(rep.startFrame, rep.endFrame + 1), referenceSlice.length);
+    const { score } = calculateSimilarity(slice, referenceSlice, referenceSlice.length, repOptions);
+    return { ...rep, similarity: score };
+  });
+}
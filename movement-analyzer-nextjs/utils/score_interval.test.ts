@@ -0,0 +1,46 @@
+import { bootstrapScoreInterval, createRandom } from './score_interval';
+
+// Same conversion as calculateSimilarity with the default cap of 0.5
+const toScore = (dissimilarity: number) => Math.max(0, 1 - dissimilarity / 0.5) * 100;
+
+describe('createRandom', () => {
+  test('should repeat the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const sequence = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(sequence);
+    sequence.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    expect(createRandom(43)()).not.toBe(sequence[0]);
+  });
+});
+
+describe('bootstrapScoreInterval', () => {
+  test('should have no width when every frame is equally dissimilar', () => {
+    const interval = bootstrapScoreInterval([0.1, 0.1, 0.1, 0.1], toScore);
+    expect(interval).toEqual({ lower: 80, upper: 80, margin: 0, level: 0.95, samples: 1000 });
+  });
+
+  test('should widen with frame-to-frame jitter and contain the score', () => {
+    const steady = [0.12, 0.13, 0.12, 0.13, 0.12, 0.13, 0.12, 0.13, 0.12, 0.13];
+    const jittery = [0.02, 0.23, 0.05, 0.2, 0.02, 0.23, 0.05, 0.2, 0.02, 0.23];
+    const steadyInterval = bootstrapScoreInterval(steady, toScore);
+    const jitteryInterval = bootstrapScoreInterval(jittery, toScore);
+
+    expect(jitteryInterval.margin).toBeGreaterThan(steadyInterval.margin);
+    expect(jitteryInterval.lower).toBeLessThan(75);
+    expect(jitteryInterval.upper).toBeGreaterThan(75);
+  });
+
+  test('should give the same interval for the same seed', () => {
+    const dissimilarities = [0.05, 0.3, 0.1, 0.25, 0.15, 0.2];
+    expect(bootstrapScoreInterval(dissimilarities, toScore)).toEqual(bootstrapScoreInterval(dissimilarities, toScore));
+    expect(bootstrapScoreInterval(dissimilarities, toScore, { samples: 200, level: 0.8 })).toMatchObject({ samples: 200, level: 0.8 });
+  });
+
+  test('should return undefined without dissimilarities', () => {
+    expect(bootstrapScoreInterval([], toScore)).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+/** Confidence interval of a similarity score, in score points (0-100). */
+export interface ScoreInterval {
+  lower: number;
+  upper: number;
+  /** Half the interval's width, for display as "score ± margin". */
+  margin: number;
+  /** Confidence level, e.g. 0.95. */
+  level: number;
+  /** Number of bootstrap resamples the interval was estimated from. */
+  samples: number;
+}
+
+export interface ScoreIntervalOptions {
+  /** Defaults to 1000. */
+  samples?: number;
+  /** Defaults to 0.95. */
+  level?: number;
+  /**
+   * Length of the blocks of consecutive frames that are resampled together. Neighbouring frames
+   * share most of their pose jitter, so resampling single frames would understate the spread.
+   * Defaults to 3.
+   */
+  blockLength?: number;
+  /** Seed of the resampling, so the same analysis always reports the same interval. Defaults to 1. */
+  seed?: number;
+}
+
+/** Small seeded PRNG (mulberry32) returning floats in [0, 1). */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Value at quantile `q` (0-1) of sorted values, interpolating linearly between neighbours. */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(1));
+}
+
+/**
+ * Estimates how much a score could vary from pose jitter alone, by resampling the per-frame
+ * dissimilarities (a moving-block bootstrap) and scoring each resample.
+ *
+ * @param dissimilarities Per-frame dissimilarities the score was averaged from, in frame order.
+ * @param toScore Converts an average dissimilarity into the score.
+ * @param options Resample count, confidence level, block length and seed.
+ * @returns The percentile interval, or undefined without any dissimilarities.
+ */
+export function bootstrapScoreInterval(
+  dissimilarities: number[],
+  toScore: (averageDissimilarity: number) => number,
+  options: ScoreIntervalOptions = {}
+): ScoreInterval | undefined {
+  const n = dissimilarities.length;
+  if (n === 0) return undefined;
+  const samples = Math.max(1, Math.round(options.samples ?? 1000));
+  const level = options.level ?? 0.95;
+  const blockLength = Math.max(1, Math.min(n, Math.round(options.blockLength ?? 3)));
+  const random = createRandom(options.seed ?? 1);
+
+  const scores: number[] = [];
+  for (let s = 0; s < samples; s++) {
+    let total = 0;
+    let count = 0;
+    while (count < n) {
+      const start = Math.floor(random() * (n - blockLength + 1));
+      for (let k = 0; k < blockLength && count < n; k++, count++) total += dissimilarities[start + k];
+    }
+    scores.push(toScore(total / n));
+  }
+  scores.sort((a, b) => a - b);
+
+  const lower = round(quantile(scores, (1 - level) / 2));
+  const upper = round(quantile(scores, 1 - (1 - level) / 2));
+  return { lower, upper, margin: round((upper - lower) / 2), level, samples };
+}
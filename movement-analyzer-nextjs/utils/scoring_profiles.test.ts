@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  resolveLandmarkWeights,
+  parseScoringProfile,
+  profileToSimilarityOptions,
+  loadScoringProfile,
+  listScoringProfiles,
+} from './scoring_profiles';
+import { LANDMARK, BODY_REGIONS } from './landmarks';
+
+// The profiles are read from disk, so these tests use the real fs rather than the mock in jest.setup.js
+jest.unmock('fs');
+
+const SHIPPED_PROFILES_DIR = path.join(__dirname, '..', 'scoring_profiles');
+
+describe('resolveLandmarkWeights', () => {
+  test('should give a landmark its own weight, else its region\'s, else the default', () => {
+    const weights = resolveLandmarkWeights({ default: 0.5, left_leg: 2, left_knee: 3 });
+    expect(weights).toHaveLength(33);
+    expect(weights[LANDMARK.LEFT_KNEE]).toBe(3);
+    expect(weights[LANDMARK.LEFT_ANKLE]).toBe(2);
+    expect(weights[LANDMARK.RIGHT_ANKLE]).toBe(0.5);
+  });
+
+  test('should default to a weight of 1', () => {
+    const weights = resolveLandmarkWeights({ head: 0 });
+    BODY_REGIONS.head.forEach(index => expect(weights[index]).toBe(0));
+    expect(weights[LANDMARK.LEFT_HIP]).toBe(1);
+  });
+
+  test('should reject unknown keys and negative weights', () => {
+    expect(() => resolveLandmarkWeights({ left_tail: 1 })).toThrow('Unknown landmark or body region "left_tail"');
+    expect(() => resolveLandmarkWeights({ torso: -1 })).toThrow('must be a non-negative number');
+  });
+});
+
+describe('parseScoringProfile', () => {
+  test('should accept a minimal profile', () => {
+    expect(parseScoringProfile({ name: 'minimal' }, 'test')).toEqual({ name: 'minimal' });
+  });
+
+  test('should reject invalid fields', () => {
+    expect(() => parseScoringProfile(null, 'test')).toThrow('must be a JSON object');
+    expect(() => parseScoringProfile({ name: '../etc' }, 'test')).toThrow('needs a "name"');
+    expect(() => parseScoringProfile({ name: 'a', metric: 'pixels' }, 'test')).toThrow('invalid metric "pixels"');
+    expect(() => parseScoringProfile({ name: 'a', angleWeight: 2 }, 'test')).toThrow('angleWeight between 0 and 1');
+    expect(() => parseScoringProfile({ name: 'a', distanceCap: 0 }, 'test')).toThrow('positive distanceCap');
+    expect(() => parseScoringProfile({ name: 'a', missingFramePenalty: -1 }, 'test')).toThrow('non-negative missingFramePenalty');
+    expect(() => parseScoringProfile({ name: 'a', landmarkWeights: { default: 0 } }, 'test')).toThrow('At least one landmark');
+  });
+});
+
+describe('profileToSimilarityOptions', () => {
+  test('should map profile fields to similarity options', () => {
+    const options = profileToSimilarityOptions({
+      name: 'test',
+      metric: 'blend',
+      angleWeight: 0.3,
+      normalization: { center: true },
+      angleCap: 30,
+      landmarkWeights: { head: 0 },
+    });
+    expect(options.metric).toBe('blend');
+    expect(options.angleWeight).toBe(0.3);
+    expect(options.normalization).toEqual({ center: true });
+    expect(options.scoring.angleCap).toBe(30);
+    expect(options.scoring.landmarkWeights[LANDMARK.NOSE]).toBe(0);
+  });
+
+  test('should leave out fields the profile does not set', () => {
+    const options = profileToSimilarityOptions({ name: 'test' });
+    expect(options).not.toHaveProperty('metric');
+    expect(options).not.toHaveProperty('normalization');
+    expect(options.scoring.landmarkWeights).toBeUndefined();
+  });
+});
+
+describe('loadScoringProfile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoring-profiles-'));
+  });
+
+  afterEach(() => {
+    fs.readdirSync(dir).forEach(file => fs.unlinkSync(path.join(dir, file)));
+    fs.rmdirSync(dir);
+  });
+
+  test('should load a profile by name', () => {
+    fs.writeFileSync(path.join(dir, 'lunge.json'), JSON.stringify({ name: 'lunge', metric: 'angles' }));
+    expect(loadScoringProfile('lunge', dir)).toEqual({ name: 'lunge', metric: 'angles' });
+  });
+
+  test('should reject invalid names, unknown profiles and mismatched names', () => {
+    fs.writeFileSync(path.join(dir, 'lunge.json'), JSON.stringify({ name: 'squat' }));
+    expect(() => loadScoringProfile('../lunge', dir)).toThrow('Invalid scoring profile name');
+    expect(() => loadScoringProfile('jump', dir)).toThrow('Unknown scoring profile "jump"');
+    expect(() => loadScoringProfile('lunge', dir)).toThrow('declares the name "squat"');
+  });
+
+  test('should list valid profiles and skip invalid ones', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fs.writeFileSync(path.join(dir, 'b.json'), JSON.stringify({ name: 'b' }));
+    fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify({ name: 'a' }));
+    fs.writeFileSync(path.join(dir, 'broken.json'), JSON.stringify({ name: 'broken', metric: 'pixels' }));
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a profile');
+    expect(listScoringProfiles(dir).map(profile => profile.name)).toEqual(['a', 'b']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  test('should ship valid profiles', () => {
+    const profiles = listScoringProfiles(SHIPPED_PROFILES_DIR);
+    expect(profiles.map(profile => profile.name)).toEqual(['dance', 'golf-swing', 'squat', 'upper-body']);
+    profiles.forEach(profile => expect(() => profileToSimilarityOptions(profile)).not.toThrow());
+  });
+});
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { SimilarityMetric, SimilarityOptions } from './analysis';
+import { BodyRegion, BODY_REGIONS, LANDMARK, NUM_POSE_LANDMARKS } from './landmarks';
+import { NormalizationOptions } from './pose_normalization';
+
+/**
+ * Directory scoring profiles are loaded from. Every `<name>.json` file in it is a profile,
+ * so profiles can be added or tuned without code changes. Override with SCORING_PROFILES_DIR.
+ */
+export const SCORING_PROFILES_DIR = process.env.SCORING_PROFILES_DIR || path.join(process.cwd(), 'scoring_profiles');
+
+/**
+ * A named set of scoring settings for a kind of movement, as stored in a profile JSON file.
+ * Every field except `name` is optional and falls back to the `calculateSimilarity` default.
+ */
+export interface ScoringProfile {
+  name: string;
+  description?: string;
+  metric?: SimilarityMetric;
+  /** Weight (0-1) of the angle metric in 'blend' mode. */
+  angleWeight?: number;
+  normalization?: NormalizationOptions;
+  /** Average landmark distance that maps to a score of 0. */
+  distanceCap?: number;
+  /** Average joint angle difference in degrees that maps to a score of 0. */
+  angleCap?: number;
+  /** Dissimilarity of a frame pair where one pose is missing. */
+  missingFramePenalty?: number;
+  /** Dissimilarity of a frame pair where both poses are missing. */
+  bothMissingPenalty?: number;
+  /**
+   * Landmark weights keyed by landmark name (e.g. "left_knee"), body region (e.g. "left_leg")
+   * or "default". A landmark takes its own weight, else its region's, else the default (1 if unset).
+   */
+  landmarkWeights?: Record<string, number>;
+}
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9_-]+$/i;
+const METRICS: SimilarityMetric[] = ['distance', 'angles', 'blend'];
+
+/**
+ * Resolves landmark weights keyed by landmark name, body region or "default" into one weight per landmark.
+ *
+ * @throws If a key is not a landmark name, a body region or "default", or a weight is negative.
+ */
+export function resolveLandmarkWeights(weights: Record<string, number>): number[] {
+  const landmarkNames = Object.keys(LANDMARK).map(key => key.toLowerCase());
+  Object.keys(weights).forEach(key => {
+    if (key !== 'default' && !(key in BODY_REGIONS) && !landmarkNames.includes(key)) {
+      throw new Error(`Unknown landmark or body region "${key}" in landmark weights.`);
+    }
+    if (typeof weights[key] !== 'number' || weights[key] < 0) {
+      throw new Error(`Landmark weight "${key}" must be a non-negative number.`);
+    }
+  });
+
+  const resolved = new Array<number>(NUM_POSE_LANDMARKS).fill(weights.default ?? 1);
+  (Object.keys(BODY_REGIONS) as BodyRegion[]).forEach(region => {
+    if (weights[region] !== undefined) BODY_REGIONS[region].forEach(index => { resolved[index] = weights[region]; });
+  });
+  (Object.keys(LANDMARK) as (keyof typeof LANDMARK)[]).forEach(key => {
+    const weight = weights[key.toLowerCase()];
+    if (weight !== undefined) resolved[LANDMARK[key]] = weight;
+  });
+  return resolved;
+}
+
+/**
+ * Validates a parsed profile definition.
+ *
+ * @param definition The parsed JSON.
+ * @param source Where the definition came from, for error messages.
+ * @throws If the definition is not a valid profile.
+ */
+export function parseScoringProfile(definition: unknown, source: string): ScoringProfile {
+  if (!definition || typeof definition !== 'object') {
+    throw new Error(`Scoring profile ${source} must be a JSON object.`);
+  }
+  const profile = definition as ScoringProfile;
+  if (typeof profile.name !== 'string' || !PROFILE_NAME_PATTERN.test(profile.name)) {
+    throw new Error(`Scoring profile ${source} needs a "name" of letters, digits, "-" or "_".`);
+  }
+  if (profile.metric !== undefined && !METRICS.includes(profile.metric)) {
+    throw new Error(`Scoring profile ${source} has an invalid metric "${profile.metric}".`);
+  }
+  if (profile.angleWeight !== undefined && !(profile.angleWeight >= 0 && profile.angleWeight <= 1)) {
+    throw new Error(`Scoring profile ${source} needs an angleWeight between 0 and 1.`);
+  }
+  (['distanceCap', 'angleCap'] as const).forEach(field => {
+    if (profile[field] !== undefined && !(typeof profile[field] === 'number' && profile[field] > 0)) {
+      throw new Error(`Scoring profile ${source} needs a positive ${field}.`);
+    }
+  });
+  (['missingFramePenalty', 'bothMissingPenalty'] as const).forEach(field => {
+    if (profile[field] !== undefined && !(typeof profile[field] === 'number' && profile[field] >= 0)) {
+      throw new Error(`Scoring profile ${source} needs a non-negative ${field}.`);
+    }
+  });
+  if (profile.landmarkWeights !== undefined) {
+    try {
+      const resolved = resolveLandmarkWeights(profile.landmarkWeights);
+      if (resolved.every(weight => weight === 0)) throw new Error('At least one landmark needs a weight above 0.');
+    } catch (error: any) {
+      throw new Error(`Scoring profile ${source}: ${error.message}`);
+    }
+  }
+  return profile;
+}
+
+/**
+ * Converts a profile into `calculateSimilarity` options. Options the profile does not set are left out,
+ * so they can be filled in (or overridden) by the caller.
+ */
+export function profileToSimilarityOptions(profile: ScoringProfile): SimilarityOptions {
+  const options: SimilarityOptions = {
+    scoring: {
+      landmarkWeights: profile.landmarkWeights ? resolveLandmarkWeights(profile.landmarkWeights) : undefined,
+      distanceCap: profile.distanceCap,
+      angleCap: profile.angleCap,
+      missingFramePenalty: profile.missingFramePenalty,
+      bothMissingPenalty: profile.bothMissingPenalty,
+    },
+  };
+  if (profile.metric !== undefined) options.metric = profile.metric;
+  if (profile.angleWeight !== undefined) options.angleWeight = profile.angleWeight;
+  if (profile.normalization !== undefined) options.normalization = profile.normalization;
+  return options;
+}
+
+/**
+ * Loads a profile by name from `<dir>/<name>.json`.
+ *
+ * @throws If the name is invalid, no such profile exists or the file is not a valid profile.
+ */
+export function loadScoringProfile(name: string, dir: string = SCORING_PROFILES_DIR): ScoringProfile {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid scoring profile name "${name}".`);
+  }
+  const filePath = path.join(dir, `${name}.json`);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Unknown scoring profile "${name}".`);
+  }
+  const profile = parseScoringProfile(JSON.parse(fs.readFileSync(filePath, 'utf-8')), `"${name}"`);
+  if (profile.name !== name) {
+    throw new Error(`Scoring profile file "${name}.json" declares the name "${profile.name}".`);
+  }
+  return profile;
+}
+
+/**
+ * Lists the valid profiles in `dir`, sorted by name. Invalid files are skipped with a warning.
+ */
+export function listScoringProfiles(dir: string = SCORING_PROFILES_DIR): ScoringProfile[] {
+  if (!fs.existsSync(dir)) return [];
+  const profiles: ScoringProfile[] = [];
+  fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .forEach(file => {
+      try {
+        profiles.push(loadScoringProfile(path.basename(file, '.json'), dir));
+      } catch (error: any) {
+        console.warn(`Skipping scoring profile ${file}: ${error.message}`);
+      }
+    });
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,91 @@
+import { analyzeSymmetry } from './symmetry_analysis';
+import { LANDMARK, LANDMARK_NAMES, MIRRORED_LANDMARK } from './landmarks';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose that is symmetric about x = 0.5: every right landmark mirrors its left counterpart.
+const createSymmetricPose = (): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = new Array(33);
+  LANDMARK_NAMES.forEach((name, i) => {
+    if (MIRRORED_LANDMARK[i] === i) landmarks[i] = { x: 0.5, y: 0.1, z: 0, visibility: 0.9 };
+  });
+  const left: [number, number, number][] = [
+    [LANDMARK.LEFT_SHOULDER, 0.6, 0.3],
+    [LANDMARK.LEFT_ELBOW, 0.7, 0.4],
+    [LANDMARK.LEFT_WRIST, 0.72, 0.5],
+    [LANDMARK.LEFT_HIP, 0.56, 0.6],
+    [LANDMARK.LEFT_KNEE, 0.58, 0.75],
+    [LANDMARK.LEFT_ANKLE, 0.58, 0.9],
+    [LANDMARK.LEFT_FOOT_INDEX, 0.62, 0.95],
+  ];
+  LANDMARK_NAMES.forEach((name, i) => {
+    if (landmarks[i] || MIRRORED_LANDMARK[i] < i) return;
+    const known = left.find(([index]) => index === i || index === MIRRORED_LANDMARK[i]);
+    const [x, y] = known ? [known[1], known[2]] : [0.52 + (i % 5) * 0.01, 0.1 + (i % 4) * 0.02];
+    landmarks[i] = { x, y, z: 0, visibility: 0.9 };
+    landmarks[MIRRORED_LANDMARK[i]] = { x: 1 - x, y, z: 0, visibility: 0.9 };
+  });
+  return landmarks;
+};
+
+// A symmetric pose with the left knee bent by moving the left ankle backwards.
+const createBentLeftKneePose = (): NormalizedLandmarkList => {
+  const landmarks = createSymmetricPose();
+  landmarks[LANDMARK.LEFT_ANKLE] = { ...landmarks[LANDMARK.LEFT_ANKLE], x: 0.72, y: 0.86 };
+  return landmarks;
+};
+
+describe('analyzeSymmetry', () => {
+  test('should find no asymmetry in a mirror-symmetric pose', () => {
+    const symmetry = analyzeSymmetry([createSymmetricPose(), createSymmetricPose()]);
+    symmetry.joints.forEach(joint => expect(joint.meanIndex).toBeCloseTo(0));
+    symmetry.landmarkPairs.forEach(pair => expect(pair.meanOffset).toBeCloseTo(0));
+    expect(symmetry.flaggedJoints).toEqual([]);
+    expect(symmetry.framesAnalyzed).toBe(2);
+    expect(symmetry.text).toContain('All joints are within 10%');
+  });
+
+  test('should flag the knee when one knee bends more than the other', () => {
+    const poses = [createSymmetricPose(), createBentLeftKneePose(), createBentLeftKneePose()];
+    const symmetry = analyzeSymmetry(poses, { timestamps: [0, 0.5, 1] });
+    const knee = symmetry.joints.find(joint => joint.joint === 'knee');
+
+    expect(symmetry.flaggedJoints).toContain('knee');
+    expect(symmetry.flaggedJoints).not.toContain('elbow');
+    expect(knee.index[0]).toBeCloseTo(0);
+    expect(knee.index[1]).toBeGreaterThan(10);
+    expect(knee.meanDifference).toBeLessThan(0); // The bent left knee has the smaller angle
+    expect(knee.peakFrame).toBe(1);
+    expect(knee.peakTime).toBe(0.5);
+    expect(knee.leftRange).toBeGreaterThan(knee.rightRange);
+    expect(symmetry.landmarkPairs.find(pair => pair.name === 'ankle').meanOffset).toBeGreaterThan(0);
+    expect(symmetry.text).toContain('Knee:');
+    expect(symmetry.text).toContain('the right angle larger');
+  });
+
+  test('should skip frames without a pose', () => {
+    const symmetry = analyzeSymmetry([undefined, createBentLeftKneePose()]);
+    const knee = symmetry.joints.find(joint => joint.joint === 'knee');
+    expect(knee.index[0]).toBeUndefined();
+    expect(knee.peakFrame).toBe(1);
+    expect(symmetry.framesAnalyzed).toBe(1);
+  });
+
+  test('should see a difference in depth only in world coordinates', () => {
+    // The left wrist reaches forward (towards the camera): invisible in the image plane
+    const pose = createSymmetricPose();
+    pose[LANDMARK.LEFT_WRIST] = { ...pose[LANDMARK.LEFT_WRIST], z: -0.3 };
+
+    const image = analyzeSymmetry([pose]);
+    const world = analyzeSymmetry([pose], { coordinateSpace: 'world' });
+    expect(image.landmarkPairs.find(pair => pair.name === 'wrist').meanOffset).toBeCloseTo(0);
+    expect(world.landmarkPairs.find(pair => pair.name === 'wrist').meanOffset).toBeGreaterThan(0.5);
+    expect(world.joints.find(joint => joint.joint === 'elbow').meanIndex).toBeGreaterThan(0);
+  });
+
+  test('should report when no pose was detected', () => {
+    const symmetry = analyzeSymmetry([undefined, undefined]);
+    expect(symmetry.flaggedJoints).toEqual([]);
+    expect(symmetry.asymmetryIndex).toBe(0);
+    expect(symmetry.text).toContain('No pose was detected');
+  });
+});
@@ -0,0 +1,179 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { calculateJointAngles, JointName } from './joint_angles';
+import { LANDMARK_NAMES, MIRRORED_LANDMARK, NUM_POSE_LANDMARKS } from './landmarks';
+import { CoordinateSpace, getHipMidpoint, getTorsoLength } from './pose_normalization';
+
+/** A joint that exists on both sides of the body, named without its side. */
+export type BilateralJoint = 'elbow' | 'shoulder' | 'hip' | 'knee' | 'ankle';
+
+export const BILATERAL_JOINTS: BilateralJoint[] = ['shoulder', 'elbow', 'hip', 'knee', 'ankle'];
+
+/** How the left and right angle of one joint compare across the sequence. */
+export interface JointAsymmetry {
+  joint: BilateralJoint;
+  /**
+   * Symmetry index per frame, in percent: |left - right| / mean(left, right) * 100.
+   * 0 is perfectly symmetric. Undefined for frames without a pose.
+   */
+  index: (number | undefined)[];
+  /** Left minus right angle per frame, in degrees. */
+  difference: (number | undefined)[];
+  meanIndex: number;
+  peakIndex: number;
+  /** Frame (and time, if timestamps were given) of the peak index. */
+  peakFrame: number;
+  peakTime?: number;
+  /** Mean left minus right angle in degrees. */
+  meanDifference: number;
+  /** Range of motion (max - min angle) of each side in degrees. */
+  leftRange: number;
+  rightRange: number;
+}
+
+/** How far a left landmark is from the mirror image of its right counterpart. */
+export interface LandmarkPairAsymmetry {
+  /** Landmark name without its side, e.g. "wrist". */
+  name: string;
+  left: number;
+  right: number;
+  /**
+   * Distance per frame between the left landmark and the right one reflected across the body's
+   * vertical midline (through the hip midpoint), in torso lengths. Undefined for frames without a pose.
+   */
+  offset: (number | undefined)[];
+  meanOffset: number;
+}
+
+export interface SymmetryAnalysis {
+  joints: JointAsymmetry[];
+  landmarkPairs: LandmarkPairAsymmetry[];
+  /** Mean of the joints' mean symmetry indices. */
+  asymmetryIndex: number;
+  /** Joints whose mean symmetry index is at or above the threshold, most asymmetric first. */
+  flaggedJoints: BilateralJoint[];
+  /** Number of frames with a pose. */
+  framesAnalyzed: number;
+  timestamps?: number[];
+  text: string;
+}
+
+export interface SymmetryOptions {
+  /** Mean symmetry index (percent) at which a joint is flagged as asymmetric. Defaults to 10. */
+  threshold?: number;
+  /** Time in seconds of each frame, used to time the peaks. */
+  timestamps?: number[];
+  /** Coordinates of the poses. World poses are compared in 3D, including depth. Defaults to 'image'. */
+  coordinateSpace?: CoordinateSpace;
+}
+
+/** Symmetry index of two values in percent, 0 if both are 0. */
+function symmetryIndex(left: number, right: number): number {
+  const mean = (Math.abs(left) + Math.abs(right)) / 2;
+  return mean > 1e-6 ? (Math.abs(left - right) / mean) * 100 : 0;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/** Left landmarks paired with their right counterparts, named without the side. */
+const LANDMARK_PAIRS: { name: string; left: number; right: number }[] = LANDMARK_NAMES
+  .map((name, index) => ({ name, index }))
+  .filter(({ name }) => name.startsWith('left '))
+  .map(({ name, index }) => ({ name: name.slice('left '.length), left: index, right: MIRRORED_LANDMARK[index] }));
+
+function analyzeJoint(joint: BilateralJoint, angles: (ReturnType<typeof calculateJointAngles> | undefined)[], timestamps?: number[]): JointAsymmetry {
+  const left = `left_${joint}` as JointName;
+  const right = `right_${joint}` as JointName;
+  const index = angles.map(a => (a ? symmetryIndex(a[left], a[right]) : undefined));
+  const difference = angles.map(a => (a ? a[left] - a[right] : undefined));
+
+  const present = angles.map((a, i) => (a ? i : -1)).filter(i => i >= 0);
+  const peakFrame = present.reduce((best, i) => (best < 0 || index[i] > index[best] ? i : best), -1);
+  const leftAngles = present.map(i => angles[i][left]);
+  const rightAngles = present.map(i => angles[i][right]);
+  const range = (values: number[]) => (values.length > 0 ? Math.max(...values) - Math.min(...values) : 0);
+  const round = (value: number) => parseFloat(value.toFixed(2));
+
+  return {
+    joint,
+    index: index.map(value => (value === undefined ? undefined : round(value))),
+    difference: difference.map(value => (value === undefined ? undefined : round(value))),
+    meanIndex: round(mean(present.map(i => index[i]))),
+    peakIndex: peakFrame >= 0 ? round(index[peakFrame]) : 0,
+    peakFrame: Math.max(0, peakFrame),
+    peakTime: timestamps && peakFrame >= 0 ? timestamps[peakFrame] : undefined,
+    meanDifference: round(mean(present.map(i => difference[i]))),
+    leftRange: round(range(leftAngles)),
+    rightRange: round(range(rightAngles)),
+  };
+}
+
+function analyzeLandmarkPair(
+  pair: { name: string; left: number; right: number },
+  poses: (NormalizedLandmarkList | undefined)[],
+  space: CoordinateSpace
+): LandmarkPairAsymmetry {
+  const offset = poses.map(landmarks => {
+    if (!landmarks) return undefined;
+    const midlineX = getHipMidpoint(landmarks).x;
+    const torsoLength = getTorsoLength(landmarks, space);
+    const left = landmarks[pair.left];
+    const right = landmarks[pair.right];
+    const dz = space === 'world' ? left.z - right.z : 0; // Image depth is too weak to compare sides with
+    const distance = Math.sqrt(Math.pow(left.x - (2 * midlineX - right.x), 2) + Math.pow(left.y - right.y, 2) + dz * dz);
+    return parseFloat((torsoLength > 1e-6 ? distance / torsoLength : distance).toFixed(4));
+  });
+  const present = offset.filter((value): value is number => value !== undefined);
+  return { ...pair, offset, meanOffset: parseFloat(mean(present).toFixed(4)) };
+}
+
+function describeSymmetry(analysis: Omit<SymmetryAnalysis, 'text'>, threshold: number): string {
+  if (analysis.framesAnalyzed === 0) return 'No pose was detected in the video, so symmetry could not be analyzed.';
+  let text = `Overall asymmetry index: ${analysis.asymmetryIndex.toFixed(1)}% over ${analysis.framesAnalyzed} frame(s).`;
+  if (analysis.flaggedJoints.length === 0) {
+    return `${text} All joints are within ${threshold}% of each other left to right.`;
+  }
+  analysis.flaggedJoints.forEach(joint => {
+    const asymmetry = analysis.joints.find(candidate => candidate.joint === joint);
+    const side = asymmetry.meanDifference > 0 ? 'left' : 'right';
+    text += ` ${joint.charAt(0).toUpperCase()}${joint.slice(1)}: ${asymmetry.meanIndex.toFixed(1)}% asymmetric, the ${side} angle larger by ${Math.abs(asymmetry.meanDifference).toFixed(0)}° on average`;
+    text += ` (range of motion left ${asymmetry.leftRange.toFixed(0)}°, right ${asymmetry.rightRange.toFixed(0)}°).`;
+  });
+  return text;
+}
+
+/**
+ * Compares the left and right side of a single pose sequence: joint angles through symmetry indices,
+ * and landmark positions by reflecting the right side across the body's midline. Landmark offsets
+ * assume the person faces (or turns their back to) the camera; joint angles work from any view
+ * in which both sides are visible.
+ *
+ * @param poses Pose landmarks per frame (undefined where no pose was detected).
+ * @param options Flagging threshold and frame times.
+ * @returns Per-joint and per-landmark-pair asymmetry over time, with a summary.
+ */
+export function analyzeSymmetry(poses: (NormalizedLandmarkList | undefined)[], options: SymmetryOptions = {}): SymmetryAnalysis {
+  const threshold = options.threshold ?? 10;
+  const validPoses = poses.map(landmarks => (landmarks && landmarks.length === NUM_POSE_LANDMARKS ? landmarks : undefined));
+  const space = options.coordinateSpace ?? 'image';
+  const angles = validPoses.map(landmarks => (landmarks ? calculateJointAngles(landmarks, space === 'world') : undefined));
+
+  const joints = BILATERAL_JOINTS.map(joint => analyzeJoint(joint, angles, options.timestamps));
+  const landmarkPairs = LANDMARK_PAIRS.map(pair => analyzeLandmarkPair(pair, validPoses, space));
+  const framesAnalyzed = validPoses.filter(Boolean).length;
+  const flaggedJoints = joints
+    .filter(asymmetry => framesAnalyzed > 0 && asymmetry.meanIndex >= threshold)
+    .sort((a, b) => b.meanIndex - a.meanIndex)
+    .map(asymmetry => asymmetry.joint);
+
+  const analysis = {
+    joints,
+    landmarkPairs,
+    asymmetryIndex: parseFloat(mean(joints.map(asymmetry => asymmetry.meanIndex)).toFixed(2)),
+    flaggedJoints,
+    framesAnalyzed,
+    timestamps: options.timestamps,
+  };
+  return { ...analysis, text: describeSymmetry(analysis, threshold) };
+}
@@ -0,0 +1,102 @@
+import { analyzeTempo, detectMovementBounds, TempoInput } from './tempo_analysis';
+import { calculateSimilarity } from './analysis';
+import { RepetitionAnalysis, RepPhase } from './repetition_analysis';
+import { NormalizedLandmarkList, NormalizedLandmark } from '@mediapipe/pose';
+
+// Helper to create a pose with every landmark shifted to the given x offset.
+const createShiftedPose = (offset: number): NormalizedLandmarkList => {
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < 33; i++) {
+    landmarks.push({ x: 0.2 + i * 0.01 + offset, y: 0.3 + i * 0.01, z: 0, visibility: 0.9 });
+  }
+  return landmarks;
+};
+
+// Standing still for `still` frames, moving steadily for `moving` frames, then standing still again.
+const createMovement = (still: number, moving: number): NormalizedLandmarkList[] => [
+  ...Array.from({ length: still }, () => createShiftedPose(0)),
+  ...Array.from({ length: moving }, (_, i) => createShiftedPose(((i + 1) * 0.3) / moving)),
+  ...Array.from({ length: still }, () => createShiftedPose(0.3)),
+];
+
+const timestampsFor = (frames: number, interval: number) => Array.from({ length: frames }, (_, i) => i * interval);
+
+// Builds the tempo input for two pose sequences aligned frame by frame.
+const createInput = (poses: NormalizedLandmarkList[], timestamps1: number[], timestamps2: number[]): TempoInput => ({
+  poses1: poses,
+  poses2: poses,
+  timestamps1,
+  timestamps2,
+  clipDuration1: timestamps1[timestamps1.length - 1],
+  clipDuration2: timestamps2[timestamps2.length - 1],
+  alignmentPath: calculateSimilarity(poses, poses, poses.length, { timestamps1, timestamps2 }).alignmentPath,
+});
+
+// Helper to build a rep analysis with a single rep made of the given phase spans in seconds.
+const createRepAnalysis = (spans: [RepPhase, number, number][]): RepetitionAnalysis => ({
+  source: { type: 'joint', joint: 'left_knee' },
+  repCount: 1,
+  reps: [{
+    startFrame: 0,
+    bottomFrame: 5,
+    endFrame: 10,
+    phases: spans.map(([phase, startTime, endTime]) => ({ phase, startFrame: 0, endFrame: 0, startTime, endTime })),
+  }],
+  signal: [],
+});
+
+describe('detectMovementBounds', () => {
+  test('should leave out the still lead-in and lead-out', () => {
+    const bounds = detectMovementBounds(createMovement(5, 10), timestampsFor(20, 0.1));
+    expect(bounds.startFrame).toBe(4);
+    expect(bounds.endFrame).toBe(14);
+    expect(bounds.duration).toBeCloseTo(1);
+  });
+
+  test('should return the whole clip without any movement', () => {
+    const poses = [undefined, createShiftedPose(0), createShiftedPose(0)];
+    expect(detectMovementBounds(poses, [0, 0.5, 1])).toEqual({ startFrame: 0, endFrame: 2, startTime: 0, endTime: 1, duration: 1 });
+  });
+});
+
+describe('analyzeTempo', () => {
+  const poses = createMovement(5, 10);
+
+  test('should report the real-time speed ratio of equally sampled clips', () => {
+    // Both clips have 20 frames, but the performer's lasts twice as long.
+    const tempo = analyzeTempo(createInput(poses, timestampsFor(20, 0.2), timestampsFor(20, 0.1)));
+    expect(tempo.speedRatio).toBeCloseTo(0.5);
+    expect(tempo.tempo).toBe('slow');
+    expect(tempo.sections).toHaveLength(4);
+    tempo.sections.forEach(section => expect(section.tempo).toBe('slow'));
+    expect(tempo.text).toContain('0.50x the reference speed, too slow overall');
+  });
+
+  test('should be on pace for the same timing', () => {
+    const tempo = analyzeTempo(createInput(poses, timestampsFor(20, 0.1), timestampsFor(20, 0.1)));
+    expect(tempo.speedRatio).toBeCloseTo(1);
+    expect(tempo.tempo).toBe('on_pace');
+    expect(tempo.flagged).toEqual([]);
+  });
+
+  test('should flag a rushed section', () => {
+    // The performer gets through frames 10-13 in half the time.
+    const timestamps1 = timestampsFor(20, 0.1).map((t, i) => (i <= 10 ? t : i <= 13 ? 1 + (i - 10) * 0.05 : t - 0.15));
+    const tempo = analyzeTempo(createInput(poses, timestamps1, timestampsFor(20, 0.1)), { tolerance: 0.3 });
+    expect(tempo.tempo).toBe('on_pace');
+    expect(tempo.flagged[0]).toMatchObject({ kind: 'section', tempo: 'rushed', name: 'section 3 of 4' });
+    expect(tempo.flagged[0].speedRatio).toBeGreaterThan(1.3);
+  });
+
+  test('should compare rep phases with the reference rep', () => {
+    const input = createInput(poses, timestampsFor(20, 0.1), timestampsFor(20, 0.1));
+    input.repetitions = {
+      short: createRepAnalysis([['eccentric', 0, 0.5], ['bottom', 0.5, 0.7], ['concentric', 0.7, 1.7]]),
+      reference: createRepAnalysis([['eccentric', 0, 1], ['bottom', 1, 1.2], ['concentric', 1.2, 2.2]]),
+    };
+    const { phases, flagged } = analyzeTempo(input);
+    expect(phases.map(phase => phase.tempo)).toEqual(['rushed', 'on_pace', 'on_pace']);
+    expect(phases[0]).toMatchObject({ name: 'rep 1 eccentric phase', rep: 1, phase: 'eccentric', speedRatio: 2 });
+    expect(flagged).toContainEqual(phases[0]);
+  });
+});
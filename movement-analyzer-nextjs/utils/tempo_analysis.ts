@@ -0,0 +1,269 @@
+import { NormalizedLandmarkList } from '@mediapipe/pose';
+import { AlignmentStep } from './analysis';
+import { computeKinematics } from './kinematics';
+import { RepetitionAnalysis, RepPhase } from './repetition_analysis';
+
+/** Whether a stretch of movement was faster than, about as fast as, or slower than the reference. */
+export type TempoLabel = 'rushed' | 'on_pace' | 'slow';
+
+/** Where the movement starts and ends within a clip, ignoring the still lead-in and lead-out. */
+export interface MovementBounds {
+  startFrame: number;
+  endFrame: number;
+  startTime: number;
+  endTime: number;
+  /** endTime - startTime, in seconds. */
+  duration: number;
+}
+
+/** The tempo of a stretch of the performer's movement compared with the matching stretch of the reference. */
+export interface TempoSegment {
+  /** Human-readable name, e.g. "section 2 of 4" or "rep 1 eccentric phase". */
+  name: string;
+  kind: 'section' | 'phase';
+  /** 1-based rep number and phase, for phase segments. */
+  rep?: number;
+  phase?: RepPhase;
+  /** Start and end in seconds in the performer's video (1) and the reference video (2). */
+  startTime1: number;
+  endTime1: number;
+  startTime2: number;
+  endTime2: number;
+  duration1: number;
+  duration2: number;
+  /** Reference duration / performer duration: 2 means twice the reference's speed, 0.5 half of it. */
+  speedRatio: number;
+  tempo: TempoLabel;
+}
+
+export interface TempoAnalysis {
+  /** Full clip durations in seconds, from the video metadata. */
+  clipDuration1: number;
+  clipDuration2: number;
+  movement1: MovementBounds;
+  movement2: MovementBounds;
+  /** Reference movement duration / performer movement duration, see `TempoSegment.speedRatio`. */
+  speedRatio: number;
+  tempo: TempoLabel;
+  /** Equal slices of the reference movement and the stretch of the performer's movement aligned with each. */
+  sections: TempoSegment[];
+  /** Rep phases compared with the same phase of the reference's first rep. Empty without repetitions. */
+  phases: TempoSegment[];
+  /** Sections and phases that were not on pace, furthest off first. */
+  flagged: TempoSegment[];
+  text: string;
+}
+
+export interface TempoOptions {
+  /** How far (as a share) the speed ratio may stray from 1 and still be on pace. Defaults to 0.2. */
+  tolerance?: number;
+  /** Number of equal sections the reference movement is split into. Defaults to 4. */
+  sectionCount?: number;
+  /** Share (0-1) of the peak body speed above which a frame counts as moving. Defaults to 0.15. */
+  movementThreshold?: number;
+}
+
+export interface TempoInput {
+  poses1: (NormalizedLandmarkList | undefined)[];
+  poses2: (NormalizedLandmarkList | undefined)[];
+  /** Time in seconds of each sampled frame, e.g. from `computeFrameTimestamps`. */
+  timestamps1: number[];
+  timestamps2: number[];
+  /** Full clip durations in seconds. */
+  clipDuration1: number;
+  clipDuration2: number;
+  /** Frame alignment from `calculateSimilarity`, used to match sections of the two movements. */
+  alignmentPath: AlignmentStep[];
+  repetitions?: { short: RepetitionAnalysis; reference: RepetitionAnalysis };
+}
+
+function labelTempo(speedRatio: number, tolerance: number): TempoLabel {
+  if (speedRatio > 1 + tolerance) return 'rushed';
+  if (speedRatio < 1 / (1 + tolerance)) return 'slow';
+  return 'on_pace';
+}
+
+/**
+ * Finds the first and last frame where the body moves faster than `threshold` times its peak speed.
+ * Without any movement (or any pose), the whole clip is returned.
+ *
+ * @param poses Pose landmarks per frame (undefined where no pose was detected).
+ * @param timestamps Time in seconds of each frame.
+ * @param threshold Share (0-1) of the peak body speed above which a frame counts as moving.
+ */
+export function detectMovementBounds(
+  poses: (NormalizedLandmarkList | undefined)[],
+  timestamps: number[],
+  threshold: number = 0.15
+): MovementBounds {
+  const { meanSpeed, peakSpeed } = computeKinematics(poses, timestamps);
+  const moving = meanSpeed
+    .map((speed, i) => (speed !== undefined && peakSpeed > 0 && speed >= threshold * peakSpeed ? i : -1))
+    .filter(i => i >= 0);
+  const startFrame = moving.length > 0 ? moving[0] : 0;
+  const endFrame = moving.length > 0 ? moving[moving.length - 1] : Math.max(0, poses.length - 1);
+  const startTime = timestamps[startFrame] ?? 0;
+  const endTime = timestamps[endFrame] ?? 0;
+  return { startFrame, endFrame, startTime, endTime, duration: endTime - startTime };
+}
+
+/**
+ * Maps each reference frame in [startFrame, endFrame] to a time in the performer's video: the mean
+ * time of the performer frames it was aligned with. Reference frames the path skips are interpolated.
+ */
+function mapReferenceTimes(path: AlignmentStep[], timestamps1: number[], startFrame: number, endFrame: number): (number | undefined)[] {
+  const sums = new Map<number, { total: number; count: number }>();
+  path.forEach(step => {
+    const entry = sums.get(step.index2) || { total: 0, count: 0 };
+    entry.total += step.time1 ?? timestamps1[step.index1];
+    entry.count++;
+    sums.set(step.index2, entry);
+  });
+
+  const mapped: (number | undefined)[] = [];
+  for (let j = startFrame; j <= endFrame; j++) {
+    const entry = sums.get(j);
+    mapped.push(entry ? entry.total / entry.count : undefined);
+  }
+  mapped.forEach((time, k) => {
+    if (time !== undefined) return;
+    let before = k - 1;
+    while (before >= 0 && sums.get(startFrame + before) === undefined) before--;
+    let after = k + 1;
+    while (after < mapped.length && sums.get(startFrame + after) === undefined) after++;
+    if (before >= 0 && after < mapped.length) {
+      mapped[k] = mapped[before] + ((mapped[after] - mapped[before]) * (k - before)) / (after - before);
+    }
+  });
+  return mapped;
+}
+
+/** Splits the reference movement into equal sections and times the aligned stretch of the performer's movement. */
+function analyzeSections(input: TempoInput, movement2: MovementBounds, sectionCount: number, tolerance: number): TempoSegment[] {
+  const { startFrame, endFrame } = movement2;
+  const frameCount = endFrame - startFrame;
+  if (frameCount < 1 || input.alignmentPath.length === 0) return [];
+  const mapped = mapReferenceTimes(input.alignmentPath, input.timestamps1, startFrame, endFrame);
+
+  const count = Math.min(sectionCount, frameCount);
+  const segments: TempoSegment[] = [];
+  for (let s = 0; s < count; s++) {
+    // Adjacent sections share their boundary frame
+    const from = Math.round((s * frameCount) / count);
+    const to = Math.round(((s + 1) * frameCount) / count);
+    const startTime1 = mapped[from];
+    const endTime1 = mapped[to];
+    if (startTime1 === undefined || endTime1 === undefined) continue;
+    const startTime2 = input.timestamps2[startFrame + from];
+    const endTime2 = input.timestamps2[startFrame + to];
+    const duration1 = endTime1 - startTime1;
+    const duration2 = endTime2 - startTime2;
+    if (duration1 <= 0 || duration2 <= 0) continue;
+    const speedRatio = duration2 / duration1;
+    segments.push({
+      name: `section ${s + 1} of ${count}`,
+      kind: 'section',
+      startTime1, endTime1, startTime2, endTime2, duration1, duration2,
+      speedRatio,
+      tempo: labelTempo(speedRatio, tolerance),
+    });
+  }
+  return segments;
+}
+
+/** Times each phase of each performer rep against the same phase of the reference's first rep. */
+function analyzePhases(repetitions: TempoInput['repetitions'], tolerance: number): TempoSegment[] {
+  if (!repetitions || repetitions.reference.repCount === 0) return [];
+  const referencePhases = repetitions.reference.reps[0].phases;
+  const segments: TempoSegment[] = [];
+  repetitions.short.reps.forEach((rep, r) => {
+    rep.phases.forEach(span => {
+      const referenceSpan = referencePhases.find(candidate => candidate.phase === span.phase);
+      if (!referenceSpan || span.startTime === undefined || referenceSpan.startTime === undefined) return;
+      const duration1 = span.endTime - span.startTime;
+      const duration2 = referenceSpan.endTime - referenceSpan.startTime;
+      if (duration1 <= 0 || duration2 <= 0) return;
+      const speedRatio = duration2 / duration1;
+      segments.push({
+        name: `rep ${r + 1} ${span.phase} phase`,
+        kind: 'phase',
+        rep: r + 1,
+        phase: span.phase,
+        startTime1: span.startTime,
+        endTime1: span.endTime,
+        startTime2: referenceSpan.startTime,
+        endTime2: referenceSpan.endTime,
+        duration1,
+        duration2,
+        speedRatio,
+        tempo: labelTempo(speedRatio, tolerance),
+      });
+    });
+  });
+  return segments;
+}
+
+function describeTempo(analysis: Omit<TempoAnalysis, 'text'>): string {
+  const { movement1, movement2, speedRatio, tempo, flagged } = analysis;
+  let text = `Movement took ${movement1.duration.toFixed(2)}s against the reference's ${movement2.duration.toFixed(2)}s `;
+  text += `(${analysis.clipDuration1.toFixed(2)}s and ${analysis.clipDuration2.toFixed(2)}s clips): ${speedRatio.toFixed(2)}x the reference speed`;
+  text += tempo === 'on_pace' ? ', on pace.' : tempo === 'rushed' ? ', rushed overall.' : ', too slow overall.';
+  flagged.slice(0, 3).forEach(segment => {
+    text += ` ${segment.tempo === 'rushed' ? 'Rushed' : 'Too slow'}: ${segment.name} `;
+    text += `(${segment.startTime1.toFixed(2)}s–${segment.endTime1.toFixed(2)}s, ${segment.speedRatio.toFixed(2)}x).`;
+  });
+  return text;
+}
+
+/**
+ * Compares the tempo of two performances using real frame times rather than frame counts, so a
+ * 4 second attempt at a 2 second movement shows up even though both clips were resampled to the same
+ * number of frames. The still lead-in and lead-out of each clip are left out of the overall ratio.
+ *
+ * @param input The compared pose sequences, their frame times and clip durations, and the alignment between them.
+ * @param options Tolerance, section count and movement detection threshold.
+ * @returns The overall speed ratio, per-section and per-phase tempo, and the stretches that were rushed or too slow.
+ */
+export function analyzeTempo(input: TempoInput, options: TempoOptions = {}): TempoAnalysis {
+  const tolerance = options.tolerance ?? 0.2;
+  const sectionCount = options.sectionCount ?? 4;
+  const threshold = options.movementThreshold ?? 0.15;
+
+  const movement1 = detectMovementBounds(input.poses1, input.timestamps1, threshold);
+  const movement2 = detectMovementBounds(input.poses2, input.timestamps2, threshold);
+  // Fall back to the clip durations if either movement could not be timed
+  const speedRatio = movement1.duration > 0 && movement2.duration > 0
+    ? movement2.duration / movement1.duration
+    : input.clipDuration1 > 0 ? input.clipDuration2 / input.clipDuration1 : 1;
+
+  const sections = analyzeSections(input, movement2, sectionCount, tolerance);
+  const phases = analyzePhases(input.repetitions, tolerance);
+  const flagged = [...sections, ...phases]
+    .filter(segment => segment.tempo !== 'on_pace')
+    .sort((a, b) => Math.abs(Math.log(b.speedRatio)) - Math.abs(Math.log(a.speedRatio)));
+
+  const round = (value: number) => parseFloat(value.toFixed(3));
+  const roundSegment = (segment: TempoSegment): TempoSegment => ({
+    ...segment,
+    startTime1: round(segment.startTime1),
+    endTime1: round(segment.endTime1),
+    startTime2: round(segment.startTime2),
+    endTime2: round(segment.endTime2),
+    duration1: round(segment.duration1),
+    duration2: round(segment.duration2),
+    speedRatio: round(segment.speedRatio),
+  });
+
+  const analysis = {
+    clipDuration1: input.clipDuration1,
+    clipDuration2: input.clipDuration2,
+    movement1,
+    movement2,
+    speedRatio: round(speedRatio),
+    tempo: labelTempo(speedRatio, tolerance),
+    sections: sections.map(roundSegment),
+    phases: phases.map(roundSegment),
+    flagged: flagged.map(roundSegment),
+  };
+  return { ...analysis, text: describeTempo(analysis) };
+}
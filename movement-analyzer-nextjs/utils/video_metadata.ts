@@ -0,0 +1,40 @@
+import ffmpeg, { FfprobeData } from 'fluent-ffmpeg';
+
+export interface VideoMetadata {
+    duration: number;
+    width: number;
+    height: number;
+    fps: number;
+}
+
+// Helper function to get video metadata including dimensions and FPS
+export async function getVideoMetadata(filePath: string): Promise<VideoMetadata> {
+    return new Promise((resolve, reject) => {
+        ffmpeg.ffprobe(filePath, (err, metadata: FfprobeData) => {
+            if (err) {
+                return reject(new Error(`ffprobe error: ${err.message}`));
+            }
+            const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+            if (!videoStream || typeof videoStream.duration !== 'string' || 
+                !videoStream.width || !videoStream.height || !videoStream.r_frame_rate) {
+                return reject(new Error('Essential video metadata (duration, width, height, fps) not found.'));
+            }
+            const duration = parseFloat(videoStream.duration);
+            const fpsString = videoStream.r_frame_rate;
+            const [num, den] = fpsString.split('/').map(Number);
+            const fps = den && num ? num / den : 30; // Default to 30 if parsing fails
+
+            resolve({
+                duration,
+                width: videoStream.width,
+                height: videoStream.height,
+                fps: fps,
+            });
+        });
+    });
+}
+
+// Helper to get the rate at which frames were sampled from a video (falls back to the video's own fps)
+export function getSamplingFps(metadata: VideoMetadata, targetFrames: number): number {
+  return metadata.duration > 0 ? targetFrames / metadata.duration : metadata.fps;
+}
@@ -1,4 +1,4 @@
-import { extractFrames, createVideoFromFrames } from './video_processing'; // Adjust path
+import { extractFrames, createVideoFromFrames, computeFrameTimestamps } from './video_processing'; // Adjust path
 import fs from 'fs'; // Mocked in jest.setup.js
 import path from 'path';
 import ffmpeg from 'fluent-ffmpeg'; // Mocked in jest.setup.js
@@ -204,3 +204,18 @@ describe('createVideoFromFrames', () => {
             .rejects.toThrow('FFmpeg error creating video: ffmpeg video creation failed');
     });
 });
+
+describe('computeFrameTimestamps', () => {
+    test('should space timestamps evenly over the duration', () => {
+        expect(computeFrameTimestamps(2, 4)).toEqual([0, 0.5, 1, 1.5]);
+    });
+
+    test('should round timestamps to milliseconds', () => {
+        expect(computeFrameTimestamps(1, 3)).toEqual([0, 0.333, 0.667]);
+    });
+
+    test('should return zeros for an unknown duration and nothing for no frames', () => {
+        expect(computeFrameTimestamps(0, 2)).toEqual([0, 0]);
+        expect(computeFrameTimestamps(5, 0)).toEqual([]);
+    });
+});
@@ -168,6 +168,21 @@ export async function extractFrames(
   });
 }
 
+/**
+ * Computes the time of each frame returned by `extractFrames`.
+ * Frames are sampled evenly across the video (fps = frameCount / duration), so frame i
+ * sits at i * duration / frameCount seconds.
+ *
+ * @param duration Duration of the source video in seconds.
+ * @param frameCount Number of extracted frames.
+ * @returns Timestamps in seconds, one per frame.
+ */
+export function computeFrameTimestamps(duration: number, frameCount: number): number[] {
+  if (frameCount <= 0) return [];
+  const interval = duration > 0 ? duration / frameCount : 0;
+  return Array.from({ length: frameCount }, (_, i) => parseFloat((i * interval).toFixed(3)));
+}
+
 /**
  * Creates a video from a sequence of image frames.
  *
@@ -0,0 +1,97 @@
+import { Worker } from 'worker_threads';
+import { createWorkerPool, WorkerPool } from './worker_pool';
+
+interface TestTask {
+  value: number;
+  delay?: number;
+  fail?: boolean;
+  crash?: boolean;
+}
+
+interface TestResult {
+  value: number;
+  threadId: number;
+}
+
+// Doubles the task's value after its delay, reporting which thread did it. Plain JavaScript, so it runs without compiling.
+const WORKER_SCRIPT = `
+const { parentPort, threadId } = require('worker_threads');
+parentPort.on('message', ({ id, task }) => {
+  if (task.crash) process.exit(3);
+  setTimeout(() => {
+    if (task.fail) parentPort.postMessage({ id, error: 'Task ' + task.value + ' failed' });
+    else parentPort.postMessage({ id, result: { value: task.value * 2, threadId } });
+  }, task.delay || 0);
+});
+`;
+
+describe('createWorkerPool', () => {
+  let pool: WorkerPool<TestTask, TestResult>;
+  let started: number;
+
+  const createPool = (size: number) => {
+    started = 0;
+    pool = createWorkerPool<TestTask, TestResult>(() => {
+      started++;
+      return new Worker(WORKER_SCRIPT, { eval: true });
+    }, size);
+    return pool;
+  };
+
+  afterEach(async () => {
+    if (pool) await pool.destroy();
+    pool = undefined;
+  });
+
+  test('should return results in task order, however long each task takes', async () => {
+    // Earlier tasks take longer, so they finish last
+    const tasks = [0, 1, 2, 3, 4, 5].map(value => ({ value, delay: (6 - value) * 10 }));
+    const results = await createPool(3).map(tasks);
+
+    expect(results.map(result => result.value)).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(new Set(results.map(result => result.threadId)).size).toBe(3);
+    expect(started).toBe(3);
+  });
+
+  test('should reuse workers for later tasks', async () => {
+    createPool(2);
+    await pool.run({ value: 1 });
+    await pool.map([{ value: 2 }, { value: 3 }]);
+    expect(started).toBe(2);
+  });
+
+  test('should reject a failing task without affecting the others', async () => {
+    createPool(2);
+    const [first, second, third] = await Promise.allSettled([pool.run({ value: 1 }), pool.run({ value: 2, fail: true }), pool.run({ value: 3 })]);
+
+    expect(first).toMatchObject({ status: 'fulfilled', value: { value: 2 } });
+    expect(second).toMatchObject({ status: 'rejected', reason: new Error('Task 2 failed') });
+    expect(third).toMatchObject({ status: 'fulfilled', value: { value: 6 } });
+    await expect(pool.map([{ value: 4 }, { value: 5, fail: true }])).rejects.toThrow('Task 5 failed');
+  });
+
+  test('should replace a worker that crashes', async () => {
+    createPool(1);
+    const crashed = pool.run({ value: 1, crash: true });
+    const next = pool.run({ value: 2 });
+
+    await expect(crashed).rejects.toThrow('Worker stopped with exit code 3');
+    await expect(next).resolves.toMatchObject({ value: 4 });
+    expect(started).toBe(2);
+  });
+
+  test('should reject unfinished tasks when destroyed', async () => {
+    createPool(1);
+    const running = pool.run({ value: 1, delay: 1000 });
+    const queued = pool.run({ value: 2 });
+    const rejections = [expect(running).rejects.toThrow('destroyed'), expect(queued).rejects.toThrow('destroyed')];
+    await pool.destroy();
+
+    await Promise.all(rejections);
+    await expect(pool.run({ value: 3 })).rejects.toThrow('destroyed');
+  });
+
+  test('should need at least one worker', () => {
+    expect(() => createWorkerPool(() => new Worker(WORKER_SCRIPT, { eval: true }), 0)).toThrow('at least one worker');
+  });
+});
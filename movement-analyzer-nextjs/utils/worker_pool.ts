@@ -0,0 +1,147 @@
+import { parentPort, Worker } from 'worker_threads';
+
+// Sent to a worker: a task and the id its result is returned under
+interface TaskMessage<TTask> {
+  id: number;
+  task: TTask;
+}
+
+// Sent back by a worker: the result of a task, or the message of the error it threw
+interface ResultMessage<TResult> {
+  id: number;
+  result?: TResult;
+  error?: string;
+}
+
+/** A fixed number of worker threads that run tasks posted to them, one task per worker at a time. */
+export interface WorkerPool<TTask, TResult> {
+  /** Most workers running at once. */
+  readonly size: number;
+  /** Runs a task on the next free worker. Rejects with the task's error, or if the worker crashes. */
+  run(task: TTask): Promise<TResult>;
+  /** Runs tasks spread across the workers, resolving to their results in the order of the tasks. */
+  map(tasks: TTask[]): Promise<TResult[]>;
+  /** Stops every worker. Tasks not finished yet are rejected. */
+  destroy(): Promise<void>;
+}
+
+/**
+ * Creates a pool of worker threads. Workers are started as tasks arrive, up to `size`, and are
+ * kept for later tasks; idle workers do not keep the process alive. A worker that crashes fails
+ * its task and is replaced for the tasks after it.
+ *
+ * @param createWorker Starts one worker, whose script answers tasks with `serveWorkerTasks`.
+ * @param size Most workers running at once.
+ * @throws If the size is not a positive integer.
+ */
+export function createWorkerPool<TTask, TResult>(createWorker: () => Worker, size: number): WorkerPool<TTask, TResult> {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error(`A worker pool needs at least one worker, got ${size}.`);
+  }
+
+  interface PendingTask {
+    id: number;
+    task: TTask;
+    resolve: (result: TResult) => void;
+    reject: (error: Error) => void;
+  }
+  const queue: PendingTask[] = [];
+  const workers = new Set<Worker>();
+  const idle: Worker[] = [];
+  const busy = new Map<Worker, PendingTask>();
+  let nextId = 0;
+  let destroyed = false;
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let worker = idle.pop();
+      if (!worker) {
+        if (workers.size >= size) return;
+        worker = spawn();
+      }
+      const pending = queue.shift();
+      busy.set(worker, pending);
+      worker.ref();
+      const message: TaskMessage<TTask> = { id: pending.id, task: pending.task };
+      worker.postMessage(message);
+    }
+  };
+
+  const spawn = (): Worker => {
+    const worker = createWorker();
+    workers.add(worker);
+
+    worker.on('message', (message: ResultMessage<TResult>) => {
+      const pending = busy.get(worker);
+      if (!pending || pending.id !== message.id) return;
+      busy.delete(worker);
+      worker.unref();
+      idle.push(worker);
+      if (message.error !== undefined) pending.reject(new Error(message.error));
+      else pending.resolve(message.result);
+      dispatch();
+    });
+
+    // The worker is gone (an 'error' is followed by an 'exit', so only the first one counts)
+    const remove = (error: Error) => {
+      if (destroyed || !workers.has(worker)) return;
+      workers.delete(worker);
+      const idleIndex = idle.indexOf(worker);
+      if (idleIndex >= 0) idle.splice(idleIndex, 1);
+      const pending = busy.get(worker);
+      busy.delete(worker);
+      if (pending) pending.reject(error);
+      dispatch();
+    };
+    worker.on('error', remove);
+    worker.on('exit', code => remove(new Error(`Worker stopped with exit code ${code}.`)));
+    return worker;
+  };
+
+  const run = (task: TTask): Promise<TResult> => {
+    if (destroyed) return Promise.reject(new Error('The worker pool has been destroyed.'));
+    return new Promise<TResult>((resolve, reject) => {
+      queue.push({ id: nextId++, task, resolve, reject });
+      dispatch();
+    });
+  };
+
+  return {
+    size,
+    run,
+    map: tasks => Promise.all(tasks.map(run)),
+    destroy: async () => {
+      destroyed = true;
+      const error = new Error('The worker pool has been destroyed.');
+      queue.splice(0).forEach(pending => pending.reject(error));
+      busy.forEach(pending => pending.reject(error));
+      busy.clear();
+      idle.splice(0);
+      const stopping = Array.from(workers).map(worker => worker.terminate());
+      workers.clear();
+      await Promise.all(stopping);
+    },
+  };
+}
+
+/**
+ * Answers the tasks a worker pool posts to this worker thread with `handleTask`. Called once, at
+ * the top level of the worker's script.
+ *
+ * @throws If not running in a worker thread.
+ */
+export function serveWorkerTasks<TTask, TResult>(handleTask: (task: TTask) => TResult | Promise<TResult>): void {
+  const port = parentPort;
+  if (!port) {
+    throw new Error('serveWorkerTasks must be called in a worker thread.');
+  }
+  port.on('message', async ({ id, task }: TaskMessage<TTask>) => {
+    let reply: ResultMessage<TResult>;
+    try {
+      reply = { id, result: await handleTask(task) };
+    } catch (error: any) {
+      reply = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    port.postMessage(reply);
+  });
+}